@@ -0,0 +1,19 @@
+// Compiles the TypeScript sources and tests to CommonJS for Jest, along with
+// the ESM-only packages Jest cannot load (see transformIgnorePatterns).
+// Types are not checked here; `tsc --noEmit` covers src/ including the tests.
+const ts = require("typescript");
+
+module.exports = {
+  process(source, filename) {
+    const { outputText, sourceMapText } = ts.transpileModule(source, {
+      fileName: filename,
+      compilerOptions: {
+        module: ts.ModuleKind.CommonJS,
+        target: ts.ScriptTarget.ES2020,
+        esModuleInterop: true,
+        sourceMap: true,
+      },
+    });
+    return { code: outputText, map: sourceMapText };
+  },
+};
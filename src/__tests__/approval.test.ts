@@ -0,0 +1,161 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, jest } from "@jest/globals";
+import { ToolMessage } from "@langchain/core/messages";
+import * as registry from "../models/registry";
+import { repo } from "../server";
+import { registerTool } from "../tools/registry";
+import {
+  ChatBody,
+  chunkOf,
+  register,
+  request,
+  ScriptedChatModel,
+  startServer,
+  streamChunks,
+  textReply,
+  toolCallReply,
+} from "./helpers";
+
+// A tool that needs approval and records what it was run with
+const stamped: string[] = [];
+registerTool({
+  name: "stamp",
+  description: "Stamp a text",
+  parameters: { type: "object", properties: { text: { type: "string" } }, required: ["text"] },
+  requiresApproval: true,
+  handler: async ({ text }: { text: string }) => {
+    stamped.push(text);
+    return `stamped: ${text}`;
+  },
+});
+
+let server: Awaited<ReturnType<typeof startServer>>;
+let token: string;
+let model: ScriptedChatModel;
+
+beforeAll(async () => {
+  server = await startServer();
+  token = await register(server.url, "approver@example.com");
+});
+
+beforeEach(() => {
+  stamped.length = 0;
+  // Each reply: a call to stamp, then the answer once it has been decided
+  model = new ScriptedChatModel([toolCallReply("call-1", "stamp", { text: "hello" }), textReply("Done.")]);
+  jest.spyOn(registry, "createChatModel").mockReturnValue(model);
+});
+
+afterAll(() => server.close());
+
+// Starts a chat whose reply pauses on the stamp call; returns the chat id
+async function pausedChat(): Promise<number> {
+  const { status, body } = await request<string>(server.url, "POST", "/chat", {
+    token,
+    body: { messages: [{ role: "user", content: "Stamp hello" }] },
+  });
+  expect(status).toBe(200);
+
+  const chunks = streamChunks(body);
+  expect(chunkOf(chunks, "data-approval-request")?.data).toMatchObject({
+    toolCallId: "call-1",
+    toolName: "stamp",
+    input: { text: "hello" },
+  });
+  expect(chunkOf(chunks, "finish")?.messageMetadata?.status).toBe("pending");
+  return Number(chunkOf(chunks, "start")?.messageMetadata?.chatId);
+}
+
+describe("tool calls that need approval", () => {
+  it("pause the reply until they are decided", async () => {
+    const chatId = await pausedChat();
+    expect(stamped).toEqual([]);
+
+    const next = await request<{ toolCallIds: string[] }>(server.url, "POST", `/chat/${chatId}`, {
+      token,
+      body: { messages: [{ role: "user", content: "Anything else?" }] },
+    });
+    expect(next.status).toBe(409);
+    expect(next.body.toolCallIds).toEqual(["call-1"]);
+
+    const { body: chat } = await request<ChatBody>(server.url, "GET", `/chats/${chatId}`, { token });
+    expect(chat.messages.map(m => `${m.role} ${m.status}`)).toEqual(["user complete", "tool pending"]);
+  });
+
+  it("run on approval and resume the reply", async () => {
+    const chatId = await pausedChat();
+
+    const { status, body } = await request<string>(server.url, "POST", `/chat/${chatId}/tool-calls/call-1/approve`, { token });
+    expect(status).toBe(200);
+    expect(stamped).toEqual(["hello"]);
+    expect(streamChunks(body)).toContainEqual(expect.objectContaining({ type: "text-delta", delta: "Done." }));
+
+    // The model saw the tool's answer
+    const answered = model.calls[1].find((m): m is ToolMessage => m instanceof ToolMessage);
+    expect(answered?.content).toBe("stamped: hello");
+
+    const again = await request(server.url, "POST", `/chat/${chatId}/tool-calls/call-1/approve`, { token });
+    expect(again.status).toBe(409);
+    expect(stamped).toEqual(["hello"]);
+  });
+
+  it("are not run when denied", async () => {
+    const chatId = await pausedChat();
+
+    const { status } = await request(server.url, "POST", `/chat/${chatId}/tool-calls/call-1/deny`, { token });
+    expect(status).toBe(200);
+    expect(stamped).toEqual([]);
+
+    const { body: chat } = await request<ChatBody>(server.url, "GET", `/chats/${chatId}`, { token });
+    expect(chat.messages.map(m => `${m.role} ${m.status}`)).toEqual(["user complete", "tool denied", "assistant complete"]);
+  });
+
+  it("are found by id on the active branch, where the model may have reused one", async () => {
+    jest.spyOn(registry, "createChatModel").mockReturnValue(new ScriptedChatModel([
+      toolCallReply("call-1", "stamp", { text: "hello" }),
+      textReply("Done."),
+      toolCallReply("call-1", "stamp", { text: "again" }),
+      textReply("Done again."),
+    ]));
+    const chatId = await pausedChat();
+    await request(server.url, "POST", `/chat/${chatId}/tool-calls/call-1/approve`, { token });
+    await request(server.url, "POST", `/chat/${chatId}`, { token, body: { messages: [{ role: "user", content: "Again" }] } });
+
+    const { status, body } = await request<string>(server.url, "POST", `/chat/${chatId}/tool-calls/call-1/approve`, { token });
+    expect(status).toBe(200);
+    expect(stamped).toEqual(["hello", "again"]);
+    expect(streamChunks(body)).toContainEqual(expect.objectContaining({ type: "text-delta", delta: "Done again." }));
+  });
+
+  it("resume the reply with the request's settings and response format", async () => {
+    model = new ScriptedChatModel([toolCallReply("call-1", "stamp", { text: "hello" }), textReply('{"answer":"ok"}')]);
+    const create = jest.spyOn(registry, "createChatModel").mockReturnValue(model);
+    const { body } = await request<string>(server.url, "POST", "/chat", {
+      token,
+      body: {
+        messages: [{ role: "user", content: "Stamp hello" }],
+        settings: { temperature: 0.25 },
+        responseFormat: {
+          type: "json_schema",
+          schema: { type: "object", properties: { answer: { type: "string" } }, required: ["answer"] },
+        },
+      },
+    });
+    const chatId = chunkOf(streamChunks(body), "start")?.messageMetadata?.chatId;
+
+    const resumed = await request<string>(server.url, "POST", `/chat/${chatId}/tool-calls/call-1/approve`, { token });
+    expect(create.mock.lastCall?.[1]).toMatchObject({ temperature: 0.25 });
+    expect(chunkOf(streamChunks(resumed.body), "data-structured-output")?.data).toEqual({ answer: "ok" });
+
+    const [, decided] = await repo.listMessages(Number(chatId));
+    expect(decided.tool_call).not.toHaveProperty("reply");
+  });
+
+  it("can only be decided by the chat's owner", async () => {
+    const chatId = await pausedChat();
+    const other = await register(server.url, "someone-else@example.com");
+
+    const { status } = await request(server.url, "POST", `/chat/${chatId}/tool-calls/call-1/approve`, { token: other });
+    expect(status).toBe(404);
+    expect((await request(server.url, "POST", `/chat/${chatId}/tool-calls/unknown/approve`, { token })).status).toBe(404);
+    expect(stamped).toEqual([]);
+  });
+});
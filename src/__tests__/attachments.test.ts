@@ -0,0 +1,114 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, jest } from "@jest/globals";
+import * as registry from "../models/registry";
+import type { Chat } from "../storage";
+import { ChatBody, register, request, ScriptedChatModel, startServer, textReply } from "./helpers";
+
+interface UploadBody {
+  id: number;
+  url: string;
+  mediaType: string;
+  filename: string | null;
+  size: number;
+}
+
+let server: Awaited<ReturnType<typeof startServer>>;
+let token: string;
+let model: ScriptedChatModel;
+
+beforeAll(async () => {
+  server = await startServer();
+  token = await register(server.url, "attachments@example.com");
+});
+
+afterAll(() => server.close());
+
+beforeEach(() => {
+  model = new ScriptedChatModel([textReply("Read it")]);
+  jest.spyOn(registry, "createChatModel").mockReturnValue(model);
+});
+
+async function upload(data: string, mediaType: string, filename: string, as = token) {
+  const response = await fetch(`${server.url}/attachments?filename=${filename}`, {
+    method: "POST",
+    headers: { Authorization: `Bearer ${as}`, "Content-Type": mediaType },
+    body: data,
+  });
+  return { status: response.status, body: (await response.json()) as UploadBody };
+}
+
+const download = (url: string, as = token) => fetch(server.url + url, { headers: { Authorization: `Bearer ${as}` } });
+
+// Send one user turn with files to a new chat; returns the response status and the chat
+async function send(files: Array<{ url: string; filename?: string }>) {
+  const { body: chat } = await request<Chat>(server.url, "POST", "/chats", { token, body: {} });
+  const { status, body } = await request(server.url, "POST", `/chat/${chat.id}`, {
+    token,
+    body: {
+      messages: [{
+        role: "user",
+        parts: [{ type: "text", text: "Look" }, ...files.map(f => ({ type: "file", mediaType: "text/plain", ...f }))],
+      }],
+    },
+  });
+  return { status, body, chat: (await request<ChatBody>(server.url, "GET", `/chats/${chat.id}`, { token })).body };
+}
+
+describe("POST /attachments", () => {
+  it("stores the file for its uploader", async () => {
+    const { status, body } = await upload("hello", "text/plain", "hello.txt");
+
+    expect(status).toBe(201);
+    expect(body).toMatchObject({ url: `/attachments/${body.id}`, mediaType: "text/plain", filename: "hello.txt", size: 5 });
+
+    const file = await download(body.url);
+    expect(file.headers.get("x-content-type-options")).toBe("nosniff");
+    expect(file.headers.get("content-disposition")).toContain("hello.txt");
+    expect(await file.text()).toBe("hello");
+
+    const other = await register(server.url, "other-attachments@example.com");
+    expect((await download(body.url, other)).status).toBe(404);
+  });
+
+  it("needs a body", async () => {
+    expect((await upload("", "text/plain", "empty.txt")).status).toBe(400);
+  });
+
+  it("shows raster images inline but downloads anything else", async () => {
+    const png = await upload("png", "image/png", "a.png");
+    const svg = await upload("<svg/>", "image/svg+xml", "a.svg");
+
+    expect((await download(png.body.url)).headers.get("content-disposition")).toBeNull();
+    expect((await download(svg.body.url)).headers.get("content-disposition")).toContain("attachment");
+  });
+});
+
+describe("file parts", () => {
+  it("sends uploads and data URLs to the model with the message", async () => {
+    const { body: uploaded } = await upload("first file", "text/plain", "first.txt");
+    const inline = `data:text/plain;base64,${Buffer.from("second file").toString("base64")}`;
+
+    const { status, chat } = await send([{ url: uploaded.url }, { url: inline, filename: "second.txt" }]);
+
+    expect(status).toBe(200);
+    const files = chat.messages[0].parts.filter(p => p.type === "file");
+    expect(files.map(f => f.url)).toEqual([uploaded.url, expect.stringMatching(/^\/attachments\/\d+$/)]);
+    expect(await (await download(files[1].url!)).text()).toBe("second file");
+
+    const question = model.calls[0][1].content;
+    expect(question).toEqual([
+      { type: "text", text: "Look" },
+      { type: "text", text: 'Attached file "first.txt":\n\nfirst file' },
+      { type: "text", text: 'Attached file "second.txt":\n\nsecond file' },
+    ]);
+  });
+
+  it("refuses unknown, already sent and malformed files", async () => {
+    const { body: uploaded } = await upload("once", "text/plain", "once.txt");
+    expect((await send([{ url: uploaded.url }])).status).toBe(200);
+
+    expect((await send([{ url: uploaded.url }])).status).toBe(400);
+    expect((await send([{ url: "/attachments/999999" }])).status).toBe(400);
+    expect((await send([{ url: "https://example.com/file.txt" }])).status).toBe(400);
+    expect(model.calls).toHaveLength(1);
+  });
+});
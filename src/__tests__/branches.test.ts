@@ -0,0 +1,161 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, jest } from "@jest/globals";
+import * as registry from "../models/registry";
+import { registerTool } from "../tools/registry";
+import type { Chat } from "../storage";
+import {
+  ChatBody,
+  chunkOf,
+  deferred,
+  register,
+  request,
+  ScriptedChatModel,
+  ScriptedReply,
+  startServer,
+  streamChunks,
+  textReply,
+  toolCallReply,
+  waitFor,
+} from "./helpers";
+
+registerTool({
+  name: "confirm",
+  description: "Ask before doing something",
+  parameters: { type: "object", properties: {} },
+  requiresApproval: true,
+  handler: async () => "done",
+});
+
+let server: Awaited<ReturnType<typeof startServer>>;
+let token: string;
+let model: ScriptedChatModel;
+
+beforeAll(async () => {
+  server = await startServer();
+  token = await register(server.url, "branches@example.com");
+});
+
+afterAll(() => server.close());
+
+function script(...replies: ScriptedReply[]) {
+  model = new ScriptedChatModel(replies);
+  jest.spyOn(registry, "createChatModel").mockReturnValue(model);
+}
+
+beforeEach(() => script(textReply("First answer"), textReply("Second answer")));
+
+const getChat = async (id: number) => (await request<ChatBody>(server.url, "GET", `/chats/${id}`, { token })).body;
+const texts = (chat: ChatBody) => chat.messages.map(m => m.content);
+
+// A chat holding one question and its answer; returns the chat
+async function answeredChat(parts?: unknown[]): Promise<ChatBody> {
+  const { body } = await request<string>(server.url, "POST", "/chat", {
+    token,
+    body: { messages: [{ role: "user", parts: parts ?? [{ type: "text", text: "Question" }] }] },
+  });
+  return getChat(Number(chunkOf(streamChunks(body), "start")?.messageMetadata?.chatId));
+}
+
+describe("PUT /chats/:id/messages/:messageId", () => {
+  it("saves the edit as a sibling and answers it", async () => {
+    const chat = await answeredChat();
+    const [question] = chat.messages;
+
+    const { status, body } = await request<string>(server.url, "PUT", `/chats/${chat.id}/messages/${question.id}`, {
+      token,
+      body: { content: "Better question" },
+    });
+    expect(status).toBe(200);
+    expect(streamChunks(body)).toContainEqual(expect.objectContaining({ type: "text-delta", delta: "Second answer" }));
+
+    const edited = await getChat(chat.id);
+    expect(texts(edited)).toEqual(["Better question", "Second answer"]);
+    expect(edited.messages[0].siblingIds).toEqual([question.id, edited.messages[0].id]);
+    expect(model.calls[1].map(m => m.text).slice(1)).toEqual(["Better question"]);
+  });
+
+  it("keeps the files of the original message", async () => {
+    const chat = await answeredChat([
+      { type: "text", text: "Read this" },
+      { type: "file", url: `data:text/plain;base64,${Buffer.from("notes").toString("base64")}`, filename: "notes.txt" },
+    ]);
+    const [question] = chat.messages;
+
+    await request(server.url, "PUT", `/chats/${chat.id}/messages/${question.id}`, { token, body: { content: "Read it" } });
+
+    const [edited] = (await getChat(chat.id)).messages;
+    const [file] = edited.parts.filter(p => p.type === "file");
+    expect(file.url).not.toBe(question.parts[1].url);
+    const download = await fetch(server.url + file.url, { headers: { Authorization: `Bearer ${token}` } });
+    expect(await download.text()).toBe("notes");
+  });
+
+  it("only edits user messages", async () => {
+    const chat = await answeredChat();
+    const { status } = await request(server.url, "PUT", `/chats/${chat.id}/messages/${chat.messages[1].id}`, {
+      token,
+      body: { content: "Changed" },
+    });
+    expect(status).toBe(400);
+  });
+
+  it("waits for pending tool calls to be decided", async () => {
+    script(toolCallReply("call-1", "confirm", {}));
+    const { body } = await request<string>(server.url, "POST", "/chat", {
+      token,
+      body: { messages: [{ role: "user", content: "Do it" }] },
+    });
+    const chat = await getChat(Number(chunkOf(streamChunks(body), "start")?.messageMetadata?.chatId));
+
+    const edit = await request<{ toolCallIds: string[] }>(
+      server.url, "PUT", `/chats/${chat.id}/messages/${chat.messages[0].id}`, { token, body: { content: "Don't" } }
+    );
+    expect(edit.status).toBe(409);
+    expect(edit.body.toolCallIds).toEqual(["call-1"]);
+    expect(texts(await getChat(chat.id))).toEqual(["Do it", ""]);
+  });
+});
+
+describe("POST /chats/:id/messages/:messageId/regenerate", () => {
+  it("answers again as a sibling of the reply", async () => {
+    const chat = await answeredChat();
+    const [, answer] = chat.messages;
+
+    await request(server.url, "POST", `/chats/${chat.id}/messages/${answer.id}/regenerate`, { token });
+
+    const regenerated = await getChat(chat.id);
+    expect(texts(regenerated)).toEqual(["Question", "Second answer"]);
+    expect(regenerated.messages[1].siblingIds).toEqual([answer.id, regenerated.messages[1].id]);
+  });
+
+  it("is refused while a reply is streaming", async () => {
+    const held = deferred<ReturnType<typeof textReply>>();
+    script(textReply("First answer"), [textReply("Slow"), held.promise]);
+    const chat = await answeredChat();
+    const streaming = request(server.url, "POST", `/chats/${chat.id}/messages/${chat.messages[1].id}/regenerate`, { token });
+    await waitFor(() => model.calls.length === 2);
+
+    const again = await request(server.url, "POST", `/chats/${chat.id}/messages/${chat.messages[1].id}/regenerate`, { token });
+    const edit = await request(server.url, "PUT", `/chats/${chat.id}/messages/${chat.messages[0].id}`, {
+      token,
+      body: { content: "Changed" },
+    });
+    expect([again.status, edit.status]).toEqual([409, 409]);
+
+    held.resolve(textReply(" answer"));
+    expect((await streaming).status).toBe(200);
+    expect(texts(await getChat(chat.id))).toEqual(["Question", "Slow answer"]);
+  });
+});
+
+describe("POST /chats/:id/messages/:messageId/select", () => {
+  it("switches to the branch holding the message", async () => {
+    const chat = await answeredChat();
+    await request(server.url, "POST", `/chats/${chat.id}/messages/${chat.messages[1].id}/regenerate`, { token });
+
+    const { body } = await request<Chat & ChatBody>(
+      server.url, "POST", `/chats/${chat.id}/messages/${chat.messages[1].id}/select`, { token }
+    );
+    expect(texts(body)).toEqual(["Question", "First answer"]);
+    expect(texts(await getChat(chat.id))).toEqual(["Question", "First answer"]);
+  });
+});
@@ -0,0 +1,119 @@
+import { afterAll, beforeAll, describe, expect, it, jest } from "@jest/globals";
+import { SystemMessage } from "@langchain/core/messages";
+import { buildContext, ContextMessage, registerContextStrategy } from "../chat/context";
+import { TokenCounter } from "../models/tokens";
+import * as registry from "../models/registry";
+import { repo } from "../server";
+import type { Chat } from "../storage";
+import {
+  chunkOf,
+  register,
+  request,
+  ScriptedChatModel,
+  startServer,
+  streamChunks,
+  textReply,
+} from "./helpers";
+
+// One token per word, so each message below costs 6 + 4 (overhead) = 10
+const counter: TokenCounter = { count: text => (text ? text.split(" ").length : 0) };
+const SYSTEM_TOKENS = 4;
+
+// Alternating turns starting with the user: ids 1, 3 and 5 are user messages
+const history: ContextMessage[] = [1, 2, 3, 4, 5, 6].map(id => ({
+  id,
+  role: id % 2 === 1 ? "user" : "assistant",
+  content: `message ${id} has six words here`,
+}));
+
+function context(strategy: string, budget: number, messages = history, options = {}) {
+  return buildContext("", messages, {
+    strategy,
+    budget: SYSTEM_TOKENS + budget,
+    keepFirst: 0,
+    windowSize: 20,
+    counter,
+    ...options,
+  });
+}
+
+describe("buildContext", () => {
+  it("drops the oldest messages that do not fit", () => {
+    const result = context("drop-oldest", 40);
+
+    expect(result.includedIds).toEqual([3, 4, 5, 6]);
+    expect(result.droppedIds).toEqual([1, 2]);
+    expect(result.tokens).toBe(SYSTEM_TOKENS + 40);
+  });
+
+  it("does not start the history with an assistant turn", () => {
+    expect(context("drop-oldest", 30).includedIds).toEqual([5, 6]);
+  });
+
+  it("always keeps the latest message", () => {
+    expect(context("drop-oldest", 0).includedIds).toEqual([6]);
+  });
+
+  it("counts tokens sent beside the content", () => {
+    const withFile = history.map(m => (m.id === 6 ? { ...m, extraTokens: 25 } : m));
+    expect(context("drop-oldest", 40, withFile).includedIds).toEqual([6]);
+  });
+
+  it("keeps at most windowSize messages with sliding-window", () => {
+    expect(context("sliding-window", 1000, history, { windowSize: 3 }).includedIds).toEqual([5, 6]);
+    expect(context("sliding-window", 1000, history, { windowSize: 4 }).includedIds).toEqual([3, 4, 5, 6]);
+  });
+
+  it("pins the first messages with keep-first", () => {
+    const result = context("keep-first", 40, history, { keepFirst: 2 });
+
+    expect(result.includedIds).toEqual([1, 2, 5, 6]);
+    expect(result.droppedIds).toEqual([3, 4]);
+  });
+
+  it("uses registered strategies and rejects unknown ones", () => {
+    registerContextStrategy("last-only", messages => messages.slice(-1));
+
+    expect(context("last-only", 1000).includedIds).toEqual([6]);
+    expect(() => context("nonexistent", 1000)).toThrow('Unknown context strategy "nonexistent"');
+  });
+});
+
+describe("the reply's context", () => {
+  let server: Awaited<ReturnType<typeof startServer>>;
+  let token: string;
+
+  beforeAll(async () => {
+    server = await startServer();
+    token = await register(server.url, "context@example.com");
+  });
+
+  afterAll(() => server.close());
+
+  it("is what the model sees and is reported to the client", async () => {
+    const { body: chat } = await request<Chat>(server.url, "POST", "/chats", { token, body: {} });
+    const earlier = [];
+    for (const [role, content] of [["user", "one"], ["assistant", "two"], ["user", "three"], ["assistant", "four"]]) {
+      earlier.push(await repo.addMessage(chat.id, role, content));
+    }
+    const model = new ScriptedChatModel([textReply("five")]);
+    jest.spyOn(registry, "createChatModel").mockReturnValue(model);
+
+    const { body } = await request<string>(server.url, "POST", `/chat/${chat.id}`, {
+      token,
+      body: {
+        messages: [{ role: "user", content: "question" }],
+        settings: { contextStrategy: "sliding-window", contextWindowSize: 3, systemPrompt: "Be brief." },
+      },
+    });
+
+    const reported = chunkOf(streamChunks(body), "data-context")?.data;
+    expect(reported?.strategy).toBe("sliding-window");
+    expect(reported?.droppedMessageIds).toEqual([earlier[0].id, earlier[1].id]);
+    expect(reported?.includedMessageIds.slice(0, 2)).toEqual([earlier[2].id, earlier[3].id]);
+
+    const [sent] = model.calls;
+    expect(sent[0]).toBeInstanceOf(SystemMessage);
+    expect(sent.map(m => m.text)).toEqual(["Be brief.", "three", "four", "question"]);
+  });
+});
@@ -0,0 +1,109 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, jest } from "@jest/globals";
+import { chunkText, documentMediaType, withDocuments } from "../chat/documents";
+import * as registry from "../models/registry";
+import type { Chat, ChatDocument, ScoredChunk } from "../storage";
+import { chunkOf, register, request, ScriptedChatModel, startServer, streamChunks, textReply } from "./helpers";
+
+describe("chunkText", () => {
+  it("packs paragraphs into chunks that overlap", () => {
+    const text = "alpha beta gamma\n\ndelta epsilon zeta\n\neta theta iota";
+
+    expect(chunkText(text, { chunkSize: 40, chunkOverlap: 10 })).toEqual([
+      "alpha beta gamma\n\ndelta epsilon zeta",
+      "zeta\n\neta theta iota",
+    ]);
+    expect(chunkText(text, { chunkSize: 1000, chunkOverlap: 10 })).toEqual([text]);
+    expect(chunkText(" \n\n ")).toEqual([]);
+  });
+
+  it("cuts long paragraphs at words", () => {
+    expect(chunkText("one two three four", { chunkSize: 9, chunkOverlap: 0 })).toEqual(["one two", "three", "four"]);
+  });
+});
+
+describe("documentMediaType", () => {
+  it("guesses from the extension only when the type is generic", () => {
+    expect(documentMediaType("text/csv; charset=utf-8", "notes.md")).toBe("text/csv");
+    expect(documentMediaType("application/octet-stream", "notes.md")).toBe("text/markdown");
+    expect(documentMediaType(undefined, "paper.PDF")).toBe("application/pdf");
+    expect(documentMediaType(undefined, null)).toBe("application/octet-stream");
+  });
+});
+
+describe("withDocuments", () => {
+  it("numbers the excerpts after the system prompt", () => {
+    const chunk = { id: 1, document_id: 2, chunk_index: 0, content: "Text", filename: null, media_type: "text/plain", score: 1 };
+    expect(withDocuments("Be brief.", [])).toBe("Be brief.");
+    expect(withDocuments("Be brief.", [chunk as ScoredChunk])).toContain("cite them as [n]:\n\n[1] Document 2:\nText");
+  });
+});
+
+describe("/chats/:id/documents", () => {
+  let server: Awaited<ReturnType<typeof startServer>>;
+  let token: string;
+  let chat: Chat;
+  let model: ScriptedChatModel;
+
+  beforeAll(async () => {
+    server = await startServer();
+    token = await register(server.url, "documents@example.com");
+  });
+
+  afterAll(() => server.close());
+
+  beforeEach(async () => {
+    model = new ScriptedChatModel([textReply("Tuesdays [1]")]);
+    jest.spyOn(registry, "createChatModel").mockReturnValue(model);
+    chat = (await request<Chat>(server.url, "POST", "/chats", { token, body: {} })).body;
+  });
+
+  async function upload(data: string, contentType: string, filename: string) {
+    const response = await fetch(`${server.url}/chats/${chat.id}/documents?filename=${filename}`, {
+      method: "POST",
+      headers: { Authorization: `Bearer ${token}`, "Content-Type": contentType },
+      body: data,
+    });
+    return { status: response.status, body: (await response.json()) as ChatDocument };
+  }
+
+  it("answers from the chat's documents and cites them", async () => {
+    const { status, body: document } = await upload(
+      "The recycling is collected on Tuesdays.\n\nThe office plants are watered on Fridays.",
+      "application/octet-stream",
+      "house-rules.md"
+    );
+    expect(status).toBe(201);
+    expect(document).toMatchObject({ chat_id: chat.id, filename: "house-rules.md", media_type: "text/markdown", chunk_count: 1 });
+
+    const { body } = await request<string>(server.url, "POST", `/chat/${chat.id}`, {
+      token,
+      body: { messages: [{ role: "user", content: "When is the recycling collected?" }] },
+    });
+
+    const source = chunkOf(streamChunks(body), "source-document");
+    expect(source).toMatchObject({ title: "[1] house-rules.md", mediaType: "text/markdown" });
+    expect(model.calls[0][0].text).toContain("[1] house-rules.md:\nThe recycling is collected on Tuesdays.");
+  });
+
+  it("lists and deletes documents", async () => {
+    const { body: document } = await upload("Some notes", "text/plain", "notes.txt");
+
+    const listed = await request<ChatDocument[]>(server.url, "GET", `/chats/${chat.id}/documents`, { token });
+    expect(listed.body.map(d => d.id)).toEqual([document.id]);
+
+    const path = `/chats/${chat.id}/documents/${document.id}`;
+    expect((await request(server.url, "DELETE", path, { token })).status).toBe(200);
+    expect((await request(server.url, "DELETE", path, { token })).status).toBe(404);
+    expect((await request<ChatDocument[]>(server.url, "GET", `/chats/${chat.id}/documents`, { token })).body).toEqual([]);
+
+    // Without documents the prompt has no excerpts
+    await request(server.url, "POST", `/chat/${chat.id}`, { token, body: { messages: [{ role: "user", content: "Notes?" }] } });
+    expect(model.calls[0][0].text).not.toContain("Excerpts");
+  });
+
+  it("refuses empty and unsupported files", async () => {
+    expect((await upload("", "text/plain", "empty.txt")).status).toBe(400);
+    expect((await upload("\n\n", "text/plain", "blank.txt")).status).toBe(400);
+    expect((await upload("GIF89a", "image/gif", "a.gif")).status).toBe(415);
+  });
+});
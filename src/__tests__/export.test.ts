@@ -0,0 +1,133 @@
+import { afterAll, beforeAll, describe, expect, it, jest } from "@jest/globals";
+import { attachmentUrl } from "../chat/attachments";
+import { ChatExport, exportHtml, exportJson, exportMarkdown } from "../chat/export";
+import * as registry from "../models/registry";
+import { createMemoryRepository } from "../storage/memory";
+import { register, request, ScriptedChatModel, startServer, textReply } from "./helpers";
+
+const now = new Date("2026-03-01T12:00:00Z");
+
+// A question with a file, a tool call whose output holds a fence, and a stopped answer
+async function fixture() {
+  const store = createMemoryRepository();
+  const { id } = await store.createChat("Sorting\n  <lists>", "local", 1);
+  const question = await store.addMessage(id, "user", "How do I <sort>?\n\n```ts\nlist.sort()\n```");
+  const file = await store.addAttachment({ owner_id: 1, media_type: "text/plain", filename: "notes.txt", data: Buffer.from("hi") });
+  await store.linkAttachments(question.id, [file.id]);
+  await store.addMessage(id, "tool", "```", question.id, "complete", {
+    tool_call: { id: "call-1", name: "calculator", input: { expression: "1 + 1" }, output: "```" },
+  });
+  await store.addMessage(id, "assistant", "Use sort.", undefined, "stopped");
+
+  return {
+    store,
+    file,
+    chat: (await store.getChat(id, 1))!,
+    messages: await store.listMessages(id),
+    attachments: await store.listAttachments(id),
+  };
+}
+
+describe("exportMarkdown", () => {
+  it("writes the chat's facts and one section per message", async () => {
+    const { chat, messages, attachments, file } = await fixture();
+    const markdown = exportMarkdown(chat, messages, attachments, now);
+
+    expect(markdown).toMatch(/^# Sorting <lists>\n\n- Chat: 1\n- Model: local\n- Created: \d{4}-\d\d-\d\d \d\d:\d\d:\d\d UTC\n/);
+    expect(markdown).toContain("- Exported: 2026-03-01 12:00:00 UTC");
+    // Message text is kept as written, fences and all
+    expect(markdown).toContain("How do I <sort>?\n\n```ts\nlist.sort()\n```");
+    expect(markdown).toContain(`- [notes.txt](${attachmentUrl(file.id)}) (text/plain, 2 bytes)`);
+    expect(markdown).toContain('Input:\n\n```json\n{\n  "expression": "1 + 1"\n}\n```');
+    // Output holding a fence gets a longer one
+    expect(markdown).toContain("Output:\n\n````json\n```\n````");
+    expect(markdown).toMatch(/## Tool: calculator — /);
+    expect(markdown).toMatch(/## Assistant \[stopped\] — .*\n\nUse sort\.\n$/);
+  });
+});
+
+describe("exportHtml", () => {
+  it("escapes text and turns fenced code into pre blocks", async () => {
+    const { chat, messages, attachments, file } = await fixture();
+    const html = exportHtml(chat, messages, attachments, now);
+
+    expect(html).toContain("<title>Sorting &lt;lists&gt;</title>");
+    expect(html).toContain("<p>How do I &lt;sort&gt;?</p>\n<pre><code class=\"language-ts\">list.sort()</code></pre>");
+    expect(html).toContain(`<li><a href="${attachmentUrl(file.id)}">notes.txt</a> (text/plain, 2 bytes)</li>`);
+    expect(html).toContain('<article class="tool">\n<h2>Tool: calculator <time datetime="');
+    expect(html).toContain("<h2>Assistant [stopped] <time");
+    expect(html).not.toContain("<sort>");
+  });
+
+  it("runs an unclosed fence to the end", async () => {
+    const { chat, messages } = await fixture();
+    const html = exportHtml(chat, [{ ...messages[0], content: "Code:\n```\nlet a = 1;" }], [], now);
+    expect(html).toContain("<p>Code:</p>\n<pre><code>let a = 1;</code></pre>");
+  });
+});
+
+describe("exportJson", () => {
+  it("keeps the rows as stored, without owners, and files as base64", async () => {
+    const { store, chat, messages, attachments } = await fixture();
+    const files = await store.getAttachments(attachments.map(a => a.id), 1);
+    const exported = exportJson(chat, messages, files, now);
+
+    expect(exported).toMatchObject({ version: 1, exported_at: "2026-03-01T12:00:00.000Z", chat: { id: chat.id } });
+    expect(exported.chat).not.toHaveProperty("owner_id");
+    expect(exported.messages.map(m => m.role)).toEqual(["user", "tool", "assistant"]);
+    expect(exported.messages[0]).not.toHaveProperty("chat_id");
+    expect(exported.messages[0].attachments).toEqual([
+      expect.objectContaining({ filename: "notes.txt", data: Buffer.from("hi").toString("base64") }),
+    ]);
+    expect(exported.messages[0].attachments[0]).not.toHaveProperty("owner_id");
+    expect(exported.messages[1].tool_call).toMatchObject({ name: "calculator", output: "```" });
+  });
+});
+
+describe("GET /chats/:id/export", () => {
+  let server: Awaited<ReturnType<typeof startServer>>;
+  let token: string;
+  let chatId: string;
+
+  beforeAll(async () => {
+    server = await startServer();
+    token = await register(server.url, "exporter@example.com");
+    jest.spyOn(registry, "createChatModel").mockReturnValue(new ScriptedChatModel([textReply("Hello!")]));
+    const response = await fetch(`${server.url}/chat`, {
+      method: "POST",
+      headers: { Authorization: `Bearer ${token}`, "Content-Type": "application/json" },
+      body: JSON.stringify({ messages: [{ role: "user", content: "Hi" }] }),
+    });
+    await response.text();
+    chatId = response.headers.get("x-chat-id")!;
+  });
+
+  afterAll(() => server.close());
+
+  it("downloads each format as a file", async () => {
+    const cases = [
+      ["markdown", "text/markdown", "md"],
+      ["html", "text/html", "html"],
+      ["json", "application/json", "json"],
+    ];
+    for (const [format, type, extension] of cases) {
+      const response = await fetch(`${server.url}/chats/${chatId}/export?format=${format}`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      expect(response.status).toBe(200);
+      expect(response.headers.get("content-type")).toContain(type);
+      expect(response.headers.get("content-disposition")).toBe(`attachment; filename="chat-${chatId}.${extension}"`);
+      expect(response.headers.get("x-content-type-options")).toBe("nosniff");
+      await response.text();
+    }
+
+    const { body } = await request<ChatExport>(server.url, "GET", `/chats/${chatId}/export?format=json`, { token });
+    expect(body.messages.map(m => `${m.role} ${m.content}`)).toEqual(["user Hi", "assistant Hello!"]);
+  });
+
+  it("refuses unknown formats and other users' chats", async () => {
+    expect((await request(server.url, "GET", `/chats/${chatId}/export?format=pdf`, { token })).status).toBe(400);
+    const other = await register(server.url, "not-the-exporter@example.com");
+    expect((await request(server.url, "GET", `/chats/${chatId}/export`, { token: other })).status).toBe(404);
+  });
+});
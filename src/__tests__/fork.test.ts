@@ -0,0 +1,53 @@
+import { afterAll, beforeAll, describe, expect, it } from "@jest/globals";
+import { repo } from "../server";
+import type { Chat } from "../storage";
+import { ChatBody, register, request, startServer } from "./helpers";
+
+let server: Awaited<ReturnType<typeof startServer>>;
+let token: string;
+
+beforeAll(async () => {
+  server = await startServer();
+  token = await register(server.url, "forks@example.com");
+});
+
+afterAll(() => server.close());
+
+describe("POST /chats/:id/fork", () => {
+  it("copies the path up to the message into a new chat", async () => {
+    const { body: chat } = await request<Chat>(server.url, "POST", "/chats", { token, body: { title: "Source" } });
+    const question = await repo.addMessage(chat.id, "user", "Question");
+    const answer = await repo.addMessage(chat.id, "assistant", "Answer");
+    await repo.addMessage(chat.id, "user", "Follow-up");
+    const upload = await repo.addAttachment({
+      owner_id: chat.owner_id,
+      media_type: "text/plain",
+      filename: "notes.txt",
+      data: Buffer.from("notes"),
+    });
+    await repo.linkAttachments(question.id, [upload.id]);
+
+    const { status, body: fork } = await request<ChatBody>(server.url, "POST", `/chats/${chat.id}/fork`, {
+      token,
+      body: { messageId: answer.id },
+    });
+
+    expect(status).toBe(201);
+    expect(fork).toMatchObject({ title: "Source (fork)", forked_from_chat_id: chat.id, forked_from_message_id: answer.id });
+    expect(fork.messages.map(m => m.content)).toEqual(["Question", "Answer"]);
+    expect(fork.messages[0].parts.filter(p => p.type === "file")).toHaveLength(1);
+
+    // The two chats are independent
+    await repo.addMessage(fork.id, "user", "Elsewhere");
+    const { body: source } = await request<ChatBody>(server.url, "GET", `/chats/${chat.id}`, { token });
+    expect(source.messages.map(m => m.content)).toEqual(["Question", "Answer", "Follow-up"]);
+  });
+
+  it("needs a message of the chat", async () => {
+    const { body: chat } = await request<Chat>(server.url, "POST", "/chats", { token, body: {} });
+
+    expect((await request(server.url, "POST", `/chats/${chat.id}/fork`, { token, body: {} })).status).toBe(400);
+    expect((await request(server.url, "POST", `/chats/${chat.id}/fork`, { token, body: { messageId: 999 } })).status)
+      .toBe(404);
+  });
+});
@@ -0,0 +1,169 @@
+import type { AddressInfo } from "net";
+import type { Server } from "http";
+import { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import { AIMessageChunk, BaseMessage } from "@langchain/core/messages";
+import { ChatGenerationChunk, ChatResult } from "@langchain/core/outputs";
+import { app, ChatStreamChunk } from "../server";
+import type { Chat, MessageStatus } from "../storage";
+
+// The app on a free port, for the lifetime of one test file
+export async function startServer(): Promise<{ url: string; close: () => Promise<void> }> {
+  const server: Server = await new Promise(resolve => {
+    const listening = app.listen(0, () => resolve(listening));
+  });
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: `http://127.0.0.1:${port}`,
+    // Streams a failed test left open would otherwise keep the server up
+    close: () => new Promise(resolve => {
+      server.close(() => resolve());
+      server.closeAllConnections();
+    }),
+  };
+}
+
+export interface TestResponse<T> {
+  status: number;
+  body: T;
+}
+
+// JSON in and out; SSE and other text bodies come back as a string. T is
+// the body the test expects; nothing checks it beyond the assertions.
+export async function request<T = unknown>(
+  url: string,
+  method: string,
+  path: string,
+  { token, body }: { token?: string; body?: unknown } = {}
+): Promise<TestResponse<T>> {
+  const response = await fetch(url + path, {
+    method,
+    headers: {
+      ...(body === undefined ? {} : { "Content-Type": "application/json" }),
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  const text = await response.text();
+  const json = response.headers.get("content-type")?.includes("application/json");
+  return { status: response.status, body: (json && text ? JSON.parse(text) : text) as T };
+}
+
+// A message as the chat routes return it (formatMessage in server.ts)
+export interface MessageBody {
+  id: string;
+  role: string;
+  content: string;
+  parts: Array<{ type: string; text?: string; url?: string; state?: string }>;
+  status: MessageStatus;
+  parentId: string | null;
+  siblingIds: string[];
+  usage: { model: string; promptTokens: number; completionTokens: number } | null;
+}
+
+// GET /chats/:id
+export interface ChatBody extends Chat {
+  messages: MessageBody[];
+  nextCursor: string | null;
+}
+
+// A new account's access token
+export async function register(url: string, email: string): Promise<string> {
+  const { status, body } = await request<{ token: string }>(url, "POST", "/auth/register", {
+    body: { email, password: "password-for-tests" },
+  });
+  if (status !== 201) throw new Error(`Registration failed: ${status} ${JSON.stringify(body)}`);
+  return body.token;
+}
+
+// The chunks of a UI message stream response, in order
+export function streamChunks(body: string): ChatStreamChunk[] {
+  return body
+    .split("\n")
+    .filter(line => line.startsWith("data: ") && line !== "data: [DONE]")
+    .map(line => JSON.parse(line.slice("data: ".length)) as ChatStreamChunk);
+}
+
+// The first chunk of a type, narrowed to it
+export function chunkOf<T extends ChatStreamChunk["type"]>(
+  chunks: ChatStreamChunk[],
+  type: T
+): Extract<ChatStreamChunk, { type: T }> | undefined {
+  return chunks.find((chunk): chunk is Extract<ChatStreamChunk, { type: T }> => chunk.type === type);
+}
+
+// A scripted reply: one message, or chunks streamed one after another. A
+// chunk may be a promise, e.g. to hold the stream open until a test goes on.
+export type ScriptedReply = AIMessageChunk | Array<AIMessageChunk | Promise<AIMessageChunk>>;
+
+// Streams scripted replies, one per model call, in place of a real API.
+// Without bindTools the server hands it the prompt as is.
+export class ScriptedChatModel extends BaseChatModel {
+  // The messages of each call
+  calls: BaseMessage[][] = [];
+
+  constructor(private replies: ScriptedReply[]) {
+    super({});
+  }
+
+  _llmType(): string {
+    return "scripted";
+  }
+
+  private next(messages: BaseMessage[]): Array<AIMessageChunk | Promise<AIMessageChunk>> {
+    this.calls.push(messages);
+    const reply = this.replies.shift();
+    if (!reply) throw new Error("No scripted reply left");
+    return Array.isArray(reply) ? reply : [reply];
+  }
+
+  async _generate(messages: BaseMessage[]): Promise<ChatResult> {
+    const [first, ...rest] = await Promise.all(this.next(messages));
+    const message = rest.reduce((all, chunk) => all.concat(chunk), first);
+    return { generations: [{ message, text: message.text }] };
+  }
+
+  async *_streamResponseChunks(
+    messages: BaseMessage[],
+    options: this["ParsedCallOptions"]
+  ): AsyncGenerator<ChatGenerationChunk> {
+    for (const part of this.next(messages)) {
+      const message = await Promise.race([part, aborted(options.signal)]);
+      yield new ChatGenerationChunk({ message, text: message.text });
+    }
+  }
+}
+
+// Rejects once the signal aborts, like a request to a real API
+function aborted(signal?: AbortSignal): Promise<never> {
+  return new Promise((_, reject) => {
+    if (signal?.aborted) reject(new Error("Aborted"));
+    signal?.addEventListener("abort", () => reject(new Error("Aborted")), { once: true });
+  });
+}
+
+// A promise with its resolve function, to let a held reply go on
+export function deferred<T>(): { promise: Promise<T>; resolve: (value: T) => void } {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>(r => (resolve = r));
+  return { promise, resolve };
+}
+
+// Polls until the condition holds, e.g. until the model has been called
+export async function waitFor(condition: () => boolean | Promise<boolean>, timeoutMs = 2000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!(await condition())) {
+    if (Date.now() > deadline) throw new Error("Timed out waiting for condition");
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+}
+
+export function textReply(text: string): AIMessageChunk {
+  return new AIMessageChunk({ content: text });
+}
+
+export function toolCallReply(id: string, name: string, args: Record<string, unknown>): AIMessageChunk {
+  return new AIMessageChunk({
+    content: "",
+    tool_call_chunks: [{ type: "tool_call_chunk", id, name, args: JSON.stringify(args), index: 0 }],
+  });
+}
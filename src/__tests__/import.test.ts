@@ -0,0 +1,150 @@
+import { afterAll, beforeAll, describe, expect, it } from "@jest/globals";
+import { ImportReport, parseImport } from "../chat/import";
+import type { Chat } from "../storage";
+import { register, request, startServer } from "./helpers";
+
+// Response of POST /chats/import
+interface ImportBody {
+  imported: number;
+  skipped: number;
+  chats: ImportReport[];
+}
+
+// A one-message conversation as found in ChatGPT's conversations.json
+function conversation(fields: Record<string, unknown> = {}, messageFields: Record<string, unknown> = {}) {
+  return {
+    title: "From ChatGPT",
+    create_time: 1760000000.5,
+    current_node: "node-1",
+    mapping: {
+      "node-1": {
+        id: "node-1",
+        parent: null,
+        children: [],
+        message: {
+          id: "message-1",
+          author: { role: "user" },
+          create_time: 1760000000.5,
+          content: { content_type: "text", parts: ["Hello"] },
+          ...messageFields,
+        },
+      },
+    },
+    ...fields,
+  };
+}
+
+describe("parseImport", () => {
+  it("rejects bodies that are not chats", () => {
+    expect(parseImport("text", 1)).toHaveProperty("error");
+    expect(parseImport([], 1)).toHaveProperty("error");
+    expect(parseImport([conversation(), 42], 1)).toHaveProperty("error");
+  });
+
+  it("reports each unusable chat and keeps the rest", () => {
+    const parsed = parseImport([
+      conversation(),
+      { something: "else" },
+      { version: 99, chat: {}, messages: [] },
+      { version: 1, chat: { title: "Empty" }, messages: [{ role: "system", content: "hi" }] },
+    ], 1);
+    if ("error" in parsed) throw new Error(parsed.error);
+
+    expect(parsed.map(chat => chat.error)).toEqual([
+      undefined,
+      "Unrecognized chat format",
+      "Unsupported export version 99",
+      "No messages to import",
+    ]);
+    expect(parsed[0].history).toHaveLength(1);
+    expect(parsed[3].skipped).toEqual([{ id: null, reason: 'unknown role "system"' }]);
+  });
+
+  it("rejects conversations with times a date cannot hold", () => {
+    const parsed = parseImport([
+      conversation({ create_time: 1e20 }),
+      conversation({}, { create_time: 1e300 }),
+      conversation({ update_time: null }, { create_time: null }),
+    ], 1);
+    if ("error" in parsed) throw new Error(parsed.error);
+
+    expect(parsed[0].error).toBe("Invalid create_time 100000000000000000000");
+    expect(parsed[1].error).toBe("message message-1: invalid create_time 1e+300");
+    // Missing times fall back to the conversation's
+    expect(parsed[2].error).toBeUndefined();
+  });
+
+  it("normalises times to UTC", () => {
+    const parsed = parseImport([
+      conversation(),
+      {
+        version: 1,
+        chat: { title: "Ours", created_at: "2026-03-01T12:00:00+02:00" },
+        messages: [{ role: "user", content: "Hi", created_at: "2026-03-01T12:30:00.250+02:00" }],
+      },
+    ], 1);
+    if ("error" in parsed) throw new Error(parsed.error);
+
+    expect(parsed[0].history?.[0].created_at).toBe("2025-10-09T08:53:20.500Z");
+    expect(parsed[1].chat?.created_at).toBe("2026-03-01T10:00:00.000Z");
+    expect(parsed[1].history?.[0].created_at).toBe("2026-03-01T10:30:00.250Z");
+  });
+
+  it("keeps only the visible text of OpenAI messages", () => {
+    const parsed = parseImport(conversation({}, { content: { content_type: "multimodal_text", parts: [{ asset: 1 }, "Caption"] } }), 1);
+    if ("error" in parsed) throw new Error(parsed.error);
+
+    expect(parsed[0].history?.[0].content).toBe("Caption");
+    expect(parsed[0].warnings).toEqual(["message message-1: 1 image or file part(s) not imported"]);
+  });
+});
+
+describe("POST /chats/import", () => {
+  let server: Awaited<ReturnType<typeof startServer>>;
+  let token: string;
+
+  beforeAll(async () => {
+    server = await startServer();
+    token = await register(server.url, "importer@example.com");
+  });
+
+  afterAll(() => server.close());
+
+  it("answers a malformed body with 400", async () => {
+    const { status } = await request(server.url, "POST", "/chats/import", { token, body: [1, 2] });
+    expect(status).toBe(400);
+  });
+
+  it("imports the valid chats and reports the others", async () => {
+    const { status, body } = await request<ImportBody>(server.url, "POST", "/chats/import", {
+      token,
+      body: [conversation({ create_time: 1e20 }), conversation()],
+    });
+
+    expect(status).toBe(201);
+    expect(body.chats.map(chat => chat.status)).toEqual(["skipped", "imported"]);
+    const { body: chats } = await request<Chat[]>(server.url, "GET", "/chats", { token });
+    expect(chats.map(chat => chat.title)).toEqual(["From ChatGPT"]);
+  });
+
+  it("imports nothing from a body of bad chats", async () => {
+    const { status, body } = await request<ImportBody>(server.url, "POST", "/chats/import", {
+      token,
+      body: { version: 1, chat: "not an object", messages: [] },
+    });
+
+    expect(status).toBe(200);
+    expect(body.chats[0]).toMatchObject({ status: "skipped", error: "chat must be an object and messages an array" });
+  });
+
+  it("round-trips our own export", async () => {
+    const { body: [imported] } = await request<Chat[]>(server.url, "GET", "/chats", { token });
+    const { body: exported } = await request(server.url, "GET", `/chats/${imported.id}/export?format=json`, { token });
+
+    expect(exported).toMatchObject({ version: 1, chat: { title: "From ChatGPT" } });
+
+    const { status, body } = await request<ImportBody>(server.url, "POST", "/chats/import", { token, body: exported });
+    expect(status).toBe(201);
+    expect(body.chats[0]).toMatchObject({ source: "export", status: "imported", messages: 1 });
+  });
+});
@@ -0,0 +1,150 @@
+import { describe, expect, it } from "@jest/globals";
+import { SqlClient, SqlQuery } from "../db/client";
+import { migrations } from "../db/migrations";
+import { AppliedMigration, Migration, migrate, migrationStatus, rollback } from "../db/migrator";
+
+// Keeps schema_migrations in memory and records every other statement.
+// A statement containing FAIL throws, rolling back its transaction.
+function fakeClient() {
+  let applied: AppliedMigration[] = [];
+  const statements: string[] = [];
+
+  function run({ text, params = [] }: SqlQuery): unknown[] {
+    if (text.includes("CREATE TABLE IF NOT EXISTS schema_migrations")) return [];
+    if (text.startsWith("SELECT id, name, applied_at FROM schema_migrations")) {
+      return [...applied].sort((a, b) => a.id - b.id);
+    }
+    if (text.startsWith("INSERT INTO schema_migrations")) {
+      const [id, name] = params as [number, string];
+      if (applied.some(m => m.id === id)) throw new Error("duplicate key value");
+      applied.push({ id, name, applied_at: "2026-01-01 00:00:00" });
+      return [];
+    }
+    if (text.startsWith("DELETE FROM schema_migrations")) {
+      applied = applied.filter(m => m.id !== params[0]);
+      return [];
+    }
+    if (text.includes("FAIL")) throw new Error(`failed: ${text}`);
+    statements.push(text);
+    return [];
+  }
+
+  const client: SqlClient = {
+    query: async <T,>(text: string, params?: unknown[]) => run({ text, params }) as T[],
+    transaction: async queries => {
+      const before = { applied: [...applied], statements: statements.length };
+      try {
+        return queries.map(run);
+      } catch (error) {
+        applied = before.applied;
+        statements.length = before.statements;
+        throw error;
+      }
+    },
+    close: async () => {},
+  };
+  return { client, statements, applied: () => applied.map(m => m.id) };
+}
+
+function migration(id: number, up = [`up ${id}`], down = [`down ${id}`]): Migration {
+  return { id, name: `migration_${id}`, up, down };
+}
+
+describe("migrate", () => {
+  it("applies each pending migration once, in order", async () => {
+    const db = fakeClient();
+    const list = [migration(1), migration(2, ["up 2a", "up 2b"])];
+
+    expect((await migrate(db.client, list)).map(m => m.id)).toEqual([1, 2]);
+    expect(db.statements).toEqual(["up 1", "up 2a", "up 2b"]);
+    expect(db.applied()).toEqual([1, 2]);
+
+    expect(await migrate(db.client, list)).toEqual([]);
+    expect(db.statements).toHaveLength(3);
+  });
+
+  it("only applies migrations added since the last run", async () => {
+    const db = fakeClient();
+    await migrate(db.client, [migration(1)]);
+
+    expect((await migrate(db.client, [migration(1), migration(2)])).map(m => m.id)).toEqual([2]);
+    expect(db.statements).toEqual(["up 1", "up 2"]);
+  });
+
+  it("records nothing of a migration that fails", async () => {
+    const db = fakeClient();
+
+    await expect(migrate(db.client, [migration(1), migration(2, ["up 2", "FAIL"])])).rejects.toThrow("failed");
+    expect(db.applied()).toEqual([1]);
+    expect(db.statements).toEqual(["up 1"]);
+  });
+
+  it("refuses migrations older than the latest applied one", async () => {
+    const db = fakeClient();
+    await migrate(db.client, [migration(1), migration(3)]);
+
+    await expect(migrate(db.client, [migration(1), migration(2), migration(3)]))
+      .rejects.toThrow("Migration 2 (migration_2) is older than the latest applied migration 3");
+  });
+
+  it("requires unique, ascending ids", async () => {
+    const db = fakeClient();
+
+    await expect(migrate(db.client, [migration(2), migration(1)])).rejects.toThrow("unique, ascending ids");
+    await expect(migrate(db.client, [migration(1), migration(1)])).rejects.toThrow("unique, ascending ids");
+  });
+});
+
+describe("rollback", () => {
+  it("reverts the latest migrations, newest first", async () => {
+    const db = fakeClient();
+    const list = [migration(1), migration(2), migration(3)];
+    await migrate(db.client, list);
+
+    expect((await rollback(db.client, 2, list)).map(m => m.id)).toEqual([3, 2]);
+    expect(db.statements.slice(3)).toEqual(["down 3", "down 2"]);
+    expect(db.applied()).toEqual([1]);
+  });
+
+  it("cannot revert a migration missing from the codebase", async () => {
+    const db = fakeClient();
+    await migrate(db.client, [migration(1), migration(2)]);
+
+    await expect(rollback(db.client, 1, [migration(1)])).rejects.toThrow("not found in codebase");
+    expect(db.applied()).toEqual([1, 2]);
+  });
+});
+
+describe("migrationStatus", () => {
+  it("lists applied, pending and missing migrations", async () => {
+    const db = fakeClient();
+    await migrate(db.client, [migration(1), migration(2)]);
+
+    const status = await migrationStatus(db.client, [migration(1), migration(3)]);
+    expect(status.map(m => [m.id, m.applied_at !== null, m.missing])).toEqual([
+      [1, true, false],
+      [2, true, true],
+      [3, false, false],
+    ]);
+  });
+});
+
+describe("migrations", () => {
+  it("are numbered one after another and can all be reverted", () => {
+    expect(migrations.map(m => m.id)).toEqual(migrations.map((_, i) => i + 1));
+    expect(new Set(migrations.map(m => m.name)).size).toBe(migrations.length);
+    for (const m of migrations) {
+      expect(m.up.length).toBeGreaterThan(0);
+      expect(m.down.length).toBeGreaterThan(0);
+    }
+  });
+
+  it("apply and revert in full", async () => {
+    const db = fakeClient();
+
+    await migrate(db.client);
+    expect(db.applied()).toHaveLength(migrations.length);
+    await rollback(db.client, migrations.length);
+    expect(db.applied()).toEqual([]);
+  });
+});
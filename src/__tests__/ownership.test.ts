@@ -0,0 +1,69 @@
+import { afterAll, beforeAll, describe, expect, it } from "@jest/globals";
+import type { ApiKey, Chat, ChatDocument } from "../storage";
+import { register, request, startServer } from "./helpers";
+
+let server: Awaited<ReturnType<typeof startServer>>;
+let alice: string;
+let bob: string;
+
+beforeAll(async () => {
+  server = await startServer();
+  alice = await register(server.url, "alice@example.com");
+  bob = await register(server.url, "bob@example.com");
+});
+
+afterAll(() => server.close());
+
+describe("chat ownership", () => {
+  it("requires a token", async () => {
+    expect((await request(server.url, "GET", "/chats")).status).toBe(401);
+  });
+
+  it("hides other users' chats", async () => {
+    const { body: chat } = await request<Chat>(server.url, "POST", "/chats", { token: alice, body: { title: "Alice's" } });
+
+    expect((await request(server.url, "GET", "/chats", { token: bob })).body).toEqual([]);
+    expect((await request(server.url, "GET", `/chats/${chat.id}`, { token: bob })).status).toBe(404);
+    expect((await request(server.url, "PUT", `/chats/${chat.id}`, { token: bob, body: { title: "Bob's" } })).status).toBe(404);
+    expect((await request(server.url, "DELETE", `/chats/${chat.id}`, { token: bob })).status).toBe(404);
+
+    const { body: chats } = await request<Chat[]>(server.url, "GET", "/chats", { token: alice });
+    expect(chats.map(c => c.title)).toEqual(["Alice's"]);
+  });
+
+  it("keeps other users from deleting a chat's documents", async () => {
+    const { body: chat } = await request<Chat>(server.url, "POST", "/chats", { token: alice, body: {} });
+    const upload = await fetch(`${server.url}/chats/${chat.id}/documents?filename=notes.txt`, {
+      method: "POST",
+      headers: { Authorization: `Bearer ${alice}`, "Content-Type": "text/plain" },
+      body: "Alice's notes",
+    });
+    expect(upload.status).toBe(201);
+    const document: ChatDocument = await upload.json();
+    const path = `/chats/${chat.id}/documents/${document.id}`;
+
+    expect((await request(server.url, "DELETE", path, { token: bob })).status).toBe(404);
+    expect((await request(server.url, "GET", `/chats/${chat.id}/documents`, { token: alice })).body).toHaveLength(1);
+    expect((await request(server.url, "DELETE", path, { token: alice })).status).toBe(200);
+  });
+});
+
+describe("API keys", () => {
+  it("stop issued tokens working once the key is deleted", async () => {
+    const { body: apiKey } = await request<ApiKey & { key: string }>(server.url, "POST", "/auth/api-keys", {
+      token: alice,
+      body: { name: "ci" },
+    });
+    const { body: exchanged } = await request<{ token: string }>(server.url, "POST", "/auth/token", {
+      body: { apiKey: apiKey.key },
+    });
+    expect((await request(server.url, "GET", "/auth/me", { token: exchanged.token })).status).toBe(200);
+
+    await request(server.url, "DELETE", `/auth/api-keys/${apiKey.id}`, { token: alice });
+
+    expect((await request(server.url, "GET", "/auth/me", { token: exchanged.token })).status).toBe(401);
+    expect((await request(server.url, "POST", "/auth/token", { body: { apiKey: apiKey.key } })).status).toBe(401);
+    // The password login is unaffected
+    expect((await request(server.url, "GET", "/auth/me", { token: alice })).status).toBe(200);
+  });
+});
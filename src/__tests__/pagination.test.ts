@@ -0,0 +1,108 @@
+import { afterAll, beforeAll, describe, expect, it } from "@jest/globals";
+import { repo } from "../server";
+import { chatCursor, parseChatCursor } from "../chat/pagination";
+import { createMemoryRepository } from "../storage/memory";
+import type { Chat, User } from "../storage";
+import { ChatBody, register, request, startServer } from "./helpers";
+
+let server: Awaited<ReturnType<typeof startServer>>;
+let token: string;
+
+// Five chats, updated a day apart: "chat 5" is the most recent
+beforeAll(async () => {
+  server = await startServer();
+  token = await register(server.url, "pager@example.com");
+  const { body: user } = await request<User>(server.url, "GET", "/auth/me", { token });
+
+  for (let i = 1; i <= 5; i++) {
+    const time = `2026-03-0${i}T12:00:00.00${i}Z`;
+    await repo.createChatWithHistory(
+      { owner_id: user.id, title: `chat ${i}`, created_at: time, updated_at: time },
+      [{ role: "user", content: `message ${i}`, status: "complete", created_at: time }]
+    );
+  }
+});
+
+afterAll(() => server.close());
+
+// A page of GET /chats
+interface ChatPage {
+  chats: Chat[];
+  nextCursor: string | null;
+}
+
+const titles = (chats: Chat[]) => chats.map(c => c.title);
+
+describe("GET /chats", () => {
+  it("returns every chat as an array without paging parameters", async () => {
+    const { body } = await request<Chat[]>(server.url, "GET", "/chats", { token });
+    expect(titles(body)).toEqual(["chat 5", "chat 4", "chat 3", "chat 2", "chat 1"]);
+  });
+
+  it("pages back through older chats without repeats or gaps", async () => {
+    const pages: string[][] = [];
+    let cursor: string | null = null;
+    do {
+      const query: string = cursor ? `?limit=2&before=${cursor}` : "?limit=2";
+      const { body } = await request<ChatPage>(server.url, "GET", `/chats${query}`, { token });
+      pages.push(titles(body.chats));
+      cursor = body.nextCursor;
+    } while (cursor);
+
+    expect(pages).toEqual([["chat 5", "chat 4"], ["chat 3", "chat 2"], ["chat 1"]]);
+  });
+
+  it("pages forward to newer chats with after", async () => {
+    const { body: first } = await request<ChatPage>(server.url, "GET", "/chats?limit=4", { token });
+    const { body: oldest } = await request<ChatPage>(server.url, "GET", `/chats?limit=1&before=${first.nextCursor}`, { token });
+    expect(titles(oldest.chats)).toEqual(["chat 1"]);
+
+    // The two chats nearest the cursor, still newest first
+    const { body: newer } = await request<ChatPage>(server.url, "GET", `/chats?limit=2&after=${first.nextCursor}`, { token });
+    expect(titles(newer.chats)).toEqual(["chat 4", "chat 3"]);
+    expect(newer.nextCursor).not.toBeNull();
+  });
+
+  it("rejects bad paging parameters", async () => {
+    expect((await request(server.url, "GET", "/chats?limit=0", { token })).status).toBe(400);
+    expect((await request(server.url, "GET", "/chats?before=nonsense", { token })).status).toBe(400);
+    expect((await request(server.url, "GET", "/chats?before=a&after=b", { token })).status).toBe(400);
+  });
+});
+
+describe("GET /chats/:id", () => {
+  it("pages the active branch from the newest messages", async () => {
+    const { body: created } = await request<Chat>(server.url, "POST", "/chats", { token, body: { title: "long" } });
+    for (let i = 1; i <= 5; i++) {
+      await repo.addMessage(created.id, "user", `turn ${i}`);
+    }
+    const texts = (chat: ChatBody) => chat.messages.map(m => m.content);
+
+    const { body: latest } = await request<ChatBody>(server.url, "GET", `/chats/${created.id}?limit=2`, { token });
+    expect(texts(latest)).toEqual(["turn 4", "turn 5"]);
+
+    const { body: earlier } = await request<ChatBody>(
+      server.url, "GET", `/chats/${created.id}?limit=2&before=${latest.nextCursor}`, { token }
+    );
+    expect(texts(earlier)).toEqual(["turn 2", "turn 3"]);
+  });
+});
+
+describe("memory listChats", () => {
+  it("orders and pages by time whatever offset the times were written with", async () => {
+    const store = createMemoryRepository();
+    // Oldest to newest: 10:00Z, 11:00Z and 11:30Z
+    for (const [title, time] of [["b", "2026-03-01T12:00:00+02:00"], ["c", "2026-03-01T11:00:00Z"], ["a", "2026-03-01T11:30:00.000Z"]]) {
+      await store.createChatWithHistory({ owner_id: 1, title, created_at: time, updated_at: time }, []);
+    }
+
+    const listed = await store.listChats(1);
+    expect(titles(listed)).toEqual(["a", "c", "b"]);
+    expect(listed[0]).toEqual(await store.getChat(listed[0].id, 1));
+
+    const cursor = parseChatCursor(chatCursor(listed[1]))!;
+    expect(cursor.updated_at).toBe("2026-03-01T11:00:00.000Z");
+    expect(titles(await store.listChats(1, { limit: 5, before: cursor }))).toEqual(["b"]);
+    expect(titles(await store.listChats(1, { limit: 5, after: cursor }))).toEqual(["a"]);
+  });
+});
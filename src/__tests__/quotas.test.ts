@@ -0,0 +1,130 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, jest } from "@jest/globals";
+import { checkQuota, envInteger, periodBounds, quotaOptions, recordTokens } from "../auth/quotas";
+import * as registry from "../models/registry";
+import { createMemoryRepository } from "../storage/memory";
+import type { ApiKey } from "../storage";
+import { register, request, ScriptedChatModel, startServer, textReply } from "./helpers";
+
+const options = { requests: 2, windowSeconds: 60, dailyTokens: 100, monthlyTokens: 0 };
+const now = new Date("2026-03-10T12:00:30Z");
+
+describe("periodBounds", () => {
+  it("aligns periods to UTC", () => {
+    expect(periodBounds("window", now, options)).toEqual({
+      start: new Date("2026-03-10T12:00:00Z"),
+      end: new Date("2026-03-10T12:01:00Z"),
+    });
+    expect(periodBounds("day", now, options).start).toEqual(new Date("2026-03-10T00:00:00Z"));
+    expect(periodBounds("month", now, options)).toEqual({
+      start: new Date("2026-03-01T00:00:00Z"),
+      end: new Date("2026-04-01T00:00:00Z"),
+    });
+  });
+});
+
+describe("checkQuota", () => {
+  it("refuses requests over the rate limit until the window ends", async () => {
+    const repo = createMemoryRepository();
+    const check = () => checkQuota(repo, 1, null, { options, now });
+
+    expect((await check()).headers["X-RateLimit-Remaining"]).toBe("1");
+    expect((await check()).exceeded).toBeNull();
+    expect(await check()).toMatchObject({ exceeded: "Rate limit exceeded", retryAfter: 30 });
+
+    const later = new Date(now.getTime() + 60_000);
+    expect((await checkQuota(repo, 1, null, { options, now: later })).exceeded).toBeNull();
+  });
+
+  it("refuses requests once the token budget is spent", async () => {
+    const repo = createMemoryRepository();
+    await recordTokens(repo, 1, null, 100, { options, now });
+
+    const check = await checkQuota(repo, 1, null, { options, now });
+    expect(check.exceeded).toBe("Daily token quota exceeded");
+    expect(check.headers["X-Quota-Daily-Remaining"]).toBe("0");
+    // The refused request is not counted against the rate limit
+    expect(check.headers["X-RateLimit-Remaining"]).toBeUndefined();
+  });
+
+  it("gives every API key its own limits and budgets", async () => {
+    const repo = createMemoryRepository();
+    await recordTokens(repo, 1, 7, 100, { options, now });
+
+    expect((await checkQuota(repo, 1, 7, { options, now })).exceeded).toBe("Daily token quota exceeded");
+    expect((await checkQuota(repo, 1, 8, { options, now })).exceeded).toBeNull();
+    expect((await checkQuota(repo, 1, null, { options, now })).exceeded).toBeNull();
+  });
+});
+
+describe("envInteger", () => {
+  const name = "QUOTA_TEST_VALUE";
+  afterEach(() => { delete process.env[name]; });
+
+  it("reads whole numbers and falls back when unset", () => {
+    expect(envInteger(name, 30)).toBe(30);
+    process.env[name] = " 0 ";
+    expect(envInteger(name, 30)).toBe(0);
+  });
+
+  it("throws on anything else", () => {
+    for (const value of ["thirty", "1.5", "-1"]) {
+      process.env[name] = value;
+      expect(() => envInteger(name, 30)).toThrow(`${name} must be a whole number of at least 0, got "${value}"`);
+    }
+    process.env[name] = "0";
+    expect(() => envInteger(name, 60, 1)).toThrow("at least 1");
+  });
+
+  it("keeps the server from starting with a bad limit", () => {
+    process.env.RATE_LIMIT_REQUESTS = "lots";
+    try {
+      jest.isolateModules(() => {
+        expect(() => require("../auth/quotas")).toThrow("RATE_LIMIT_REQUESTS must be a whole number");
+      });
+    } finally {
+      delete process.env.RATE_LIMIT_REQUESTS;
+    }
+  });
+});
+
+describe("quota enforcement", () => {
+  let server: Awaited<ReturnType<typeof startServer>>;
+  let token: string;
+  const saved = { ...quotaOptions };
+
+  beforeAll(async () => {
+    server = await startServer();
+    token = await register(server.url, "quotas@example.com");
+  });
+
+  afterAll(() => server.close());
+
+  beforeEach(() => {
+    Object.assign(quotaOptions, { dailyTokens: 1 });
+    jest.spyOn(registry, "createChatModel").mockReturnValue(new ScriptedChatModel([textReply("One"), textReply("Two")]));
+  });
+
+  afterEach(() => { Object.assign(quotaOptions, saved); });
+
+  const ask = (as: string) =>
+    request(server.url, "POST", "/chat", { token: as, body: { messages: [{ role: "user", content: "Hi" }] } });
+
+  it("answers 429 with Retry-After once the user's budget is spent, while keys keep their own", async () => {
+    expect((await ask(token)).status).toBe(200);
+
+    const refused = await fetch(`${server.url}/chat`, {
+      method: "POST",
+      headers: { Authorization: `Bearer ${token}`, "Content-Type": "application/json" },
+      body: JSON.stringify({ messages: [{ role: "user", content: "Again" }] }),
+    });
+    expect(refused.status).toBe(429);
+    expect(Number(refused.headers.get("retry-after"))).toBeGreaterThan(0);
+    expect(refused.headers.get("x-quota-daily-remaining")).toBe("0");
+
+    const { body: apiKey } = await request<ApiKey & { key: string }>(server.url, "POST", "/auth/api-keys", { token, body: {} });
+    const { body: exchanged } = await request<{ token: string }>(server.url, "POST", "/auth/token", {
+      body: { apiKey: apiKey.key },
+    });
+    expect((await ask(exchanged.token)).status).toBe(200);
+  });
+});
@@ -0,0 +1,95 @@
+import { afterAll, beforeAll, describe, expect, it } from "@jest/globals";
+import { repo } from "../server";
+import { HIGHLIGHT_START, HIGHLIGHT_STOP, matchText, parseQuery, splitHighlights } from "../storage/search";
+import { createMemoryRepository } from "../storage/memory";
+import type { Chat, SearchResults } from "../storage";
+import { register, request, startServer } from "./helpers";
+
+describe("splitHighlights", () => {
+  it("turns the database's markers into offsets", () => {
+    const marked = `the ${HIGHLIGHT_START}quick${HIGHLIGHT_STOP} fox ${HIGHLIGHT_START}jumps${HIGHLIGHT_STOP}`;
+    expect(splitHighlights(marked)).toEqual({ text: "the quick fox jumps", highlights: [[4, 9], [14, 19]] });
+  });
+});
+
+describe("matchText", () => {
+  it("drops stop words and stems the query", () => {
+    expect(parseQuery("What are the deployed services?")).toEqual(["deploy", "servic"]);
+  });
+
+  it("needs every term unless told otherwise", () => {
+    const terms = parseQuery("deploy kubernetes");
+    expect(matchText("We deployed on Friday", terms)).toBeNull();
+    expect(matchText("We deployed on Friday", terms, 30, false)?.snippet).toEqual({
+      text: "We deployed on Friday",
+      highlights: [[3, 11]],
+    });
+  });
+
+  it("cuts a window around the first match", () => {
+    const text = "one two three four five six seven eight nine ten";
+    expect(matchText(text, parseQuery("seven"), 3)?.snippet).toEqual({
+      text: "… six seven eight …",
+      highlights: [[6, 11]],
+    });
+  });
+});
+
+describe("memory search", () => {
+  it("finds chats by title or message, only the owner's, best match first", async () => {
+    const store = createMemoryRepository();
+    const deploys = await store.createChat("Deploy notes", null, 1);
+    await store.addMessage(deploys.id, "user", "How do I deploy the API?");
+    const other = await store.createChat("Lunch", null, 1);
+    await store.addMessage(other.id, "user", "Where should we eat after the deploy is done?");
+    await store.addMessage(other.id, "assistant", "Somewhere close.");
+    const foreign = await store.createChat("Deploy secrets", null, 2);
+    await store.addMessage(foreign.id, "user", "deploy");
+
+    const results = await store.search("deploys", 10, 1);
+
+    expect(results.chats.map(c => [c.id, c.message_matches])).toEqual([[deploys.id, 1], [other.id, 1]]);
+    expect(results.chats[0].title).toEqual({ text: "Deploy notes", highlights: [[0, 6]] });
+    expect(results.messages.map(m => m.snippet.text)).toEqual([
+      "How do I deploy the API?",
+      "Where should we eat after the deploy is done?",
+    ]);
+    expect((await store.search("deploys", 1, 1)).messages).toHaveLength(1);
+  });
+});
+
+describe("GET /search", () => {
+  let server: Awaited<ReturnType<typeof startServer>>;
+  let token: string;
+
+  beforeAll(async () => {
+    server = await startServer();
+    token = await register(server.url, "search@example.com");
+  });
+
+  afterAll(() => server.close());
+
+  it("searches the user's chats", async () => {
+    const { body: chat } = await request<Chat>(server.url, "POST", "/chats", { token, body: { title: "Gardening" } });
+    await repo.addMessage(chat.id, "user", "When should tomatoes be planted?");
+    const other = await register(server.url, "other-search@example.com");
+
+    const { status, body } = await request<SearchResults & { query: string }>(
+      server.url, "GET", "/search?q=tomato", { token }
+    );
+    expect(status).toBe(200);
+    expect(body.query).toBe("tomato");
+    expect(body.messages.map(m => [m.chat_id, m.chat_title, m.snippet.text])).toEqual([
+      [chat.id, "Gardening", "When should tomatoes be planted?"],
+    ]);
+
+    const theirs = await request<SearchResults>(server.url, "GET", "/search?q=tomato", { token: other });
+    expect(theirs.body).toMatchObject({ chats: [], messages: [] });
+  });
+
+  it("needs a query and a sensible limit", async () => {
+    expect((await request(server.url, "GET", "/search?q=%20", { token })).status).toBe(400);
+    expect((await request(server.url, "GET", "/search?q=a&limit=0", { token })).status).toBe(400);
+    expect((await request(server.url, "GET", "/search?q=a&limit=1.5", { token })).status).toBe(400);
+  });
+});
@@ -0,0 +1,93 @@
+import { afterAll, beforeAll, describe, expect, it, jest } from "@jest/globals";
+import { backfillEmbeddings, embedMessages, semanticSearch } from "../chat/semantic";
+import { createLocalEmbedder, Embedder } from "../models/embeddings";
+import * as registry from "../models/registry";
+import { createMemoryRepository } from "../storage/memory";
+import type { Chat, SemanticSearchResults } from "../storage";
+import { register, request, ScriptedChatModel, startServer, textReply, waitFor } from "./helpers";
+
+const options = { minScore: 0.1, maxChars: 8000, batchSize: 2 };
+
+// The local embedder, counting the texts it is given
+function countingEmbedder(): Embedder & { texts: string[] } {
+  const local = createLocalEmbedder(256);
+  const texts: string[] = [];
+  return { id: local.id, texts, embed: async batch => { texts.push(...batch); return local.embed(batch); } };
+}
+
+describe("backfillEmbeddings", () => {
+  it("embeds every message with text once, a batch at a time", async () => {
+    const store = createMemoryRepository();
+    const chat = await store.createChat("Backfill", null, 1);
+    for (const content of ["one", "  ", "two", "three"]) await store.addMessage(chat.id, "user", content);
+    const embedder = countingEmbedder();
+    const batches: number[] = [];
+
+    expect(await backfillEmbeddings(store, { options, embedder, onBatch: total => batches.push(total) })).toBe(3);
+    expect(batches).toEqual([2, 3]);
+    expect(embedder.texts).toEqual(["one", "two", "three"]);
+
+    // A second run finds nothing left, but another embedder starts over
+    expect(await backfillEmbeddings(store, { options, embedder })).toBe(0);
+    expect(await backfillEmbeddings(store, { options, embedder: createLocalEmbedder(64) })).toBe(3);
+  });
+});
+
+describe("semanticSearch", () => {
+  it("ranks the owner's messages and chats by similarity", async () => {
+    const store = createMemoryRepository();
+    const embedder = createLocalEmbedder(256);
+    const garden = await store.createChat("Garden", null, 1);
+    const cooking = await store.createChat("Cooking", null, 1);
+    const foreign = await store.createChat("Theirs", null, 2);
+    await embedMessages(store, [
+      await store.addMessage(garden.id, "user", "Planting tomato seedlings in spring"),
+      await store.addMessage(garden.id, "assistant", "Water the tomato seedlings daily"),
+      await store.addMessage(cooking.id, "user", "A quick tomato soup recipe"),
+      await store.addMessage(cooking.id, "assistant", "Bake the bread for forty minutes"),
+      await store.addMessage(foreign.id, "user", "Tomato seedlings"),
+    ], { options, embedder });
+
+    const results = await semanticSearch(store, "tomato seedlings", 10, 1, { options, embedder });
+
+    expect(results.chats.map(c => [c.title, c.message_matches])).toEqual([["Garden", 2], ["Cooking", 1]]);
+    expect(results.messages.map(m => m.content)).toEqual([
+      "Planting tomato seedlings in spring",
+      "Water the tomato seedlings daily",
+      "A quick tomato soup recipe",
+    ]);
+    expect(results.messages[0].score).toBeGreaterThan(results.messages[2].score);
+  });
+});
+
+describe("GET /search/semantic", () => {
+  let server: Awaited<ReturnType<typeof startServer>>;
+  let token: string;
+
+  beforeAll(async () => {
+    server = await startServer();
+    token = await register(server.url, "semantic@example.com");
+  });
+
+  afterAll(() => server.close());
+
+  it("finds new messages once they are embedded", async () => {
+    jest.spyOn(registry, "createChatModel").mockReturnValue(new ScriptedChatModel([textReply("Prune them in winter")]));
+    const { body: chat } = await request<Chat>(server.url, "POST", "/chats", { token, body: {} });
+    await request(server.url, "POST", `/chat/${chat.id}`, {
+      token,
+      body: { messages: [{ role: "user", content: "When should apple trees be pruned?" }] },
+    });
+
+    const search = () => request<SemanticSearchResults>(server.url, "GET", "/search/semantic?q=pruning+apple+trees", { token });
+    await waitFor(async () => (await search()).body.messages.length > 0);
+
+    const { body } = await search();
+    expect(body.chats.map(c => c.id)).toEqual([chat.id]);
+    expect(body.messages[0].content).toBe("When should apple trees be pruned?");
+  });
+
+  it("needs a query", async () => {
+    expect((await request(server.url, "GET", "/search/semantic", { token })).status).toBe(400);
+  });
+});
@@ -0,0 +1,8 @@
+// Runs before each test file loads the server: in-memory storage, the local
+// model (replaced by ScriptedChatModel in the tests) with tool calling, and
+// a fixed signing secret
+process.env.STORAGE_DRIVER = "memory";
+process.env.DEFAULT_MODEL = "local";
+process.env.LOCAL_MODEL_TOOLS = "true";
+process.env.JWT_SECRET = "test-secret";
+process.env.EMBEDDER = "local";
@@ -0,0 +1,76 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, jest } from "@jest/globals";
+import { AIMessageChunk } from "@langchain/core/messages";
+import * as registry from "../models/registry";
+import type { Chat } from "../storage";
+import {
+  ChatBody,
+  chunkOf,
+  deferred,
+  register,
+  request,
+  ScriptedChatModel,
+  startServer,
+  streamChunks,
+  textReply,
+  waitFor,
+} from "./helpers";
+
+let server: Awaited<ReturnType<typeof startServer>>;
+let token: string;
+let model: ScriptedChatModel;
+let chat: Chat;
+
+beforeAll(async () => {
+  server = await startServer();
+  token = await register(server.url, "stopper@example.com");
+});
+
+afterAll(() => server.close());
+
+// Each chat's first reply writes "Partial" and then waits, until stopped
+beforeEach(async () => {
+  model = new ScriptedChatModel([[textReply("Partial"), deferred<AIMessageChunk>().promise], textReply("Next")]);
+  jest.spyOn(registry, "createChatModel").mockReturnValue(model);
+  chat = (await request<Chat>(server.url, "POST", "/chats", { token, body: {} })).body;
+});
+
+const ask = (content: string) =>
+  request<string>(server.url, "POST", `/chat/${chat.id}`, { token, body: { messages: [{ role: "user", content }] } });
+const stop = () => request(server.url, "POST", `/chat/${chat.id}/stop`, { token });
+
+describe("POST /chat/:chatId/stop", () => {
+  it("ends the reply and keeps what was written", async () => {
+    const streaming = ask("Question");
+    await waitFor(() => model.calls.length === 1);
+
+    expect((await stop()).status).toBe(200);
+
+    const chunks = streamChunks((await streaming).body);
+    expect(chunkOf(chunks, "abort")).toBeDefined();
+    expect(chunkOf(chunks, "message-metadata")?.messageMetadata?.status).toBe("stopped");
+
+    const { body } = await request<ChatBody>(server.url, "GET", `/chats/${chat.id}`, { token });
+    expect(body.messages.map(m => [m.content, m.status])).toEqual([["Question", "complete"], ["Partial", "stopped"]]);
+  });
+
+  it("answers 404 when nothing is being generated", async () => {
+    expect((await stop()).status).toBe(404);
+  });
+
+  it("refuses a second message while a reply streams, and can still stop the first", async () => {
+    const streaming = ask("Question");
+    await waitFor(() => model.calls.length === 1);
+
+    const second = await ask("Another");
+    expect(second.status).toBe(409);
+    expect(model.calls).toHaveLength(1);
+
+    expect((await stop()).status).toBe(200);
+    expect((await streaming).status).toBe(200);
+
+    // Once it has ended the chat takes messages again
+    expect(chunkOf(streamChunks((await ask("Another")).body), "finish")).toBeDefined();
+    const { body } = await request<ChatBody>(server.url, "GET", `/chats/${chat.id}`, { token });
+    expect(body.messages.map(m => m.content)).toEqual(["Question", "Partial", "Another", "Next"]);
+  });
+});
@@ -0,0 +1,118 @@
+import { afterAll, beforeAll, describe, expect, it, jest } from "@jest/globals";
+import { createStreamRegistry, StreamEvent } from "../chat/streams";
+import * as registry from "../models/registry";
+import type { Chat } from "../storage";
+import { chunkOf, register, request, ScriptedChatModel, startServer, streamChunks, textReply, waitFor } from "./helpers";
+
+// A subscriber that records what it is sent
+function recorder() {
+  const events: StreamEvent[] = [];
+  let closed = false;
+  return {
+    events,
+    closed: () => closed,
+    subscriber: { send: (event: StreamEvent) => { events.push(event); }, close: () => { closed = true; } },
+  };
+}
+
+describe("createStreamRegistry", () => {
+  const options = { retainMs: 1000, abandonAfterMs: 20 };
+
+  it("replays the events after the last one seen, then delivers live ones", () => {
+    const stream = createStreamRegistry(options).start(1, () => {});
+    stream.push("a");
+    stream.push("b");
+
+    const late = recorder();
+    stream.subscribe(late.subscriber, 1);
+    stream.push("c");
+    stream.finish();
+
+    expect(late.events).toEqual([{ id: 2, data: "b" }, { id: 3, data: "c" }]);
+    expect(late.closed()).toBe(true);
+  });
+
+  it("keeps a finished stream for late reconnects", () => {
+    const streams = createStreamRegistry(options);
+    const stream = streams.start(1, () => {});
+    stream.push("a");
+    stream.finish();
+    stream.push("ignored");
+
+    const late = recorder();
+    streams.get(stream.id)?.subscribe(late.subscriber);
+    expect(late.events).toEqual([{ id: 1, data: "a" }]);
+    expect(late.closed()).toBe(true);
+  });
+
+  it("abandons a stream once nobody has been connected for a while", async () => {
+    const onAbandoned = jest.fn();
+    const stream = createStreamRegistry(options).start(1, onAbandoned);
+    const unsubscribe = stream.subscribe(recorder().subscriber);
+
+    unsubscribe();
+    // Reconnecting in time keeps it going
+    const again = stream.subscribe(recorder().subscriber);
+    await new Promise(resolve => setTimeout(resolve, options.abandonAfterMs * 2));
+    expect(onAbandoned).not.toHaveBeenCalled();
+
+    again();
+    await waitFor(() => onAbandoned.mock.calls.length === 1);
+  });
+});
+
+describe("GET /chat/:chatId/stream/:streamId", () => {
+  let server: Awaited<ReturnType<typeof startServer>>;
+  let token: string;
+
+  beforeAll(async () => {
+    server = await startServer();
+    token = await register(server.url, "streams@example.com");
+  });
+
+  afterAll(() => server.close());
+
+  // A finished reply's chat id, stream id and body
+  async function reply() {
+    jest.spyOn(registry, "createChatModel").mockReturnValue(new ScriptedChatModel([textReply("Hello")]));
+    const { body: chat } = await request<Chat>(server.url, "POST", "/chats", { token, body: {} });
+    const { body } = await request<string>(server.url, "POST", `/chat/${chat.id}`, {
+      token,
+      body: { messages: [{ role: "user", content: "Hi" }] },
+    });
+    const streamId = chunkOf(streamChunks(body), "start")?.messageMetadata?.streamId;
+    return { chatId: chat.id, streamId, body };
+  }
+
+  const resume = (path: string, headers: Record<string, string> = {}) =>
+    fetch(server.url + path, { headers: { Authorization: `Bearer ${token}`, ...headers } });
+
+  it("replays the events after Last-Event-ID", async () => {
+    const { chatId, streamId, body } = await reply();
+
+    const response = await resume(`/chat/${chatId}/stream/${streamId}`, { "Last-Event-ID": "2" });
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("x-stream-id")).toBe(streamId);
+    const replayed = await response.text();
+    expect(replayed.startsWith("id: 3\n")).toBe(true);
+    expect(body.endsWith(replayed)).toBe(true);
+  });
+
+  it("rejects a bad Last-Event-ID", async () => {
+    const { chatId, streamId } = await reply();
+    expect((await resume(`/chat/${chatId}/stream/${streamId}`, { "Last-Event-ID": "x" })).status).toBe(400);
+  });
+
+  it("only finds the stream under its own chat, for its owner", async () => {
+    const { chatId, streamId } = await reply();
+    const other = await register(server.url, "other-streams@example.com");
+
+    expect((await resume(`/chat/${chatId + 1}/stream/${streamId}`)).status).toBe(404);
+    expect((await resume(`/chat/${chatId}/stream/unknown`)).status).toBe(404);
+    const stranger = await fetch(`${server.url}/chat/${chatId}/stream/${streamId}`, {
+      headers: { Authorization: `Bearer ${other}` },
+    });
+    expect(stranger.status).toBe(404);
+  });
+});
@@ -0,0 +1,132 @@
+import { afterAll, beforeAll, describe, expect, it, jest } from "@jest/globals";
+import { HumanMessage } from "@langchain/core/messages";
+import { parseStructuredOutput, ResponseFormat, validateResponseFormat } from "../chat/structured";
+import * as registry from "../models/registry";
+import {
+  ChatBody,
+  chunkOf,
+  register,
+  request,
+  ScriptedChatModel,
+  startServer,
+  streamChunks,
+  textReply,
+} from "./helpers";
+
+const format: ResponseFormat = {
+  type: "json_schema",
+  schema: {
+    type: "object",
+    properties: { answer: { type: "string" }, score: { type: "integer", minimum: 0 } },
+    required: ["answer"],
+    additionalProperties: false,
+  },
+};
+
+// The format with schema properties of its own
+const withProperty = (property: unknown) => ({
+  ...format,
+  schema: { type: "object", properties: { answer: property } },
+});
+
+describe("validateResponseFormat", () => {
+  it("accepts the supported keywords and annotations", () => {
+    expect(validateResponseFormat(format)).toBeNull();
+    expect(validateResponseFormat(withProperty({ type: "array", items: { enum: [1, 2] }, title: "Answers" }))).toBeNull();
+  });
+
+  it("refuses keywords it would not check", () => {
+    expect(validateResponseFormat({ ...format, schema: { ...format.schema, oneOf: [] } }))
+      .toBe('responseFormat.schema: unsupported keyword "oneOf"');
+    expect(validateResponseFormat(withProperty({ type: "string", pattern: "^a" })))
+      .toBe('responseFormat.schema.properties.answer: unsupported keyword "pattern"');
+    expect(validateResponseFormat(withProperty({ type: "array", items: { $ref: "#/defs/x" } })))
+      .toBe('responseFormat.schema.properties.answer.items: unsupported keyword "$ref"');
+  });
+
+  it("refuses keywords of the wrong type", () => {
+    expect(validateResponseFormat(withProperty({ enum: "x" })))
+      .toBe("responseFormat.schema.properties.answer.enum must be an array");
+    expect(validateResponseFormat({ ...format, schema: { type: "object", required: 5 } }))
+      .toBe("responseFormat.schema.required must be an array of strings");
+    expect(validateResponseFormat(withProperty({ type: "text" })))
+      .toMatch(/^responseFormat\.schema\.properties\.answer\.type must be one of/);
+    expect(validateResponseFormat(withProperty({ minLength: -1 })))
+      .toBe("responseFormat.schema.properties.answer.minLength must be a non-negative integer");
+    expect(validateResponseFormat(withProperty("string")))
+      .toBe("responseFormat.schema.properties.answer must be an object");
+  });
+});
+
+describe("parseStructuredOutput", () => {
+  it("reads fenced or bare JSON and checks it", () => {
+    expect(parseStructuredOutput('```json\n{"answer":"yes"}\n```', format)).toEqual({ value: { answer: "yes" }, problems: [] });
+    expect(parseStructuredOutput('{"score":-1,"extra":true}', format).problems).toEqual([
+      "$.answer: is required",
+      "$.score: must be at least 0",
+      "$.extra: is not allowed",
+    ]);
+    expect(parseStructuredOutput("Sure!", format).problems[0]).toMatch(/^\$: not valid JSON/);
+  });
+});
+
+describe("POST /chat with a response format", () => {
+  let server: Awaited<ReturnType<typeof startServer>>;
+  let token: string;
+
+  beforeAll(async () => {
+    server = await startServer();
+    token = await register(server.url, "structured@example.com");
+  });
+
+  afterAll(() => server.close());
+
+  const ask = (responseFormat: unknown) => request<string>(server.url, "POST", "/chat", {
+    token,
+    body: { messages: [{ role: "user", content: "Answer" }], responseFormat },
+  });
+
+  it("answers 400 for an unusable schema before calling the model", async () => {
+    const model = new ScriptedChatModel([]);
+    jest.spyOn(registry, "createChatModel").mockReturnValue(model);
+
+    const { status, body } = await request<{ error: string }>(server.url, "POST", "/chat", {
+      token,
+      body: { messages: [{ role: "user", content: "Answer" }], responseFormat: withProperty({ enum: "x" }) },
+    });
+    expect(status).toBe(400);
+    expect(body.error).toBe("responseFormat.schema.properties.answer.enum must be an array");
+    expect(model.calls).toHaveLength(0);
+  });
+
+  it("sends and stores the checked answer, retrying once it does not match", async () => {
+    const model = new ScriptedChatModel([textReply('{"answer":1}'), textReply('{"answer":"yes"}')]);
+    jest.spyOn(registry, "createChatModel").mockReturnValue(model);
+
+    const { status, body } = await ask(format);
+    expect(status).toBe(200);
+    const chunks = streamChunks(body);
+    expect(chunkOf(chunks, "data-structured-output")?.data).toEqual({ answer: "yes" });
+    // Only the answer that matched was streamed
+    expect(chunks.filter(chunk => chunk.type === "text-delta")).toEqual([
+      expect.objectContaining({ delta: '{"answer":"yes"}' }),
+    ]);
+    const retry = model.calls[1][model.calls[1].length - 1];
+    expect(retry).toBeInstanceOf(HumanMessage);
+    expect(retry?.content).toContain("- $.answer: expected string, got integer");
+
+    const chatId = chunkOf(chunks, "start")?.messageMetadata?.chatId;
+    const { body: chat } = await request<ChatBody>(server.url, "GET", `/chats/${chatId}`, { token });
+    expect(chat.messages[1].parts).toContainEqual({ type: "data-structured-output", data: { answer: "yes" } });
+  });
+
+  it("keeps an answer that never matched as text and reports it", async () => {
+    jest.spyOn(registry, "createChatModel").mockReturnValue(
+      new ScriptedChatModel([textReply("No"), textReply("No"), textReply("Still no")])
+    );
+
+    const chunks = streamChunks((await ask(format)).body);
+    expect(chunkOf(chunks, "data-structured-output")).toBeUndefined();
+    expect(chunkOf(chunks, "error")?.errorText).toMatch(/^The reply does not match the response format: \$: not valid JSON/);
+  });
+});
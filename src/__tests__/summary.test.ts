@@ -0,0 +1,133 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, jest } from "@jest/globals";
+import { splitAtSummary, summarizeChat, withSummary } from "../chat/summary";
+import * as registry from "../models/registry";
+import { repo } from "../server";
+import { createMemoryRepository } from "../storage/memory";
+import type { Chat, ChatRepository } from "../storage";
+import {
+  register,
+  request,
+  ScriptedChatModel,
+  startServer,
+  streamChunks,
+  textReply,
+} from "./helpers";
+
+const local = registry.getModel("local")!;
+const options = { thresholdTokens: 10, keepRecent: 2 };
+
+// A chat with six alternating turns, "turn 1" to "turn 6"
+async function chatWithTurns(store: ChatRepository): Promise<Chat> {
+  const chat = await store.createChat("Summaries", null, 1);
+  for (let i = 1; i <= 6; i++) {
+    await store.addMessage(chat.id, i % 2 === 1 ? "user" : "assistant", `turn ${i}`);
+  }
+  return (await store.getChat(chat.id, 1))!;
+}
+
+let model: ScriptedChatModel;
+
+beforeEach(() => {
+  model = new ScriptedChatModel([textReply(" The user counted. "), textReply("Still counting.")]);
+  jest.spyOn(registry, "createChatModel").mockReturnValue(model);
+});
+
+describe("summarizeChat", () => {
+  it("waits until the history passes the threshold", async () => {
+    const store = createMemoryRepository();
+    const chat = await chatWithTurns(store);
+
+    expect(await summarizeChat(store, chat, local, { options: { ...options, thresholdTokens: 1000 } })).toBeNull();
+    expect(model.calls).toHaveLength(0);
+  });
+
+  it("folds all but the most recent turns into the summary", async () => {
+    const store = createMemoryRepository();
+    const chat = await chatWithTurns(store);
+    const messages = await store.listMessages(chat.id);
+
+    const updated = await summarizeChat(store, chat, local, { options });
+
+    expect(updated?.summary).toBe("The user counted.");
+    expect(updated?.summary_message_id).toBe(messages[3].id);
+    const prompt = model.calls[0][1].text;
+    expect(prompt).toContain("Current summary:\n(none yet)");
+    expect(prompt).toContain("User: turn 1\n\nAssistant: turn 2\n\nUser: turn 3\n\nAssistant: turn 4");
+    expect(prompt).not.toContain("turn 5");
+  });
+
+  it("merges later turns into the existing summary", async () => {
+    const store = createMemoryRepository();
+    const first = (await summarizeChat(store, await chatWithTurns(store), local, { options }))!;
+    await store.addMessage(first.id, "user", "turn 7");
+    await store.addMessage(first.id, "assistant", "turn 8");
+
+    const second = await summarizeChat(store, (await store.getChat(first.id, 1))!, local, { options });
+
+    expect(second?.summary).toBe("Still counting.");
+    const prompt = model.calls[1][1].text;
+    expect(prompt).toContain("Current summary:\nThe user counted.");
+    expect(prompt).toContain("User: turn 5\n\nAssistant: turn 6");
+    expect(prompt).not.toContain("turn 4");
+  });
+
+  it("fails on an empty summary", async () => {
+    const store = createMemoryRepository();
+    model = new ScriptedChatModel([textReply("  ")]);
+    jest.spyOn(registry, "createChatModel").mockReturnValue(model);
+
+    await expect(summarizeChat(store, await chatWithTurns(store), local, { options })).rejects.toThrow("empty summary");
+  });
+});
+
+describe("splitAtSummary", () => {
+  const path = [{ id: 1 }, { id: 2 }, { id: 3 }];
+  const chat = (summary_message_id: number | null) => ({ summary: "Earlier", summary_message_id }) as Chat;
+
+  it("replaces the summarised turns with the summary", () => {
+    expect(splitAtSummary(chat(2), path)).toEqual({ summary: "Earlier", pending: [{ id: 3 }] });
+    expect(withSummary("Be brief.", "Earlier")).toBe("Be brief.\n\nSummary of the earlier conversation:\nEarlier");
+  });
+
+  it("ignores a summary taken on another branch", () => {
+    expect(splitAtSummary(chat(7), path)).toEqual({ summary: null, pending: path });
+    expect(splitAtSummary(chat(null), path)).toEqual({ summary: null, pending: path });
+  });
+});
+
+describe("POST /chats/:id/summarize", () => {
+  let server: Awaited<ReturnType<typeof startServer>>;
+  let token: string;
+
+  beforeAll(async () => {
+    server = await startServer();
+    token = await register(server.url, "summaries@example.com");
+  });
+
+  afterAll(() => server.close());
+
+  it("summarises on demand and sends the summary instead of the folded turns", async () => {
+    const { body: created } = await request<Chat>(server.url, "POST", "/chats", { token, body: {} });
+    for (let i = 1; i <= 8; i++) {
+      await repo.addMessage(created.id, i % 2 === 1 ? "user" : "assistant", `turn ${i}`);
+    }
+
+    const { status, body } = await request<Pick<Chat, "summary" | "summary_message_id">>(
+      server.url, "POST", `/chats/${created.id}/summarize`, { token }
+    );
+    expect(status).toBe(200);
+    expect(body.summary).toBe("The user counted.");
+
+    model = new ScriptedChatModel([textReply("Nine.")]);
+    jest.spyOn(registry, "createChatModel").mockReturnValue(model);
+    const reply = await request<string>(server.url, "POST", `/chat/${created.id}`, {
+      token,
+      body: { messages: [{ role: "user", content: "turn 9" }] },
+    });
+    expect(streamChunks(reply.body)).toContainEqual(expect.objectContaining({ type: "text-delta", delta: "Nine." }));
+
+    const sent = model.calls[0].map(m => m.text);
+    expect(sent[0]).toContain("Summary of the earlier conversation:\nThe user counted.");
+    expect(sent.slice(1)).toEqual(["turn 3", "turn 4", "turn 5", "turn 6", "turn 7", "turn 8", "turn 9"]);
+  });
+});
@@ -0,0 +1,99 @@
+import { afterAll, beforeAll, describe, expect, it, jest } from "@jest/globals";
+import { AIMessage, HumanMessage, ToolMessage } from "@langchain/core/messages";
+import { PromptMessage, toLangChainMessages } from "../chat/prompt";
+import * as registry from "../models/registry";
+import { toolOptions } from "../tools/registry";
+import {
+  ChatBody,
+  chunkOf,
+  register,
+  request,
+  ScriptedChatModel,
+  startServer,
+  streamChunks,
+  textReply,
+  toolCallReply,
+} from "./helpers";
+
+// A stored tool row answering one call
+function toolRow(id: string, step?: string): PromptMessage {
+  return { role: "tool", content: `result ${id}`, tool_call: { id, name: "calculator", input: {}, step } };
+}
+
+describe("toLangChainMessages", () => {
+  it("starts a new assistant turn at every step", () => {
+    const messages = toLangChainMessages([
+      { role: "user", content: "Add things" },
+      { role: "assistant", content: "Looking" },
+      toolRow("a", "a"),
+      toolRow("b", "a"),
+      toolRow("c", "c"),
+      { role: "assistant", content: "" },
+    ]);
+
+    expect(messages.map(m => m.constructor.name)).toEqual([
+      HumanMessage.name, AIMessage.name, ToolMessage.name, ToolMessage.name, AIMessage.name, ToolMessage.name,
+    ]);
+    const [, first, , , second] = messages as AIMessage[];
+    expect(first.content).toBe("Looking");
+    expect(first.tool_calls?.map(call => call.id)).toEqual(["a", "b"]);
+    // No text of its own: the ToolMessage before it stays where it is
+    expect(second.content).toBe("");
+    expect(second.tool_calls?.map(call => call.id)).toEqual(["c"]);
+  });
+
+  it("keeps rows saved without steps together", () => {
+    const messages = toLangChainMessages([{ role: "user", content: "Hi" }, toolRow("a"), toolRow("b")]);
+    expect((messages[1] as AIMessage).tool_calls?.map(call => call.id)).toEqual(["a", "b"]);
+  });
+});
+
+describe("tool steps", () => {
+  let server: Awaited<ReturnType<typeof startServer>>;
+  let token: string;
+
+  beforeAll(async () => {
+    server = await startServer();
+    token = await register(server.url, "steps@example.com");
+  });
+
+  afterAll(() => server.close());
+
+  it("answers the calls of the last step without running them and keeps the reply's usage", async () => {
+    jest.replaceProperty(toolOptions, "maxSteps", 2);
+    const model = new ScriptedChatModel([
+      toolCallReply("call-1", "calculator", { expression: "1 + 1" }),
+      toolCallReply("call-2", "calculator", { expression: "2 + 2" }),
+      textReply("Sorry."),
+    ]);
+    jest.spyOn(registry, "createChatModel").mockReturnValue(model);
+
+    const { body } = await request<string>(server.url, "POST", "/chat", {
+      token,
+      body: { messages: [{ role: "user", content: "Add" }] },
+    });
+    const chunks = streamChunks(body);
+    expect(chunks).toContainEqual(expect.objectContaining({ type: "tool-output-available", toolCallId: "call-1" }));
+    expect(chunks).toContainEqual(expect.objectContaining({
+      type: "tool-output-error",
+      toolCallId: "call-2",
+      errorText: "Not run: the reply reached its limit of 2 steps",
+    }));
+
+    const chatId = chunkOf(chunks, "start")?.messageMetadata?.chatId;
+    const { body: chat } = await request<ChatBody>(server.url, "GET", `/chats/${chatId}`, { token });
+    expect(chat.messages.map(m => `${m.role} ${m.content}`)).toEqual([
+      "user Add",
+      'tool {"expression":"1 + 1","result":2}',
+      "tool Error: Not run: the reply reached its limit of 2 steps",
+      "assistant ",
+    ]);
+    expect(chat.messages[3].usage).toMatchObject({ model: "local" });
+    expect(chat.messages[3].usage!.promptTokens).toBeGreaterThan(0);
+
+    // The next reply sees each step as a turn of its own
+    await request(server.url, "POST", `/chat/${chatId}`, { token, body: { messages: [{ role: "user", content: "Well?" }] } });
+    const turns = model.calls[2].filter((m): m is AIMessage => m instanceof AIMessage);
+    expect(turns.map(m => m.tool_calls?.map(call => call.id))).toEqual([["call-1"], ["call-2"]]);
+  });
+});
@@ -0,0 +1,113 @@
+import { afterAll, beforeAll, describe, expect, it, jest } from "@jest/globals";
+import { AIMessageChunk } from "@langchain/core/messages";
+import { parseUsageRange, summarizeUsage, usageReport } from "../chat/usage";
+import * as registry from "../models/registry";
+import { createMemoryRepository } from "../storage/memory";
+import type { Chat, UsageTotals } from "../storage";
+import { ChatBody, register, request, ScriptedChatModel, startServer, textReply } from "./helpers";
+
+const local = registry.getModel("local")!;
+
+describe("parseUsageRange", () => {
+  it("reads dates as whole UTC days and timestamps as given", () => {
+    expect(parseUsageRange({ from: "2026-03-01", to: "2026-03-01" })).toEqual({
+      from: "2026-03-01T00:00:00.000Z",
+      to: "2026-03-02T00:00:00.000Z",
+    });
+    expect(parseUsageRange({ from: "2026-03-01T12:00:00+02:00" })).toEqual({ from: "2026-03-01T10:00:00.000Z" });
+  });
+
+  it("rejects bad or reversed bounds", () => {
+    expect(parseUsageRange({ from: "yesterday" })).toEqual({ error: "from must be a date (YYYY-MM-DD) or timestamp" });
+    expect(parseUsageRange({ from: "2026-03-02", to: "2026-03-01" })).toEqual({ error: "from must be before to" });
+  });
+});
+
+describe("summarizeUsage", () => {
+  const row = (model: string, prompt: number, completion: number): UsageTotals => ({
+    day: "2026-03-01", model, messages: 2, prompt_tokens: prompt, completion_tokens: completion, avg_latency_ms: 100, estimated: 1,
+  });
+
+  it("adds up tokens and prices them per million", () => {
+    jest.replaceProperty(local, "pricing", { prompt: 1, completion: 2 });
+
+    expect(summarizeUsage([row("local", 1000, 500), row("local", 500, 0)])).toEqual({
+      messages: 4,
+      promptTokens: 1500,
+      completionTokens: 500,
+      totalTokens: 2000,
+      cost: 0.0025,
+      avgLatencyMs: 100,
+      estimatedMessages: 2,
+    });
+    // A model no longer in the registry has no price
+    expect(summarizeUsage([row("local", 1, 1), row("retired", 1, 1)]).cost).toBeNull();
+  });
+
+  it("groups by model and by day", () => {
+    const report = usageReport([row("local", 1, 1), { ...row("other", 2, 2), day: "2026-03-02" }]);
+    expect(report.byModel.map(g => g.model)).toEqual(["local", "other"]);
+    expect(report.byDay.map(g => [g.day, g.totalTokens])).toEqual([["2026-03-01", 2], ["2026-03-02", 4]]);
+  });
+});
+
+describe("memory usageReport", () => {
+  it("groups the owner's replies by UTC day within the range", async () => {
+    const store = createMemoryRepository();
+    const chat = await store.createChat("Usage", null, 1);
+    const usage = { model: "local", prompt_tokens: 10, completion_tokens: 5, latency_ms: 100, usage_estimated: false };
+    await store.createChatWithHistory({ owner_id: 1, title: "Late" }, [
+      { role: "assistant", content: "a", status: "complete", created_at: "2026-03-01T23:30:00-02:00", usage },
+      { role: "assistant", content: "b", status: "complete", created_at: "2026-03-02T00:30:00+02:00", usage },
+      { role: "user", content: "c", status: "complete", created_at: "2026-03-02T12:00:00Z" },
+    ]);
+    await store.addMessage(chat.id, "assistant", "elsewhere", undefined, "complete", { usage });
+
+    const rows = await store.usageReport(1, { from: "2026-03-01T00:00:00Z", to: "2026-03-03T00:00:00Z" });
+    expect(rows.map(r => [r.day, r.messages, r.prompt_tokens])).toEqual([["2026-03-01", 1, 10], ["2026-03-02", 1, 10]]);
+    expect(await store.usageReport(2)).toEqual([]);
+  });
+});
+
+describe("usage routes", () => {
+  let server: Awaited<ReturnType<typeof startServer>>;
+  let token: string;
+
+  beforeAll(async () => {
+    server = await startServer();
+    token = await register(server.url, "usage@example.com");
+  });
+
+  afterAll(() => server.close());
+
+  it("stores reported usage with the reply and reports it per chat and overall", async () => {
+    const reported = new AIMessageChunk({
+      content: "Counted",
+      usage_metadata: { input_tokens: 12, output_tokens: 3, total_tokens: 15 },
+    });
+    jest.spyOn(registry, "createChatModel").mockReturnValue(new ScriptedChatModel([reported, textReply("Guessed")]));
+    const { body: chat } = await request<Chat>(server.url, "POST", "/chats", { token, body: {} });
+    for (const content of ["First", "Second"]) {
+      await request(server.url, "POST", `/chat/${chat.id}`, { token, body: { messages: [{ role: "user", content }] } });
+    }
+
+    const { body } = await request<ChatBody>(server.url, "GET", `/chats/${chat.id}`, { token });
+    expect(body.messages[1].usage).toMatchObject({ model: "local", promptTokens: 12, completionTokens: 3, estimated: false });
+    expect(body.messages[3].usage).toMatchObject({ model: "local", estimated: true });
+
+    const perChat = await request<{ messages: number; estimatedMessages: number }>(
+      server.url, "GET", `/chats/${chat.id}/usage`, { token }
+    );
+    expect(perChat.body).toMatchObject({ messages: 2, estimatedMessages: 1 });
+
+    const today = new Date().toISOString().slice(0, 10);
+    const overall = await request<{ total: { messages: number }; byDay: Array<{ day: string }>; prices: object }>(
+      server.url, "GET", `/usage?from=${today}&to=${today}`, { token }
+    );
+    expect(overall.body.total.messages).toBe(2);
+    expect(overall.body.byDay.map(d => d.day)).toEqual([today]);
+    expect(overall.body.prices).toHaveProperty("local");
+
+    expect((await request(server.url, "GET", "/usage?from=nonsense", { token })).status).toBe(400);
+  });
+});
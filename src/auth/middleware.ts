@@ -0,0 +1,59 @@
+import type { NextFunction, Request, Response } from "express";
+import { ChatRepository, User } from "../storage";
+import { checkQuota } from "./quotas";
+import { verifyToken } from "./tokens";
+
+// Reject requests without a valid "Authorization: Bearer <jwt>" header and
+// make the user available to the route through currentUser
+export function requireAuth(repo: ChatRepository) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const [scheme, token] = (req.headers.authorization ?? "").split(" ");
+    if (scheme?.toLowerCase() !== "bearer" || !token) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+
+    const claims = verifyToken(token);
+    // The account, or the API key the token was exchanged for, may have been
+    // deleted since the token was issued
+    const user = claims === null ? null : await repo.getUser(claims.userId);
+    const revoked = user !== null && claims!.apiKeyId !== null && !(await repo.hasApiKey(user.id, claims!.apiKeyId));
+    if (!user || revoked) {
+      return res.status(401).json({ error: "Invalid or expired token" });
+    }
+
+    res.locals.user = user;
+    res.locals.apiKeyId = claims!.apiKeyId;
+    next();
+  };
+}
+
+// Count the request against the caller's rate limit and token budgets
+// (see quotas.ts). Over a limit it is answered with 429 and Retry-After;
+// either way the response carries the limits and what remains of them.
+export function enforceQuota(repo: ChatRepository) {
+  // req is left untyped so routes keep the params typed from their path
+  return async (_req: unknown, res: Response, next: NextFunction) => {
+    const quota = await checkQuota(repo, currentUser(res).id, currentApiKeyId(res));
+    for (const [name, value] of Object.entries(quota.headers)) {
+      res.setHeader(name, value);
+    }
+
+    if (quota.exceeded) {
+      res.setHeader("Retry-After", String(quota.retryAfter));
+      return res.status(429).json({ error: quota.exceeded, retryAfter: quota.retryAfter });
+    }
+    next();
+  };
+}
+
+export function currentUser(res: Response): User {
+  if (!res.locals.user) {
+    throw new Error("currentUser called on a route without requireAuth");
+  }
+  return res.locals.user;
+}
+
+// The API key the caller's token was exchanged for, or null for a login token
+export function currentApiKeyId(res: Response): number | null {
+  return res.locals.apiKeyId ?? null;
+}
@@ -0,0 +1,27 @@
+import { randomBytes, scrypt, timingSafeEqual } from "crypto";
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+const KEY_LENGTH = 64;
+
+function derive(password: string, salt: Buffer): Promise<Buffer> {
+  return new Promise((resolve, reject) =>
+    scrypt(password, salt, KEY_LENGTH, (err, key) => (err ? reject(err) : resolve(key)))
+  );
+}
+
+// Stored as scrypt$<salt>$<key>, both base64
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const key = await derive(password, salt);
+  return `scrypt$${salt.toString("base64")}$${key.toString("base64")}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, salt, key] = stored.split("$");
+  if (scheme !== "scrypt" || !salt || !key) return false;
+
+  const expected = Buffer.from(key, "base64");
+  const actual = await derive(password, Buffer.from(salt, "base64"));
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
@@ -0,0 +1,145 @@
+import { ChatRepository, UsagePeriod } from "../storage";
+
+export interface QuotaOptions {
+  // Generation requests allowed per window; 0 turns rate limiting off
+  requests: number;
+  windowSeconds: number;
+  // Tokens that may be spent per UTC day and calendar month; 0 is unlimited
+  dailyTokens: number;
+  monthlyTokens: number;
+}
+
+// A whole number of at least min from the environment, or the fallback when
+// unset. Anything else throws, so a typo stops the server from starting
+// rather than quietly turning a limit off.
+export function envInteger(name: string, fallback: number, min = 0): number {
+  const raw = process.env[name]?.trim();
+  if (!raw) return fallback;
+
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < min) {
+    throw new Error(`${name} must be a whole number of at least ${min}, got "${raw}"`);
+  }
+  return value;
+}
+
+export const quotaOptions: QuotaOptions = {
+  requests: envInteger("RATE_LIMIT_REQUESTS", 30),
+  windowSeconds: envInteger("RATE_LIMIT_WINDOW_SECONDS", 60, 1),
+  dailyTokens: envInteger("TOKEN_QUOTA_DAILY", 0),
+  monthlyTokens: envInteger("TOKEN_QUOTA_MONTHLY", 0),
+};
+
+// Requests and tokens are counted per API key when the access token came
+// from one, so every key gets its own allowance, and per user otherwise
+function quotaSubject(userId: number, apiKeyId: number | null): string {
+  return apiKeyId === null ? `user:${userId}` : `api_key:${apiKeyId}`;
+}
+
+// The period containing now, in UTC; windows are aligned to the epoch
+export function periodBounds(
+  period: UsagePeriod,
+  now: Date,
+  options: QuotaOptions = quotaOptions
+): { start: Date; end: Date } {
+  if (period === "window") {
+    const length = options.windowSeconds * 1000;
+    const start = Math.floor(now.getTime() / length) * length;
+    return { start: new Date(start), end: new Date(start + length) };
+  }
+
+  const [year, month, day] = [now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()];
+  return period === "day"
+    ? { start: new Date(Date.UTC(year, month, day)), end: new Date(Date.UTC(year, month, day + 1)) }
+    : { start: new Date(Date.UTC(year, month, 1)), end: new Date(Date.UTC(year, month + 1, 1)) };
+}
+
+export interface QuotaCheck {
+  // Why the request is refused, or null when it may go ahead
+  exceeded: string | null;
+  // Seconds until the exhausted limit resets
+  retryAfter: number;
+  // Limit and remaining headers for the response
+  headers: Record<string, string>;
+}
+
+// Check the caller's token budgets, then count the request against the rate
+// limit. Refused requests are not counted, except by the rate limit itself.
+export async function checkQuota(
+  repo: ChatRepository,
+  userId: number,
+  apiKeyId: number | null,
+  { options = quotaOptions, now = new Date() }: { options?: QuotaOptions; now?: Date } = {}
+): Promise<QuotaCheck> {
+  const check: QuotaCheck = { exceeded: null, retryAfter: 0, headers: {} };
+  const secondsUntil = (date: Date) => Math.max(Math.ceil((date.getTime() - now.getTime()) / 1000), 1);
+
+  const budgets = [
+    { period: "day" as const, limit: options.dailyTokens, header: "Daily" },
+    { period: "month" as const, limit: options.monthlyTokens, header: "Monthly" },
+  ].filter(b => b.limit > 0);
+
+  if (budgets.length > 0) {
+    // Recording nothing reads the counters, starting a new period if one is due
+    const counters = await repo.recordUsage(
+      quotaSubject(userId, apiKeyId),
+      budgets.map(b => ({ period: b.period, start: periodBounds(b.period, now, options).start.toISOString() })),
+      0,
+      0
+    );
+
+    for (const budget of budgets) {
+      const used = counters.find(c => c.period === budget.period)?.tokens ?? 0;
+      const { end } = periodBounds(budget.period, now, options);
+      check.headers[`X-Quota-${budget.header}-Limit`] = String(budget.limit);
+      check.headers[`X-Quota-${budget.header}-Remaining`] = String(Math.max(budget.limit - used, 0));
+      check.headers[`X-Quota-${budget.header}-Reset`] = String(secondsUntil(end));
+
+      if (used >= budget.limit) {
+        check.exceeded = `${budget.header} token quota exceeded`;
+        check.retryAfter = Math.max(check.retryAfter, secondsUntil(end));
+      }
+    }
+    if (check.exceeded) return check;
+  }
+
+  if (options.requests > 0) {
+    const { start, end } = periodBounds("window", now, options);
+    const [counter] = await repo.recordUsage(
+      quotaSubject(userId, apiKeyId),
+      [{ period: "window", start: start.toISOString() }],
+      1,
+      0
+    );
+    check.headers["X-RateLimit-Limit"] = String(options.requests);
+    check.headers["X-RateLimit-Remaining"] = String(Math.max(options.requests - counter.requests, 0));
+    check.headers["X-RateLimit-Reset"] = String(secondsUntil(end));
+
+    if (counter.requests > options.requests) {
+      check.exceeded = "Rate limit exceeded";
+      check.retryAfter = secondsUntil(end);
+    }
+  }
+
+  return check;
+}
+
+// Add the tokens of a generation to the daily and monthly counters of
+// whoever asked for it: the API key it came through, or the user
+export async function recordTokens(
+  repo: ChatRepository,
+  userId: number,
+  apiKeyId: number | null,
+  tokens: number,
+  { options = quotaOptions, now = new Date() }: { options?: QuotaOptions; now?: Date } = {}
+): Promise<void> {
+  await repo.recordUsage(
+    quotaSubject(userId, apiKeyId),
+    (["day", "month"] as const).map(period => ({
+      period,
+      start: periodBounds(period, now, options).start.toISOString(),
+    })),
+    0,
+    tokens
+  );
+}
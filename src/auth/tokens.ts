@@ -0,0 +1,57 @@
+import { createHash, randomBytes } from "crypto";
+import jwt from "jsonwebtoken";
+import { User } from "../storage";
+
+const API_KEY_PREFIX = "sk-chat-";
+
+let generatedSecret: string | null = null;
+
+// Read lazily so a .env loaded after import still applies. Without
+// JWT_SECRET tokens are signed with a per-process secret and stop working
+// on restart, which is only acceptable in development.
+function jwtSecret(): string {
+  if (process.env.JWT_SECRET) return process.env.JWT_SECRET;
+  if (!generatedSecret) {
+    generatedSecret = randomBytes(32).toString("hex");
+    console.warn("🟡 [AUTH] JWT_SECRET is not set; tokens will not survive a restart");
+  }
+  return generatedSecret;
+}
+
+// Signed access token for the user; JWT_EXPIRES_IN is in seconds or a
+// duration like "12h" (default one day). Tokens exchanged for an API key
+// carry its id, which rate limits are counted against.
+export function issueToken(user: User, apiKeyId?: number): { token: string; expiresIn: string } {
+  const expiresIn = process.env.JWT_EXPIRES_IN || "1d";
+  const claims = apiKeyId === undefined ? { email: user.email } : { email: user.email, api_key_id: apiKeyId };
+  const token = jwt.sign(claims, jwtSecret(), {
+    subject: String(user.id),
+    expiresIn: /^\d+$/.test(expiresIn) ? Number(expiresIn) : (expiresIn as jwt.SignOptions["expiresIn"]),
+  });
+  return { token, expiresIn };
+}
+
+// The user (and API key, if any) of a valid, unexpired token. Whether they
+// still exist is up to the caller (see requireAuth).
+export function verifyToken(token: string): { userId: number; apiKeyId: number | null } | null {
+  try {
+    const payload = jwt.verify(token, jwtSecret(), { algorithms: ["HS256"] });
+    if (typeof payload === "string") return null;
+    const userId = Number(payload.sub);
+    const apiKeyId = Number.isInteger(payload.api_key_id) ? payload.api_key_id : null;
+    return Number.isInteger(userId) ? { userId, apiKeyId } : null;
+  } catch {
+    return null;
+  }
+}
+
+// Keys are random, so a plain SHA-256 is enough to store them
+export function hashApiKey(key: string): string {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+// A new key, shown to the user once; prefix identifies it in listings
+export function generateApiKey(): { key: string; prefix: string; hash: string } {
+  const key = API_KEY_PREFIX + randomBytes(24).toString("base64url");
+  return { key, prefix: key.slice(0, API_KEY_PREFIX.length + 4), hash: hashApiKey(key) };
+}
@@ -0,0 +1,35 @@
+import "dotenv/config";
+import { backfillEmbeddings } from "./chat/semantic";
+import { getEmbedder } from "./models/embeddings";
+import { createSqlClient, getStorageDriver } from "./storage";
+import { createSqlRepository } from "./storage/sql";
+
+// Embed every stored message the configured EMBEDDER has not embedded yet,
+// e.g. messages saved before semantic search existed or after switching embedders
+async function main() {
+  const driver = getStorageDriver();
+  if (driver === "memory") {
+    throw new Error('There is nothing to backfill with the "memory" storage driver');
+  }
+  const db = createSqlClient(driver);
+
+  try {
+    const repo = createSqlRepository(db);
+    await repo.initialize();
+
+    const embedder = getEmbedder();
+    console.log(`🔢 Embedding messages with ${embedder.id}`);
+    const total = await backfillEmbeddings(repo, {
+      embedder,
+      onBatch: count => console.log(`   ${count} messages embedded`),
+    });
+    console.log(total === 0 ? "✅ Every message is already embedded" : `✅ Embedded ${total} messages`);
+  } finally {
+    await db.close();
+  }
+}
+
+main().catch(err => {
+  console.error("🔴 Backfill failed:", err.message);
+  process.exit(1);
+});
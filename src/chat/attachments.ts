@@ -0,0 +1,58 @@
+import { Attachment } from "../storage";
+
+// Largest file accepted per attachment
+export const MAX_ATTACHMENT_BYTES = Number(process.env.MAX_ATTACHMENT_BYTES) || 10 * 1024 * 1024;
+
+// Rough prompt cost of one image; providers charge roughly 85 to 1500 tokens
+export const IMAGE_TOKENS = 1000;
+
+// Cost of the note sent in place of a file the model cannot read
+const PLACEHOLDER_TOKENS = 20;
+
+const TEXT_MEDIA_TYPES = ["application/json", "application/xml", "application/x-yaml", "application/yaml"];
+
+export function isImage(mediaType: string): boolean {
+  return mediaType.startsWith("image/");
+}
+
+// Files whose bytes can be put into the prompt as text
+export function isTextFile(mediaType: string): boolean {
+  return mediaType.startsWith("text/") || TEXT_MEDIA_TYPES.includes(mediaType);
+}
+
+// Where the file is served (GET /attachments/:id); also accepted back in file parts
+export function attachmentUrl(id: number): string {
+  return `/attachments/${id}`;
+}
+
+export function parseAttachmentUrl(url: string): number | null {
+  const match = /^\/attachments\/(\d+)$/.exec(url);
+  return match ? Number(match[1]) : null;
+}
+
+// Decode a data: URL (base64 or percent-encoded)
+export function parseDataUrl(url: string): { mediaType: string; data: Buffer } | null {
+  const match = /^data:([^,]*),(.*)$/s.exec(url);
+  if (!match) return null;
+
+  const [, meta, payload] = match;
+  const base64 = meta.endsWith(";base64");
+  const mediaType = meta.split(";")[0] || "text/plain";
+
+  try {
+    const data = base64 ? Buffer.from(payload, "base64") : Buffer.from(decodeURIComponent(payload));
+    return { mediaType, data };
+  } catch {
+    return null;
+  }
+}
+
+// Prompt tokens an attachment adds, estimated from its metadata
+export function estimateAttachmentTokens(
+  attachment: Pick<Attachment, "media_type" | "size">,
+  vision: boolean
+): number {
+  if (isImage(attachment.media_type) && vision) return IMAGE_TOKENS;
+  if (isTextFile(attachment.media_type)) return Math.ceil(attachment.size / 4);
+  return PLACEHOLDER_TOKENS;
+}
@@ -0,0 +1,130 @@
+import { MESSAGE_OVERHEAD_TOKENS, TokenCounter } from "../models/tokens";
+import { DBMessages } from "../storage";
+
+export type ContextMessage = Pick<DBMessages, "id" | "role" | "content"> & {
+  // Tokens sent beside the content, e.g. attachments
+  extraTokens?: number;
+};
+
+export interface CountedMessage<T extends ContextMessage = ContextMessage> {
+  message: T;
+  tokens: number;
+}
+
+export interface ContextStrategyOptions {
+  // Leading messages pinned by "keep-first"
+  keepFirst: number;
+  // Maximum number of messages kept by "sliding-window"
+  windowSize: number;
+}
+
+// Picks which history messages (in order) fit in the token budget
+export type ContextStrategy = <T extends ContextMessage>(
+  messages: CountedMessage<T>[],
+  budget: number,
+  options: ContextStrategyOptions
+) => CountedMessage<T>[];
+
+export interface ContextOptions extends ContextStrategyOptions {
+  strategy: string;
+  // Tokens available for the system prompt plus history
+  budget: number;
+  counter: TokenCounter;
+}
+
+export interface ContextResult<T extends ContextMessage> {
+  messages: T[];
+  includedIds: number[];
+  droppedIds: number[];
+  tokens: number;
+  budget: number;
+  strategy: string;
+}
+
+const sumTokens = (messages: CountedMessage<any>[]) =>
+  messages.reduce((total, m) => total + m.tokens, 0);
+
+// Keep the newest messages that fit. The latest message is always kept,
+// and a trimmed history never starts with an assistant turn, since some
+// chat templates require the first turn to come from the user.
+function fitNewest<T extends ContextMessage>(
+  messages: CountedMessage<T>[],
+  budget: number,
+  maxCount = Infinity
+): CountedMessage<T>[] {
+  let start = messages.length;
+  let used = 0;
+
+  while (start > 0) {
+    const next = messages[start - 1];
+    const kept = messages.length - start;
+    if (kept > 0 && (used + next.tokens > budget || kept >= maxCount)) break;
+    used += next.tokens;
+    start--;
+  }
+
+  while (start > 0 && start < messages.length - 1 && messages[start].message.role !== "user") {
+    start++;
+  }
+
+  return messages.slice(start);
+}
+
+const strategies: Record<string, ContextStrategy> = {
+  "drop-oldest": (messages, budget) => fitNewest(messages, budget),
+
+  "sliding-window": (messages, budget, { windowSize }) =>
+    fitNewest(messages, budget, windowSize),
+
+  "keep-first": (messages, budget, { keepFirst }) => {
+    if (messages.length <= keepFirst) {
+      return fitNewest(messages, budget);
+    }
+    const pinned = messages.slice(0, keepFirst);
+    return [...pinned, ...fitNewest(messages.slice(keepFirst), budget - sumTokens(pinned))];
+  },
+};
+
+export const DEFAULT_CONTEXT_STRATEGY = "drop-oldest";
+
+export function registerContextStrategy(name: string, strategy: ContextStrategy) {
+  strategies[name] = strategy;
+}
+
+export function isContextStrategy(name: string): boolean {
+  return name in strategies;
+}
+
+export function countMessageTokens(counter: TokenCounter, content: string): number {
+  return counter.count(content) + MESSAGE_OVERHEAD_TOKENS;
+}
+
+// Trim the chat history so the system prompt plus the kept messages fit the budget
+export function buildContext<T extends ContextMessage>(
+  systemPrompt: string,
+  history: T[],
+  options: ContextOptions
+): ContextResult<T> {
+  const strategy = strategies[options.strategy];
+  if (!strategy) {
+    throw new Error(`Unknown context strategy "${options.strategy}"`);
+  }
+
+  const systemTokens = countMessageTokens(options.counter, systemPrompt);
+  const counted = history.map(message => ({
+    message,
+    tokens: countMessageTokens(options.counter, message.content) + (message.extraTokens ?? 0),
+  }));
+
+  const kept = strategy(counted, Math.max(options.budget - systemTokens, 0), options);
+  const keptIds = new Set(kept.map(m => m.message.id));
+
+  return {
+    messages: kept.map(m => m.message),
+    includedIds: kept.map(m => m.message.id),
+    droppedIds: history.filter(m => !keptIds.has(m.id)).map(m => m.id),
+    tokens: systemTokens + sumTokens(kept),
+    budget: options.budget,
+    strategy: options.strategy,
+  };
+}
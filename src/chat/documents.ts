@@ -0,0 +1,161 @@
+import { PDFParse } from "pdf-parse";
+import { Embedder, getEmbedder } from "../models/embeddings";
+import { ChatDocument, ChatRepository, ScoredChunk } from "../storage";
+import { isTextFile } from "./attachments";
+
+export interface RagOptions {
+  // Chunks pulled into the prompt per answer
+  topK: number;
+  // Chunks less similar to the question than this are left out
+  minScore: number;
+  // Target chunk length in characters, and how much of it the next chunk repeats
+  chunkSize: number;
+  chunkOverlap: number;
+  // Largest document accepted
+  maxBytes: number;
+}
+
+export const ragOptions: RagOptions = {
+  topK: Number(process.env.RAG_TOP_K) || 4,
+  minScore: Number(process.env.RAG_MIN_SCORE ?? 0.1),
+  chunkSize: Number(process.env.RAG_CHUNK_SIZE) || 1000,
+  chunkOverlap: Number(process.env.RAG_CHUNK_OVERLAP ?? 150),
+  maxBytes: Number(process.env.MAX_DOCUMENT_BYTES) || 10 * 1024 * 1024,
+};
+
+const EXTENSION_TYPES: Record<string, string> = {
+  md: "text/markdown",
+  markdown: "text/markdown",
+  txt: "text/plain",
+  log: "text/plain",
+  csv: "text/csv",
+  json: "application/json",
+  pdf: "application/pdf",
+};
+
+// The declared type, or one guessed from the extension when the client sent a generic one
+export function documentMediaType(contentType: string | undefined, filename: string | null): string {
+  const declared = contentType?.split(";")[0].trim();
+  if (declared && declared !== "application/octet-stream") return declared;
+
+  const extension = filename?.split(".").pop()?.toLowerCase() ?? "";
+  return EXTENSION_TYPES[extension] ?? "application/octet-stream";
+}
+
+export function isSupportedDocument(mediaType: string): boolean {
+  return isTextFile(mediaType) || mediaType === "application/pdf";
+}
+
+export async function extractText(mediaType: string, data: Buffer): Promise<string> {
+  if (mediaType !== "application/pdf") return data.toString("utf8");
+
+  const parser = new PDFParse({ data });
+  try {
+    return (await parser.getText()).text;
+  } finally {
+    await parser.destroy();
+  }
+}
+
+// Cut a paragraph longer than size at word boundaries
+function splitLong(paragraph: string, size: number): string[] {
+  const parts: string[] = [];
+  let rest = paragraph;
+
+  while (rest.length > size) {
+    let cut = rest.lastIndexOf(" ", size);
+    if (cut <= 0) cut = size;
+    parts.push(rest.slice(0, cut).trim());
+    rest = rest.slice(cut).trim();
+  }
+  if (rest) parts.push(rest);
+
+  return parts;
+}
+
+// The last `length` characters, starting at a word
+function overlapTail(text: string, length: number): string {
+  if (length <= 0) return "";
+  const tail = text.slice(-length);
+  const space = tail.indexOf(" ");
+  return space === -1 ? tail : tail.slice(space + 1);
+}
+
+// Pack paragraphs into chunks of about options.chunkSize characters; each
+// chunk starts with the end of the previous one so no passage is cut in two
+export function chunkText(
+  text: string,
+  { chunkSize, chunkOverlap }: Pick<RagOptions, "chunkSize" | "chunkOverlap"> = ragOptions
+): string[] {
+  const pieces = text
+    .split(/\n\s*\n/)
+    .map(p => p.trim())
+    .filter(Boolean)
+    .flatMap(p => splitLong(p, chunkSize));
+
+  const chunks: string[] = [];
+  let current = "";
+  let hasNew = false;
+
+  for (const piece of pieces) {
+    if (hasNew && current.length + piece.length + 2 > chunkSize) {
+      chunks.push(current);
+      current = overlapTail(current, chunkOverlap);
+      hasNew = false;
+    }
+    current = current ? `${current}\n\n${piece}` : piece;
+    hasNew = true;
+  }
+  if (hasNew) chunks.push(current);
+
+  return chunks;
+}
+
+// Extract, chunk, embed and store a document. Returns null when it holds no text.
+export async function ingestDocument(
+  repo: ChatRepository,
+  chatId: number,
+  file: { filename: string | null; mediaType: string; data: Buffer },
+  { options = ragOptions, embedder = getEmbedder() }: { options?: RagOptions; embedder?: Embedder } = {}
+): Promise<ChatDocument | null> {
+  const text = await extractText(file.mediaType, file.data);
+  const pieces = chunkText(text, options);
+  if (pieces.length === 0) return null;
+
+  const embeddings = await embedder.embed(pieces);
+  return repo.addDocument(
+    {
+      chat_id: chatId,
+      filename: file.filename,
+      media_type: file.mediaType,
+      size: file.data.length,
+      embedder: embedder.id,
+    },
+    pieces.map((content, i) => ({ content, embedding: embeddings[i] }))
+  );
+}
+
+// Chunks of the chat's documents most relevant to the query
+export async function retrieveChunks(
+  repo: ChatRepository,
+  chatId: number,
+  query: string,
+  { options = ragOptions, embedder = getEmbedder() }: { options?: RagOptions; embedder?: Embedder } = {}
+): Promise<ScoredChunk[]> {
+  if (!query.trim()) return [];
+
+  const [embedding] = await embedder.embed([query]);
+  const chunks = await repo.searchChunks(chatId, embedder.id, embedding, options.topK);
+  return chunks.filter(c => c.score >= options.minScore);
+}
+
+// System prompt with the retrieved excerpts appended, numbered for citations
+export function withDocuments(systemPrompt: string, chunks: ScoredChunk[]): string {
+  if (chunks.length === 0) return systemPrompt;
+
+  const excerpts = chunks
+    .map((c, i) => `[${i + 1}] ${c.filename ?? `Document ${c.document_id}`}:\n${c.content}`)
+    .join("\n\n");
+  return `${systemPrompt}\n\nExcerpts from documents attached to this chat. ` +
+    `Use them when relevant and cite them as [n]:\n\n${excerpts}`;
+}
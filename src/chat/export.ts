@@ -0,0 +1,232 @@
+import { Attachment, AttachmentWithData, Chat, DBMessages } from "../storage";
+import { attachmentUrl } from "./attachments";
+
+// GET /chats/:id/export?format=...
+export const EXPORT_FORMATS = ["markdown", "json", "html"] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export function isExportFormat(value: unknown): value is ExportFormat {
+  return EXPORT_FORMATS.includes(value as ExportFormat);
+}
+
+// Bump when the JSON shape changes; imports check it
+export const CHAT_EXPORT_VERSION = 1;
+
+export interface ExportedAttachment extends Omit<Attachment, "owner_id" | "message_id"> {
+  // File contents, base64
+  data: string;
+}
+
+export interface ExportedMessage extends Omit<DBMessages, "chat_id"> {
+  attachments: ExportedAttachment[];
+}
+
+// The JSON format: rows as stored, so nothing is lost on the way back in.
+// Messages are the active branch, as GET /chats/:id shows them; uploaded
+// documents (RAG) are not part of it.
+export interface ChatExport {
+  version: number;
+  exported_at: string;
+  chat: Omit<Chat, "owner_id">;
+  messages: ExportedMessage[];
+}
+
+export function exportJson(
+  chat: Chat,
+  messages: DBMessages[],
+  attachments: AttachmentWithData[],
+  now = new Date()
+): ChatExport {
+  const { owner_id, ...rest } = chat;
+  return {
+    version: CHAT_EXPORT_VERSION,
+    exported_at: now.toISOString(),
+    chat: rest,
+    messages: messages.map(({ chat_id, ...message }) => ({
+      ...message,
+      attachments: attachments
+        .filter(a => a.message_id === message.id)
+        .map(({ owner_id, message_id, data, ...attachment }) => ({ ...attachment, data: data.toString("base64") })),
+    })),
+  };
+}
+
+function timestamp(value: string | Date): string {
+  return new Date(value).toISOString().replace("T", " ").slice(0, 19) + " UTC";
+}
+
+function label(message: DBMessages): string {
+  const role = message.role === "tool"
+    ? `Tool: ${message.tool_call?.name ?? "unknown"}`
+    : message.role === "assistant" ? "Assistant" : "User";
+  const model = message.model ? ` (${message.model})` : "";
+  const status = message.status === "complete" ? "" : ` [${message.status}]`;
+  return `${role}${model}${status}`;
+}
+
+function json(value: unknown): string {
+  return typeof value === "string" ? value : JSON.stringify(value, null, 2);
+}
+
+// A fence longer than any backtick run inside, so the text cannot close it
+function fenced(text: string, language = ""): string {
+  const longest = Math.max(0, ...(text.match(/`+/g) ?? []).map(run => run.length));
+  const fence = "`".repeat(Math.max(3, longest + 1));
+  return `${fence}${language}\n${text}\n${fence}`;
+}
+
+// Titles default to the start of the first message, line breaks included
+function titleLine(chat: Chat): string {
+  return chat.title.replace(/\s+/g, " ").trim();
+}
+
+function chatFacts(chat: Chat, now: Date): [string, string][] {
+  return [
+    ["Chat", String(chat.id)],
+    ["Model", chat.model ?? "default"],
+    ["Created", timestamp(chat.created_at)],
+    ["Exported", timestamp(now)],
+  ];
+}
+
+export function exportMarkdown(chat: Chat, messages: DBMessages[], attachments: Attachment[], now = new Date()): string {
+  const sections = messages.map(message => {
+    const lines = [`## ${label(message)} — ${timestamp(message.created_at)}`, ""];
+    const call = message.tool_call;
+    if (call) {
+      lines.push("Input:", "", fenced(json(call.input ?? {}), "json"), "");
+      if (call.error !== undefined) lines.push(`Error: ${call.error}`);
+      else if (message.status !== "pending") lines.push("Output:", "", fenced(json(call.output), "json"));
+    } else {
+      // Message text is Markdown already; its own code fences are kept as written
+      lines.push(message.content);
+    }
+
+    const files = attachments.filter(a => a.message_id === message.id);
+    if (files.length > 0) {
+      lines.push("", "Attachments:", "");
+      for (const file of files) {
+        lines.push(`- [${file.filename ?? `attachment-${file.id}`}](${attachmentUrl(file.id)}) (${file.media_type}, ${file.size} bytes)`);
+      }
+    }
+    return lines.join("\n");
+  });
+
+  return [
+    `# ${titleLine(chat)}`,
+    chatFacts(chat, now).map(([name, value]) => `- ${name}: ${value}`).join("\n"),
+    ...sections,
+  ].join("\n\n") + "\n";
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function codeBlock(code: string, language = ""): string {
+  const attribute = language ? ` class="language-${escapeHtml(language)}"` : "";
+  return `<pre><code${attribute}>${escapeHtml(code)}</code></pre>`;
+}
+
+// Message text as HTML: fenced code blocks become <pre>, the rest paragraphs.
+// Other Markdown is left as written.
+function textToHtml(text: string): string {
+  const html: string[] = [];
+  let paragraph: string[] = [];
+  let code: { fence: string; language: string; lines: string[] } | null = null;
+
+  const flush = () => {
+    if (paragraph.length > 0) html.push(`<p>${paragraph.map(escapeHtml).join("<br>\n")}</p>`);
+    paragraph = [];
+  };
+
+  for (const line of text.split("\n")) {
+    if (code) {
+      const closing = line.trim();
+      if (closing.startsWith(code.fence) && /^(`+|~+)$/.test(closing)) {
+        html.push(codeBlock(code.lines.join("\n"), code.language));
+        code = null;
+      } else {
+        code.lines.push(line);
+      }
+      continue;
+    }
+
+    const opening = /^ {0,3}(`{3,}|~{3,})\s*([^`\s]*)/.exec(line);
+    if (opening) {
+      flush();
+      code = { fence: opening[1], language: opening[2], lines: [] };
+    } else if (line.trim() === "") {
+      flush();
+    } else {
+      paragraph.push(line);
+    }
+  }
+  // An unclosed fence runs to the end, as in Markdown
+  if (code) html.push(codeBlock(code.lines.join("\n"), code.language));
+  flush();
+  return html.join("\n");
+}
+
+const HTML_STYLE = `
+  body { font-family: system-ui, sans-serif; max-width: 48rem; margin: 2rem auto; padding: 0 1rem; line-height: 1.5; }
+  article { border-top: 1px solid #ddd; padding: 0.5rem 0; }
+  h2 { font-size: 1rem; margin: 0.5rem 0; }
+  time { color: #666; font-weight: normal; }
+  pre { background: #f5f5f5; padding: 0.75rem; overflow-x: auto; }
+  .user h2 { color: #1a5fb4; }
+  .assistant h2 { color: #26a269; }
+  .tool h2 { color: #865e3c; }`;
+
+export function exportHtml(chat: Chat, messages: DBMessages[], attachments: Attachment[], now = new Date()): string {
+  const articles = messages.map(message => {
+    const body: string[] = [];
+    const call = message.tool_call;
+    if (call) {
+      body.push("<p>Input:</p>", codeBlock(json(call.input ?? {}), "json"));
+      if (call.error !== undefined) body.push(`<p>Error: ${escapeHtml(call.error)}</p>`);
+      else if (message.status !== "pending") body.push("<p>Output:</p>", codeBlock(json(call.output), "json"));
+    } else {
+      body.push(textToHtml(message.content));
+    }
+
+    const files = attachments.filter(a => a.message_id === message.id);
+    if (files.length > 0) {
+      const items = files.map(file =>
+        `<li><a href="${attachmentUrl(file.id)}">${escapeHtml(file.filename ?? `attachment-${file.id}`)}</a> ` +
+        `(${escapeHtml(file.media_type)}, ${file.size} bytes)</li>`
+      );
+      body.push(`<p>Attachments:</p>\n<ul>\n${items.join("\n")}\n</ul>`);
+    }
+
+    const time = `<time datetime="${new Date(message.created_at).toISOString()}">${timestamp(message.created_at)}</time>`;
+    return [
+      `<article class="${message.role}">`,
+      `<h2>${escapeHtml(label(message))} ${time}</h2>`,
+      ...body,
+      "</article>",
+    ].join("\n");
+  });
+
+  const facts = chatFacts(chat, now).map(([name, value]) => `<li>${name}: ${escapeHtml(value)}</li>`);
+  return [
+    "<!DOCTYPE html>",
+    '<html lang="en">',
+    "<head>",
+    '<meta charset="utf-8">',
+    `<title>${escapeHtml(titleLine(chat))}</title>`,
+    `<style>${HTML_STYLE}\n</style>`,
+    "</head>",
+    "<body>",
+    `<h1>${escapeHtml(titleLine(chat))}</h1>`,
+    `<ul>\n${facts.join("\n")}\n</ul>`,
+    ...articles,
+    "</body>",
+    "</html>",
+  ].join("\n") + "\n";
+}
@@ -0,0 +1,283 @@
+import { getModel } from "../models/registry";
+import { HistoryMessage, MessageStatus, MessageUsage, NewChat } from "../storage";
+import { MAX_ATTACHMENT_BYTES } from "./attachments";
+import { CHAT_EXPORT_VERSION } from "./export";
+import { validateSettings } from "./settings";
+
+// Body of POST /chats/import: one chat or an array of them, each either
+// our JSON export (src/chat/export.ts) or a conversation from an OpenAI
+// (ChatGPT) data export's conversations.json
+export type ImportSource = "export" | "openai";
+
+export interface SkippedMessage {
+  // Id in the source
+  id: number | string | null;
+  reason: string;
+}
+
+// A chat ready for createChatWithHistory, or why it cannot be imported
+export interface ParsedChat {
+  source: ImportSource | null;
+  title: string | null;
+  chat?: NewChat;
+  history?: HistoryMessage[];
+  skipped: SkippedMessage[];
+  warnings: string[];
+  error?: string;
+}
+
+// One entry of the POST /chats/import response
+export interface ImportReport {
+  // Position in the request body
+  index: number;
+  source: ImportSource | null;
+  title: string | null;
+  status: "imported" | "skipped" | "failed";
+  chatId: number | null;
+  // Messages saved
+  messages: number;
+  skippedMessages: SkippedMessage[];
+  warnings: string[];
+  error?: string;
+}
+
+const MAX_TITLE_LENGTH = 255;
+const IMPORTABLE_STATUSES: MessageStatus[] = ["complete", "stopped", "denied"];
+
+type Json = Record<string, any>;
+
+function isObject(value: unknown): value is Json {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isoTime(value: unknown): string | null {
+  if (typeof value !== "string" && typeof value !== "number") return null;
+  const time = new Date(value).getTime();
+  return isNaN(time) ? null : new Date(time).toISOString();
+}
+
+// OpenAI exports count seconds since the epoch, with a fraction. Null for
+// anything else, including times a Date cannot hold.
+function unixTime(value: unknown): string | null {
+  if (typeof value !== "number") return null;
+  const date = new Date(value * 1000);
+  return Number.isFinite(date.getTime()) ? date.toISOString() : null;
+}
+
+// Set but not a time we can store: the conversation is rejected rather than misdated
+function invalidUnixTime(value: unknown): boolean {
+  return value !== undefined && value !== null && unixTime(value) === null;
+}
+
+function titleOf(value: unknown, fallback: string): string {
+  const title = typeof value === "string" ? value.trim() : "";
+  return (title || fallback).substring(0, MAX_TITLE_LENGTH);
+}
+
+export function parseImport(body: unknown, ownerId: number): ParsedChat[] | { error: string } {
+  const items = Array.isArray(body) ? body : [body];
+  if (items.length === 0 || !items.every(isObject)) {
+    return { error: "Body must be a chat export, a conversations.json array, or an array of exports" };
+  }
+  return items.map(item => {
+    if ("mapping" in item) return parseOpenAIConversation(item, ownerId);
+    if ("version" in item && "chat" in item) return parseExport(item, ownerId);
+    return { source: null, title: null, skipped: [], warnings: [], error: "Unrecognized chat format" };
+  });
+}
+
+function exportedUsage(message: Json): MessageUsage | null {
+  const { model, prompt_tokens, completion_tokens, latency_ms, usage_estimated } = message;
+  if (typeof model !== "string" || !Number.isInteger(prompt_tokens) || !Number.isInteger(completion_tokens)) {
+    return null;
+  }
+  return {
+    model,
+    prompt_tokens,
+    completion_tokens,
+    latency_ms: Number.isInteger(latency_ms) ? latency_ms : 0,
+    usage_estimated: usage_estimated === true,
+  };
+}
+
+function exportedAttachments(
+  message: Json,
+  ownerId: number,
+  warnings: string[]
+): NonNullable<HistoryMessage["attachments"]> {
+  if (!Array.isArray(message.attachments)) return [];
+
+  return message.attachments.flatMap((file: unknown, i: number) => {
+    const where = `message ${message.id} attachment ${i + 1}`;
+    if (!isObject(file) || typeof file.media_type !== "string" || typeof file.data !== "string") {
+      warnings.push(`${where} skipped: media_type and base64 data are required`);
+      return [];
+    }
+    const data = Buffer.from(file.data, "base64");
+    if (data.length > MAX_ATTACHMENT_BYTES) {
+      warnings.push(`${where} skipped: larger than ${MAX_ATTACHMENT_BYTES} bytes`);
+      return [];
+    }
+    const filename = typeof file.filename === "string" ? file.filename : null;
+    const createdAt = isoTime(file.created_at) ?? undefined;
+    return [{ owner_id: ownerId, media_type: file.media_type, filename, data, created_at: createdAt }];
+  });
+}
+
+// Our own export: rows as stored, checked one by one
+function parseExport(item: Json, ownerId: number): ParsedChat {
+  const result: ParsedChat = { source: "export", title: null, skipped: [], warnings: [] };
+  if (!Number.isInteger(item.version) || item.version < 1 || item.version > CHAT_EXPORT_VERSION) {
+    return { ...result, error: `Unsupported export version ${JSON.stringify(item.version)}` };
+  }
+  const { chat, messages } = item;
+  if (!isObject(chat) || !Array.isArray(messages)) {
+    return { ...result, error: "chat must be an object and messages an array" };
+  }
+  result.title = titleOf(chat.title, "Imported chat");
+
+  let model: string | null = null;
+  if (typeof chat.model === "string") {
+    if (getModel(chat.model)) model = chat.model;
+    else result.warnings.push(`Unknown model "${chat.model}"; the default model is used`);
+  }
+  const settingsError = chat.settings === undefined ? null : validateSettings(chat.settings);
+  if (settingsError) result.warnings.push(`Settings not imported: ${settingsError}`);
+
+  const createdAt = isoTime(chat.created_at) ?? isoTime(item.exported_at) ?? undefined;
+  const history: HistoryMessage[] = [];
+  for (const message of messages) {
+    const id = isObject(message) && (typeof message.id === "number" || typeof message.id === "string") ? message.id : null;
+    const skip = (reason: string) => result.skipped.push({ id, reason });
+
+    if (!isObject(message)) { skip("not an object"); continue; }
+    if (!["user", "assistant", "tool"].includes(message.role)) { skip(`unknown role ${JSON.stringify(message.role)}`); continue; }
+    if (typeof message.content !== "string") { skip("content must be a string"); continue; }
+    if (message.status === "pending") { skip("tool call was awaiting approval"); continue; }
+
+    const status = message.status ?? "complete";
+    if (!IMPORTABLE_STATUSES.includes(status)) { skip(`unknown status ${JSON.stringify(status)}`); continue; }
+    const call = message.tool_call;
+    if (message.role === "tool" && !(isObject(call) && typeof call.id === "string" && typeof call.name === "string")) {
+      skip("tool message without a tool_call id and name");
+      continue;
+    }
+
+    const created = isoTime(message.created_at);
+    if (!created) result.warnings.push(`message ${id}: invalid created_at; the previous message's time is used`);
+    history.push({
+      role: message.role,
+      content: message.content,
+      status,
+      created_at: created ?? history[history.length - 1]?.created_at ?? createdAt ?? new Date().toISOString(),
+      tool_call: message.role === "tool" ? (call as HistoryMessage["tool_call"]) : null,
+      structured_output: message.structured_output ?? undefined,
+      usage: exportedUsage(message),
+      attachments: exportedAttachments(message, ownerId, result.warnings),
+    });
+  }
+
+  if (history.length === 0) return { ...result, error: "No messages to import" };
+  return {
+    ...result,
+    chat: {
+      owner_id: ownerId,
+      title: result.title,
+      model,
+      settings: settingsError ? {} : chat.settings,
+      created_at: createdAt,
+      updated_at: isoTime(chat.updated_at) ?? undefined,
+    },
+    history,
+  };
+}
+
+// Text of an OpenAI message, or why it has none we can keep
+function openAIText(content: unknown, warnings: string[], id: string): string | { reason: string } {
+  if (!isObject(content)) return { reason: "no content" };
+
+  switch (content.content_type) {
+    case "text":
+    case "multimodal_text": {
+      const parts: unknown[] = Array.isArray(content.parts) ? content.parts : [];
+      const dropped = parts.filter(part => typeof part !== "string").length;
+      if (dropped > 0) warnings.push(`message ${id}: ${dropped} image or file part(s) not imported`);
+      return parts.filter((part): part is string => typeof part === "string").join("\n\n");
+    }
+    case "code":
+      return typeof content.text === "string"
+        ? `\`\`\`${typeof content.language === "string" && content.language !== "unknown" ? content.language : ""}\n${content.text}\n\`\`\``
+        : { reason: "no content" };
+    default:
+      return { reason: `unsupported content type ${JSON.stringify(content.content_type)}` };
+  }
+}
+
+// conversations.json keeps every branch in "mapping"; the one shown in
+// ChatGPT runs from current_node up to the root
+function parseOpenAIConversation(item: Json, ownerId: number): ParsedChat {
+  const result: ParsedChat = { source: "openai", title: titleOf(item.title, "Imported conversation"), skipped: [], warnings: [] };
+  const mapping = item.mapping;
+  if (!isObject(mapping)) return { ...result, error: "mapping must be an object" };
+  for (const field of ["create_time", "update_time"]) {
+    if (invalidUnixTime(item[field])) return { ...result, error: `Invalid ${field} ${JSON.stringify(item[field])}` };
+  }
+
+  // Without current_node, follow the newest leaf
+  let nodeId: unknown = item.current_node;
+  if (typeof nodeId !== "string" || !isObject(mapping[nodeId])) {
+    const leaves = Object.values(mapping).filter(node => isObject(node) && !(node.children?.length > 0));
+    leaves.sort((a, b) => (a.message?.create_time ?? 0) - (b.message?.create_time ?? 0));
+    nodeId = leaves[leaves.length - 1]?.id;
+  }
+
+  const branch: Json[] = [];
+  const seen = new Set<string>();
+  while (typeof nodeId === "string" && isObject(mapping[nodeId]) && !seen.has(nodeId)) {
+    seen.add(nodeId);
+    branch.unshift(mapping[nodeId]);
+    nodeId = mapping[nodeId].parent;
+  }
+
+  const createdAt = unixTime(item.create_time) ?? undefined;
+  const history: HistoryMessage[] = [];
+  for (const node of branch) {
+    const message = node.message;
+    // The root and other structural nodes carry no message
+    if (!isObject(message)) continue;
+    const id = typeof message.id === "string" ? message.id : String(node.id ?? "");
+    const skip = (reason: string) => result.skipped.push({ id, reason });
+    if (invalidUnixTime(message.create_time)) {
+      return { ...result, error: `message ${id}: invalid create_time ${JSON.stringify(message.create_time)}` };
+    }
+
+    const role = message.author?.role;
+    if (role !== "user" && role !== "assistant") { skip(`${role ?? "unknown"} message`); continue; }
+    if (message.metadata?.is_visually_hidden_from_conversation) { skip("hidden message"); continue; }
+    // Assistant messages addressed to a tool (code, browsing) are calls, not replies
+    if (role === "assistant" && message.recipient && message.recipient !== "all") { skip(`call to ${message.recipient}`); continue; }
+
+    const text = openAIText(message.content, result.warnings, id);
+    if (typeof text !== "string") { skip(text.reason); continue; }
+    if (!text.trim()) { skip("empty message"); continue; }
+
+    history.push({
+      role,
+      content: text,
+      status: !message.status || message.status === "finished_successfully" ? "complete" : "stopped",
+      created_at: unixTime(message.create_time) ?? history[history.length - 1]?.created_at ?? createdAt ?? new Date().toISOString(),
+    });
+  }
+
+  if (history.length === 0) return { ...result, error: "No messages to import" };
+  return {
+    ...result,
+    chat: {
+      owner_id: ownerId,
+      title: result.title!,
+      created_at: createdAt,
+      updated_at: unixTime(item.update_time) ?? undefined,
+    },
+    history,
+  };
+}
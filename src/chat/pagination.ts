@@ -0,0 +1,92 @@
+import { Chat, ChatCursor } from "../storage";
+
+export const MAX_PAGE_SIZE = 100;
+
+// before and after are cursors handed out as nextCursor; at most one is given
+export interface PageQuery<K> {
+  limit?: number;
+  before?: K;
+  after?: K;
+}
+
+// Cursors are opaque to clients: base64url JSON of a row's sort key
+function encodeCursor(key: object): string {
+  return Buffer.from(JSON.stringify(key)).toString("base64url");
+}
+
+function decodeCursor(cursor: string): any {
+  try {
+    return JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+  } catch {
+    return null;
+  }
+}
+
+// updated_at is a Date with the SQL drivers and an ISO string in memory;
+// either way the cursor holds it in UTC, to the millisecond
+export function chatCursor(chat: Pick<Chat, "updated_at" | "id">): string {
+  return encodeCursor({ updated_at: new Date(chat.updated_at).toISOString(), id: chat.id });
+}
+
+export function parseChatCursor(cursor: string): ChatCursor | null {
+  const key = decodeCursor(cursor);
+  if (typeof key?.updated_at !== "string" || isNaN(Date.parse(key.updated_at))) return null;
+  return Number.isInteger(key.id) ? { updated_at: key.updated_at, id: key.id } : null;
+}
+
+export function messageCursor(message: { id: number }): string {
+  return encodeCursor({ id: message.id });
+}
+
+export function parseMessageCursor(cursor: string): number | null {
+  const key = decodeCursor(cursor);
+  return Number.isInteger(key?.id) ? key.id : null;
+}
+
+// Read limit, before and after from a query string
+export function parsePageQuery<K>(
+  query: Record<string, unknown>,
+  parseCursor: (cursor: string) => K | null
+): PageQuery<K> | { error: string } {
+  const page: PageQuery<K> = {};
+
+  if (query.limit !== undefined) {
+    const limit = Number(query.limit);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+      return { error: `limit must be an integer between 1 and ${MAX_PAGE_SIZE}` };
+    }
+    page.limit = limit;
+  }
+
+  if (query.before !== undefined && query.after !== undefined) {
+    return { error: "Use either before or after, not both" };
+  }
+  for (const name of ["before", "after"] as const) {
+    if (query[name] === undefined) continue;
+    const cursor = typeof query[name] === "string" ? parseCursor(query[name]) : null;
+    if (cursor === null) return { error: `Invalid ${name} cursor` };
+    page[name] = cursor;
+  }
+
+  return page;
+}
+
+// One page of a root-to-leaf path. Without a cursor it is the newest limit
+// messages; ids grow along a path, so cursors survive branch switches.
+// nextCursor continues in the same direction, or is null at the end.
+export function pagePath<T extends { id: number }>(
+  path: T[],
+  { limit, before, after }: PageQuery<number>
+): { messages: T[]; nextCursor: string | null } {
+  if (after !== undefined) {
+    const newer = path.filter(m => m.id > after);
+    const messages = limit === undefined ? newer : newer.slice(0, limit);
+    const more = messages.length < newer.length;
+    return { messages, nextCursor: more ? messageCursor(messages[messages.length - 1]) : null };
+  }
+
+  const older = before === undefined ? path : path.filter(m => m.id < before);
+  const messages = limit === undefined ? older : older.slice(Math.max(older.length - limit, 0));
+  const more = messages.length < older.length;
+  return { messages, nextCursor: more ? messageCursor(messages[0]) : null };
+}
@@ -0,0 +1,100 @@
+import {
+  AIMessage,
+  BaseMessage,
+  HumanMessage,
+  SystemMessage,
+  ToolMessage,
+} from "@langchain/core/messages";
+import { AttachmentWithData, DBMessages } from "../storage";
+import { isImage, isTextFile } from "./attachments";
+
+export type PromptMessage = Pick<DBMessages, "role" | "content"> & {
+  attachments?: AttachmentWithData[];
+  tool_call?: DBMessages["tool_call"];
+};
+
+export interface PromptOptions {
+  // Send images as image blocks; otherwise they are replaced by a note
+  vision?: boolean;
+}
+
+type ContentBlock =
+  | { type: "text"; text: string }
+  | { type: "image_url"; image_url: { url: string } };
+
+function attachmentBlock(attachment: AttachmentWithData, vision: boolean): ContentBlock {
+  const name = attachment.filename ?? `attachment ${attachment.id}`;
+
+  if (isImage(attachment.media_type) && vision) {
+    const url = `data:${attachment.media_type};base64,${attachment.data.toString("base64")}`;
+    return { type: "image_url", image_url: { url } };
+  }
+  if (isTextFile(attachment.media_type)) {
+    return { type: "text", text: `Attached file "${name}":\n\n${attachment.data.toString("utf8")}` };
+  }
+  return { type: "text", text: `[Attached file "${name}" (${attachment.media_type}) cannot be read by this model]` };
+}
+
+// User turns with attachments become content blocks: the text, then one block per file
+function userContent(message: PromptMessage, vision: boolean): string | ContentBlock[] {
+  if (!message.attachments?.length) return message.content;
+
+  const blocks: ContentBlock[] = message.content ? [{ type: "text", text: message.content }] : [];
+  return [...blocks, ...message.attachments.map(a => attachmentBlock(a, vision))];
+}
+
+// Convert stored chat turns into LangChain messages. Content is passed
+// through untouched (no templating), and only known roles are kept, so
+// neither "assistant:" typed by a user nor a stray "system" row can
+// change who is speaking.
+export function toLangChainMessages(
+  messages: PromptMessage[],
+  { vision = false }: PromptOptions = {}
+): BaseMessage[] {
+  const result: BaseMessage[] = [];
+  // Assistant turn that requested the run of tool results being converted
+  let callingTurn: AIMessage | null = null;
+
+  // Step of the calls in callingTurn; rows saved before steps were recorded have none
+  let callingStep: string | undefined;
+  // The row before was an assistant's text, so it may belong to the calls that follow
+  let afterText = false;
+
+  for (const message of messages) {
+    if (message.role === "tool" && message.tool_call) {
+      const { id, name, input, step } = message.tool_call;
+      if (!callingTurn || step !== callingStep) {
+        // Text the model wrote alongside the calls is stored as the row before
+        // them; the result of an earlier step never is
+        const text = afterText ? (result.pop() as AIMessage).content : "";
+        callingTurn = new AIMessage({ content: text, tool_calls: [] });
+        callingStep = step;
+        result.push(callingTurn);
+      }
+      callingTurn.tool_calls!.push({ id, name, args: (input ?? {}) as Record<string, unknown>, type: "tool_call" });
+      result.push(new ToolMessage({ content: message.content, tool_call_id: id, name }));
+      afterText = false;
+      continue;
+    }
+
+    callingTurn = null;
+    afterText = false;
+    if (message.role === "user") {
+      result.push(new HumanMessage({ content: userContent(message, vision) }));
+    } else if (message.role === "assistant" && message.content) {
+      // Replies that ended without text are stored empty, for their usage
+      result.push(new AIMessage(message.content));
+      afterText = true;
+    }
+  }
+
+  return result;
+}
+
+export function buildPrompt(
+  systemPrompt: string,
+  history: PromptMessage[],
+  options: PromptOptions = {}
+): BaseMessage[] {
+  return [new SystemMessage(systemPrompt), ...toLangChainMessages(history, options)];
+}
@@ -0,0 +1,70 @@
+import { Embedder, getEmbedder } from "../models/embeddings";
+import { ChatRepository, DBMessages, SemanticSearchResults } from "../storage";
+
+export interface SemanticOptions {
+  // Messages less similar to the query than this are left out
+  minScore: number;
+  // Characters of a message that get embedded; the rest is ignored
+  maxChars: number;
+  // Messages embedded per request by the backfill
+  batchSize: number;
+}
+
+export const semanticOptions: SemanticOptions = {
+  minScore: Number(process.env.SEMANTIC_MIN_SCORE ?? 0.1),
+  maxChars: Number(process.env.SEMANTIC_MAX_CHARS) || 8000,
+  batchSize: Number(process.env.SEMANTIC_BATCH_SIZE) || 64,
+};
+
+// Embed and store messages that have text; returns how many were stored
+export async function embedMessages(
+  repo: ChatRepository,
+  messages: DBMessages[],
+  { options = semanticOptions, embedder = getEmbedder() }: { options?: SemanticOptions; embedder?: Embedder } = {}
+): Promise<number> {
+  const withText = messages.filter(m => m.content.trim());
+  if (withText.length === 0) return 0;
+
+  const vectors = await embedder.embed(withText.map(m => m.content.slice(0, options.maxChars)));
+  await repo.saveMessageEmbeddings(
+    embedder.id,
+    withText.map((m, i) => ({ message_id: m.id, embedding: vectors[i] }))
+  );
+  return withText.length;
+}
+
+// Embed every message the embedder has not seen yet, a batch at a time;
+// returns the total embedded
+export async function backfillEmbeddings(
+  repo: ChatRepository,
+  {
+    options = semanticOptions,
+    embedder = getEmbedder(),
+    onBatch,
+  }: { options?: SemanticOptions; embedder?: Embedder; onBatch?: (embedded: number) => void } = {}
+): Promise<number> {
+  let total = 0;
+
+  for (;;) {
+    const batch = await repo.listUnembeddedMessages(embedder.id, options.batchSize);
+    if (batch.length === 0) return total;
+
+    const embedded = await embedMessages(repo, batch, { options, embedder });
+    // A batch that saves nothing would come back again on the next pass
+    if (embedded === 0) return total;
+    total += embedded;
+    onBatch?.(total);
+  }
+}
+
+// The owner's messages and chats ranked by similarity to the query
+export async function semanticSearch(
+  repo: ChatRepository,
+  query: string,
+  limit: number,
+  ownerId: number | null,
+  { options = semanticOptions, embedder = getEmbedder() }: { options?: SemanticOptions; embedder?: Embedder } = {}
+): Promise<SemanticSearchResults> {
+  const [embedding] = await embedder.embed([query]);
+  return repo.semanticSearch(embedder.id, embedding, options.minScore, limit, ownerId);
+}
@@ -0,0 +1,138 @@
+import { ModelDefaults } from "../models/registry";
+import { ChatSettings } from "../storage";
+import { defaultToolNames, getTool } from "../tools/registry";
+import { DEFAULT_CONTEXT_STRATEGY, isContextStrategy } from "./context";
+
+export const DEFAULT_SYSTEM_PROMPT = "You are a helpful AI assistant.";
+
+// Fully resolved settings for one generation
+export interface GenerationSettings {
+  systemPrompt: string;
+  temperature: number;
+  maxTokens: number;
+  topP?: number;
+  stop?: string[];
+  contextStrategy: string;
+  // Prompt token budget; defaults to the model's context window minus maxTokens
+  contextTokens?: number;
+  contextKeepFirst: number;
+  contextWindowSize: number;
+  // Only used with models that support tool calling
+  tools: string[];
+}
+
+// Body of PATCH /chats/:id/settings; null resets a field to the default
+export type ChatSettingsPatch = {
+  [K in keyof ChatSettings]?: ChatSettings[K] | null;
+};
+
+const MAX_STOP_SEQUENCES = 4;
+
+// Returns an error message, or null when the input is valid
+export function validateSettings(input: unknown, allowNull = false): string | null {
+  if (typeof input !== "object" || input === null || Array.isArray(input)) {
+    return "settings must be an object";
+  }
+
+  for (const [key, value] of Object.entries(input)) {
+    if (value === undefined || (allowNull && value === null)) continue;
+
+    switch (key) {
+      case "systemPrompt":
+        if (typeof value !== "string") return "systemPrompt must be a string";
+        break;
+      case "temperature":
+        if (typeof value !== "number" || value < 0 || value > 2) {
+          return "temperature must be a number between 0 and 2";
+        }
+        break;
+      case "maxTokens":
+        if (!Number.isInteger(value) || value < 1) {
+          return "maxTokens must be a positive integer";
+        }
+        break;
+      case "topP":
+        if (typeof value !== "number" || value <= 0 || value > 1) {
+          return "topP must be a number greater than 0 and at most 1";
+        }
+        break;
+      case "stop":
+        if (
+          !Array.isArray(value) ||
+          value.length > MAX_STOP_SEQUENCES ||
+          value.some(s => typeof s !== "string" || s.length === 0)
+        ) {
+          return `stop must be an array of at most ${MAX_STOP_SEQUENCES} non-empty strings`;
+        }
+        break;
+      case "contextStrategy":
+        if (typeof value !== "string" || !isContextStrategy(value)) {
+          return `Unknown context strategy "${value}"`;
+        }
+        break;
+      case "contextTokens":
+      case "contextWindowSize":
+        if (!Number.isInteger(value) || value < 1) {
+          return `${key} must be a positive integer`;
+        }
+        break;
+      case "contextKeepFirst":
+        if (!Number.isInteger(value) || value < 0) {
+          return "contextKeepFirst must be a non-negative integer";
+        }
+        break;
+      case "tools":
+        if (!Array.isArray(value) || value.some(name => typeof name !== "string")) {
+          return "tools must be an array of tool names";
+        }
+        for (const name of value) {
+          if (!getTool(name)) return `Unknown tool "${name}"`;
+        }
+        break;
+      default:
+        return `Unknown setting "${key}"`;
+    }
+  }
+
+  return null;
+}
+
+export function applySettingsPatch(current: ChatSettings, patch: ChatSettingsPatch): ChatSettings {
+  const next: Record<string, unknown> = { ...current };
+
+  for (const [key, value] of Object.entries(patch)) {
+    if (value === null) {
+      delete next[key];
+    } else if (value !== undefined) {
+      next[key] = value;
+    }
+  }
+
+  return next as ChatSettings;
+}
+
+// Later layers win: model defaults < chat settings < request overrides
+export function resolveGenerationSettings(
+  defaults: ModelDefaults,
+  ...layers: Array<ChatSettings | undefined>
+): GenerationSettings {
+  const resolved: GenerationSettings = {
+    systemPrompt: DEFAULT_SYSTEM_PROMPT,
+    temperature: defaults.temperature,
+    maxTokens: defaults.maxTokens,
+    contextStrategy: DEFAULT_CONTEXT_STRATEGY,
+    contextKeepFirst: 2,
+    contextWindowSize: 20,
+    tools: defaultToolNames(),
+  };
+
+  return layers.reduce<GenerationSettings>(
+    (settings, layer) => (layer ? { ...settings, ...definedSettings(layer) } : settings),
+    resolved
+  );
+}
+
+// Unset keys are dropped so they do not override earlier layers
+function definedSettings(settings: ChatSettings): ChatSettings {
+  return Object.fromEntries(Object.entries(settings).filter(([, value]) => value !== undefined && value !== null));
+}
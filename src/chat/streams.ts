@@ -0,0 +1,105 @@
+import { randomUUID } from "crypto";
+
+// One numbered SSE event; ids start at 1 so a Last-Event-ID of 0 means "from the start"
+export interface StreamEvent {
+  id: number;
+  data: string;
+}
+
+export interface StreamSubscriber {
+  send(event: StreamEvent): void;
+  close(): void;
+}
+
+export interface StreamOptions {
+  // How long a finished stream stays around for late reconnects
+  retainMs: number;
+  // How long a running stream may go without subscribers before it is abandoned
+  abandonAfterMs: number;
+}
+
+export const streamOptions: StreamOptions = {
+  retainMs: Number(process.env.STREAM_RETAIN_MS) || 60_000,
+  abandonAfterMs: Number(process.env.STREAM_ABANDON_AFTER_MS) || 15_000,
+};
+
+// A generation's buffered events, fanned out to whoever is connected
+export interface GenerationStream {
+  id: string;
+  chatId: number;
+  finished(): boolean;
+  push(data: string): void;
+  // Close every subscriber; the buffer is kept for options.retainMs
+  finish(): void;
+  // Replay events after lastEventId, then deliver live ones; returns an unsubscribe function
+  subscribe(subscriber: StreamSubscriber, lastEventId?: number): () => void;
+}
+
+export function createStreamRegistry(options: StreamOptions = streamOptions) {
+  const streams = new Map<string, GenerationStream>();
+
+  // onAbandoned runs when nobody has been subscribed for options.abandonAfterMs
+  const start = (chatId: number, onAbandoned: () => void): GenerationStream => {
+    const id = randomUUID();
+    const events: StreamEvent[] = [];
+    const subscribers = new Set<StreamSubscriber>();
+    let done = false;
+    let abandonTimer: NodeJS.Timeout | null = null;
+
+    const cancelAbandon = () => {
+      if (abandonTimer) clearTimeout(abandonTimer);
+      abandonTimer = null;
+    };
+
+    const stream: GenerationStream = {
+      id,
+      chatId,
+      finished: () => done,
+
+      push: (data) => {
+        if (done) return;
+        const event = { id: events.length + 1, data };
+        events.push(event);
+        for (const subscriber of subscribers) subscriber.send(event);
+      },
+
+      finish: () => {
+        if (done) return;
+        done = true;
+        cancelAbandon();
+        for (const subscriber of subscribers) subscriber.close();
+        subscribers.clear();
+        setTimeout(() => streams.delete(id), options.retainMs).unref();
+      },
+
+      subscribe: (subscriber, lastEventId = 0) => {
+        for (const event of events.slice(Math.max(lastEventId, 0))) subscriber.send(event);
+        if (done) {
+          subscriber.close();
+          return () => {};
+        }
+
+        cancelAbandon();
+        subscribers.add(subscriber);
+
+        return () => {
+          subscribers.delete(subscriber);
+          if (!done && subscribers.size === 0 && !abandonTimer) {
+            abandonTimer = setTimeout(() => {
+              abandonTimer = null;
+              if (!done && subscribers.size === 0) onAbandoned();
+            }, options.abandonAfterMs);
+          }
+        };
+      },
+    };
+
+    streams.set(id, stream);
+    return stream;
+  };
+
+  return {
+    start,
+    get: (id: string): GenerationStream | null => streams.get(id) ?? null,
+  };
+}
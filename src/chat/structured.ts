@@ -0,0 +1,72 @@
+import { JsonSchema, schemaError, validateJson } from "../tools/schema";
+
+// Asks for the answer as a JSON object matching a schema (body of POST /chat)
+export interface ResponseFormat {
+  type: "json_schema";
+  // Shown to the model; letters, digits, "_" and "-"
+  name?: string;
+  description?: string;
+  // Answers are checked against the keywords src/tools/schema.ts knows
+  schema: JsonSchema & { type: "object" };
+}
+
+export const structuredOutputOptions = {
+  // Further attempts after an answer that does not match the schema
+  retries: Number(process.env.STRUCTURED_OUTPUT_RETRIES ?? 2),
+};
+
+const DEFAULT_FORMAT_NAME = "response";
+
+// Returns an error message, or null when the input is valid
+export function validateResponseFormat(input: unknown): string | null {
+  if (typeof input !== "object" || input === null || Array.isArray(input)) {
+    return "responseFormat must be an object";
+  }
+  const { type, name, description, schema } = input as Record<string, unknown>;
+  if (type !== "json_schema") return 'responseFormat.type must be "json_schema"';
+  if (name !== undefined && (typeof name !== "string" || !/^[a-zA-Z0-9_-]{1,64}$/.test(name))) {
+    return "responseFormat.name must be 1-64 letters, digits, underscores or dashes";
+  }
+  if (description !== undefined && typeof description !== "string") {
+    return "responseFormat.description must be a string";
+  }
+  if (typeof schema !== "object" || schema === null || (schema as JsonSchema).type !== "object") {
+    return 'responseFormat.schema must be a JSON Schema with type "object"';
+  }
+  return schemaError(schema, "responseFormat.schema");
+}
+
+export function formatName(format: ResponseFormat): string {
+  return format.name ?? DEFAULT_FORMAT_NAME;
+}
+
+// Models without schema support only learn the shape from here
+export function withResponseFormat(systemPrompt: string, format: ResponseFormat | undefined): string {
+  if (!format) return systemPrompt;
+  const about = format.description ? ` (${format.description})` : "";
+  return `${systemPrompt}\n\nAnswer with a single JSON object${about} and nothing else: ` +
+    `no prose and no code fences. It must match this JSON Schema:\n${JSON.stringify(format.schema)}`;
+}
+
+// The answer parsed and checked; problems is empty when it can be used
+export function parseStructuredOutput(
+  text: string,
+  format: ResponseFormat
+): { value: unknown; problems: string[] } {
+  // Models asked for plain JSON still like to fence it
+  const fenced = text.trim().match(/^```(?:json)?\s*\n([\s\S]*?)\n?```$/i);
+  let value: unknown;
+  try {
+    value = JSON.parse(fenced ? fenced[1] : text);
+  } catch (err: any) {
+    return { value: undefined, problems: [`$: not valid JSON (${err.message})`] };
+  }
+  return { value, problems: validateJson(format.schema, value) };
+}
+
+// Sent back to the model after an answer that did not match
+export function retryInstructions(problems: string[]): string {
+  return "That answer does not match the required JSON Schema:\n" +
+    problems.map(problem => `- ${problem}`).join("\n") +
+    "\nReply again with only the corrected JSON object.";
+}
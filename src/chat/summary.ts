@@ -0,0 +1,95 @@
+import { HumanMessage, SystemMessage } from "@langchain/core/messages";
+import { createChatModel, ModelConfig } from "../models/registry";
+import { getTokenCounter } from "../models/tokens";
+import { Chat, ChatRepository, DBMessages } from "../storage";
+import { activePath } from "./tree";
+
+export interface SummaryOptions {
+  // Summarise once the unsummarised history exceeds this many tokens
+  thresholdTokens: number;
+  // Newest messages always left out of the summary and sent verbatim
+  keepRecent: number;
+}
+
+export const summaryOptions: SummaryOptions = {
+  thresholdTokens: Number(process.env.SUMMARY_THRESHOLD_TOKENS) || 2000,
+  keepRecent: Number(process.env.SUMMARY_KEEP_RECENT) || 6,
+};
+
+const SUMMARY_INSTRUCTIONS =
+  "You maintain a running summary of a conversation between a user and an AI assistant. " +
+  "Merge the new messages into the current summary. Keep facts, names, decisions, code " +
+  "identifiers and open questions; drop small talk. Reply with the updated summary only.";
+
+// Split the active path into the running summary and the turns after it.
+// A summary taken on another branch (e.g. before an edit) does not apply.
+export function splitAtSummary<T extends Pick<DBMessages, "id">>(
+  chat: Chat,
+  path: T[]
+): { summary: string | null; pending: T[] } {
+  const index = chat.summary_message_id === null
+    ? -1
+    : path.findIndex(m => m.id === chat.summary_message_id);
+
+  return index === -1
+    ? { summary: null, pending: path }
+    : { summary: chat.summary, pending: path.slice(index + 1) };
+}
+
+// System prompt with the running summary appended, used in place of the summarised turns
+export function withSummary(systemPrompt: string, summary: string | null): string {
+  if (!summary) return systemPrompt;
+  return `${systemPrompt}\n\nSummary of the earlier conversation:\n${summary}`;
+}
+
+function speaker(message: DBMessages): string {
+  if (message.role === "tool") return `Tool result (${message.tool_call?.name})`;
+  return message.role === "assistant" ? "Assistant" : "User";
+}
+
+// Fold older turns into the chat's summary. Unless forced, this only runs
+// once the unsummarised history passes the token threshold. Returns the
+// updated chat, or null when there was nothing to do.
+export async function summarizeChat(
+  repo: ChatRepository,
+  chat: Chat,
+  modelConfig: ModelConfig,
+  { force = false, options = summaryOptions }: { force?: boolean; options?: SummaryOptions } = {}
+): Promise<Chat | null> {
+  const path = activePath(await repo.listMessages(chat.id), chat.active_message_id);
+  const { summary: currentSummary, pending } = splitAtSummary(chat, path);
+
+  if (!force) {
+    const counter = getTokenCounter(modelConfig);
+    const pendingTokens = pending.reduce((total, m) => total + counter.count(m.content), 0);
+    if (pendingTokens < options.thresholdTokens) return null;
+  }
+
+  const toFold = pending.slice(0, Math.max(pending.length - options.keepRecent, 0));
+  if (toFold.length === 0) return null;
+
+  const transcript = toFold
+    .map(m => `${speaker(m)}: ${m.content}`)
+    .join("\n\n");
+
+  const model = createChatModel(modelConfig, { temperature: 0.2 });
+  // Streamed rather than invoke()d: invoke on a streaming model estimates
+  // usage with a tokenizer that is downloaded at runtime, which stalls offline
+  const stream = await model.stream([
+    new SystemMessage(SUMMARY_INSTRUCTIONS),
+    new HumanMessage(
+      `Current summary:\n${currentSummary ?? "(none yet)"}\n\nNew messages:\n${transcript}`
+    ),
+  ]);
+
+  let summary = "";
+  for await (const chunk of stream) {
+    summary += chunk.text;
+  }
+  summary = summary.trim();
+  if (!summary) {
+    throw new Error("Model returned an empty summary");
+  }
+
+  return repo.updateChatSummary(chat.id, summary, toFold[toFold.length - 1].id);
+}
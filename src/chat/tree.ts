@@ -0,0 +1,37 @@
+import { DBMessages } from "../storage";
+
+export type TreeMessage = Pick<DBMessages, "id" | "parent_id">;
+
+function childrenOf<T extends TreeMessage>(messages: T[], parentId: number | null): T[] {
+  return messages.filter(m => m.parent_id === parentId).sort((a, b) => a.id - b.id);
+}
+
+// Root-to-leaf list of messages ending at leafId
+export function activePath<T extends TreeMessage>(messages: T[], leafId: number | null): T[] {
+  const byId = new Map(messages.map(m => [m.id, m]));
+  const path: T[] = [];
+
+  let current = leafId === null ? undefined : byId.get(leafId);
+  while (current) {
+    path.unshift(current);
+    current = current.parent_id === null ? undefined : byId.get(current.parent_id);
+  }
+
+  return path;
+}
+
+// Follow the newest child down from a message to find its branch's leaf
+export function latestLeaf<T extends TreeMessage>(messages: T[], fromId: number): number {
+  let leafId = fromId;
+
+  for (;;) {
+    const children = childrenOf(messages, leafId);
+    if (children.length === 0) return leafId;
+    leafId = children[children.length - 1].id;
+  }
+}
+
+// Alternatives for a message (itself included), oldest first
+export function siblingsOf<T extends TreeMessage>(messages: T[], message: T): T[] {
+  return childrenOf(messages, message.parent_id);
+}
@@ -0,0 +1,96 @@
+import { getModel } from "../models/registry";
+import { UsageFilter, UsageTotals } from "../storage";
+
+export interface UsageSummary {
+  messages: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  // USD at the registry's prices; null when a model has no price
+  cost: number | null;
+  avgLatencyMs: number;
+  // Replies whose token counts are estimates
+  estimatedMessages: number;
+}
+
+// USD for the tokens at the model's price, or null for models no longer in the registry
+export function usageCost(modelId: string, promptTokens: number, completionTokens: number): number | null {
+  const pricing = getModel(modelId)?.pricing;
+  if (!pricing) return null;
+  return (promptTokens * pricing.prompt + completionTokens * pricing.completion) / 1_000_000;
+}
+
+export function summarizeUsage(rows: UsageTotals[]): UsageSummary {
+  const summary: UsageSummary = {
+    messages: 0,
+    promptTokens: 0,
+    completionTokens: 0,
+    totalTokens: 0,
+    cost: 0,
+    avgLatencyMs: 0,
+    estimatedMessages: 0,
+  };
+  let latency = 0;
+
+  for (const row of rows) {
+    const cost = usageCost(row.model, row.prompt_tokens, row.completion_tokens);
+    summary.messages += row.messages;
+    summary.promptTokens += row.prompt_tokens;
+    summary.completionTokens += row.completion_tokens;
+    summary.cost = summary.cost === null || cost === null ? null : summary.cost + cost;
+    summary.estimatedMessages += row.estimated;
+    latency += row.avg_latency_ms * row.messages;
+  }
+
+  summary.totalTokens = summary.promptTokens + summary.completionTokens;
+  // Rounded to a millionth of a dollar to hide floating point noise
+  if (summary.cost !== null) summary.cost = Math.round(summary.cost * 1_000_000) / 1_000_000;
+  summary.avgLatencyMs = summary.messages ? Math.round(latency / summary.messages) : 0;
+  return summary;
+}
+
+function groupBy<K extends "day" | "model">(rows: UsageTotals[], key: K) {
+  const groups = new Map<string, UsageTotals[]>();
+  for (const row of rows) {
+    groups.set(row[key], [...(groups.get(row[key]) ?? []), row]);
+  }
+  return [...groups].map(([value, group]) => ({ [key]: value, ...summarizeUsage(group) }) as Record<K, string> & UsageSummary);
+}
+
+// Totals overall, per model and per day (oldest first)
+export function usageReport(rows: UsageTotals[]) {
+  return {
+    total: summarizeUsage(rows),
+    byModel: groupBy(rows, "model"),
+    byDay: groupBy(rows, "day"),
+  };
+}
+
+// A date (YYYY-MM-DD) or timestamp; a date as `to` includes that whole day
+function parseBound(value: string, end: boolean): string | null {
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    const day = new Date(`${value}T00:00:00Z`);
+    if (isNaN(day.getTime())) return null;
+    if (end) day.setUTCDate(day.getUTCDate() + 1);
+    return day.toISOString();
+  }
+  const time = Date.parse(value);
+  return isNaN(time) ? null : new Date(time).toISOString();
+}
+
+// Read from and to from a query string
+export function parseUsageRange(query: Record<string, unknown>): UsageFilter | { error: string } {
+  const range: UsageFilter = {};
+
+  for (const name of ["from", "to"] as const) {
+    if (query[name] === undefined) continue;
+    const bound = typeof query[name] === "string" ? parseBound(query[name], name === "to") : null;
+    if (bound === null) return { error: `${name} must be a date (YYYY-MM-DD) or timestamp` };
+    range[name] = bound;
+  }
+
+  if (range.from && range.to && range.from >= range.to) {
+    return { error: "from must be before to" };
+  }
+  return range;
+}
@@ -0,0 +1,57 @@
+import { neon } from "@neondatabase/serverless";
+import { Pool } from "pg";
+
+export interface SqlQuery {
+  text: string;
+  params?: unknown[];
+}
+
+// Minimal driver-agnostic interface shared by the migrator and the SQL
+// repository. Rows are typed by the caller, which knows what it selected.
+export interface SqlClient {
+  query<T = unknown>(text: string, params?: unknown[]): Promise<T[]>;
+  // Runs all queries in one transaction and returns the rows of each
+  transaction(queries: SqlQuery[]): Promise<unknown[][]>;
+  close(): Promise<void>;
+}
+
+// Neon serverless driver (HTTP, non-interactive transactions)
+export function createNeonClient(connectionString: string): SqlClient {
+  const sql = neon(connectionString);
+
+  return {
+    query: async <T,>(text: string, params: unknown[] = []) => (await sql.query(text, params)) as T[],
+    transaction: async (queries) =>
+      (await sql.transaction(
+        queries.map(q => sql.query(q.text, q.params ?? []))
+      )) as unknown[][],
+    close: async () => {},
+  };
+}
+
+// Plain node-postgres pool, for a local or self-hosted Postgres
+export function createPgClient(connectionString: string): SqlClient {
+  const pool = new Pool({ connectionString });
+
+  return {
+    query: async <T,>(text: string, params: unknown[] = []) => (await pool.query(text, params)).rows as T[],
+    transaction: async (queries) => {
+      const client = await pool.connect();
+      try {
+        await client.query("BEGIN");
+        const results: unknown[][] = [];
+        for (const q of queries) {
+          results.push((await client.query(q.text, q.params ?? [])).rows);
+        }
+        await client.query("COMMIT");
+        return results;
+      } catch (error) {
+        await client.query("ROLLBACK");
+        throw error;
+      } finally {
+        client.release();
+      }
+    },
+    close: () => pool.end(),
+  };
+}
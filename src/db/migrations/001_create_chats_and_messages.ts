@@ -0,0 +1,29 @@
+import type { Migration } from "../migrator";
+
+// IF NOT EXISTS lets databases created by the old initializeDatabase()
+// adopt the migration without losing data
+const migration: Migration = {
+  id: 1,
+  name: "create_chats_and_messages",
+  up: [
+    `CREATE TABLE IF NOT EXISTS chats (
+      id SERIAL PRIMARY KEY,
+      title VARCHAR(255) NOT NULL,
+      created_at TIMESTAMP DEFAULT NOW(),
+      updated_at TIMESTAMP DEFAULT NOW()
+    )`,
+    `CREATE TABLE IF NOT EXISTS messages (
+      id SERIAL PRIMARY KEY,
+      chat_id INTEGER REFERENCES chats(id) ON DELETE CASCADE,
+      role VARCHAR(50) NOT NULL,
+      content TEXT NOT NULL,
+      created_at TIMESTAMP DEFAULT NOW()
+    )`,
+  ],
+  down: [
+    "DROP TABLE IF EXISTS messages",
+    "DROP TABLE IF EXISTS chats",
+  ],
+};
+
+export default migration;
@@ -0,0 +1,15 @@
+import type { Migration } from "../migrator";
+
+// Registry id of the model selected for the chat (see src/models/registry.ts)
+const migration: Migration = {
+  id: 2,
+  name: "add_chat_model",
+  up: [
+    "ALTER TABLE chats ADD COLUMN IF NOT EXISTS model VARCHAR(255)",
+  ],
+  down: [
+    "ALTER TABLE chats DROP COLUMN IF EXISTS model",
+  ],
+};
+
+export default migration;
@@ -0,0 +1,15 @@
+import type { Migration } from "../migrator";
+
+// Per-chat system prompt and generation settings (see ChatSettings)
+const migration: Migration = {
+  id: 3,
+  name: "add_chat_settings",
+  up: [
+    "ALTER TABLE chats ADD COLUMN IF NOT EXISTS settings JSONB NOT NULL DEFAULT '{}'::jsonb",
+  ],
+  down: [
+    "ALTER TABLE chats DROP COLUMN IF EXISTS settings",
+  ],
+};
+
+export default migration;
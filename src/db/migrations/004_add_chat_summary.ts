@@ -0,0 +1,19 @@
+import type { Migration } from "../migrator";
+
+// Rolling summary of older turns; summary_message_id is the last message it covers
+const migration: Migration = {
+  id: 4,
+  name: "add_chat_summary",
+  up: [
+    "ALTER TABLE chats ADD COLUMN IF NOT EXISTS summary TEXT",
+    "ALTER TABLE chats ADD COLUMN IF NOT EXISTS summary_message_id INTEGER",
+    "ALTER TABLE chats ADD COLUMN IF NOT EXISTS summary_updated_at TIMESTAMP",
+  ],
+  down: [
+    "ALTER TABLE chats DROP COLUMN IF EXISTS summary_updated_at",
+    "ALTER TABLE chats DROP COLUMN IF EXISTS summary_message_id",
+    "ALTER TABLE chats DROP COLUMN IF EXISTS summary",
+  ],
+};
+
+export default migration;
@@ -0,0 +1,36 @@
+import type { Migration } from "../migrator";
+
+// Messages form a tree so edits and regenerations can keep earlier versions
+// as siblings. chats.active_message_id is the leaf of the branch being shown.
+// Existing chats are linear, so each message's parent is the one before it.
+const migration: Migration = {
+  id: 5,
+  name: "add_message_tree",
+  up: [
+    "ALTER TABLE messages ADD COLUMN IF NOT EXISTS parent_id INTEGER REFERENCES messages(id) ON DELETE CASCADE",
+    "ALTER TABLE chats ADD COLUMN IF NOT EXISTS active_message_id INTEGER REFERENCES messages(id) ON DELETE SET NULL",
+    "CREATE INDEX IF NOT EXISTS messages_parent_id_idx ON messages(parent_id)",
+    `UPDATE messages
+     SET parent_id = ordered.prev_id
+     FROM (
+       SELECT id, LAG(id) OVER (PARTITION BY chat_id ORDER BY created_at, id) AS prev_id
+       FROM messages
+     ) AS ordered
+     WHERE messages.id = ordered.id AND messages.parent_id IS NULL`,
+    `UPDATE chats
+     SET active_message_id = (
+       SELECT id FROM messages
+       WHERE messages.chat_id = chats.id
+       ORDER BY created_at DESC, id DESC
+       LIMIT 1
+     )
+     WHERE active_message_id IS NULL`,
+  ],
+  down: [
+    "ALTER TABLE chats DROP COLUMN IF EXISTS active_message_id",
+    "DROP INDEX IF EXISTS messages_parent_id_idx",
+    "ALTER TABLE messages DROP COLUMN IF EXISTS parent_id",
+  ],
+};
+
+export default migration;
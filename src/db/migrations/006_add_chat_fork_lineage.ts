@@ -0,0 +1,17 @@
+import type { Migration } from "../migrator";
+
+// Where a forked chat was copied from; kept (as NULL) if the source goes away
+const migration: Migration = {
+  id: 6,
+  name: "add_chat_fork_lineage",
+  up: [
+    "ALTER TABLE chats ADD COLUMN IF NOT EXISTS forked_from_chat_id INTEGER REFERENCES chats(id) ON DELETE SET NULL",
+    "ALTER TABLE chats ADD COLUMN IF NOT EXISTS forked_from_message_id INTEGER REFERENCES messages(id) ON DELETE SET NULL",
+  ],
+  down: [
+    "ALTER TABLE chats DROP COLUMN IF EXISTS forked_from_message_id",
+    "ALTER TABLE chats DROP COLUMN IF EXISTS forked_from_chat_id",
+  ],
+};
+
+export default migration;
@@ -0,0 +1,15 @@
+import type { Migration } from "../migrator";
+
+// Whether a reply finished normally or was cut short ("stopped")
+const migration: Migration = {
+  id: 7,
+  name: "add_message_status",
+  up: [
+    "ALTER TABLE messages ADD COLUMN IF NOT EXISTS status VARCHAR(20) NOT NULL DEFAULT 'complete'",
+  ],
+  down: [
+    "ALTER TABLE messages DROP COLUMN IF EXISTS status",
+  ],
+};
+
+export default migration;
@@ -0,0 +1,25 @@
+import type { Migration } from "../migrator";
+
+// Files and images sent with messages; message_id is NULL for uploads
+// that have not been sent yet
+const migration: Migration = {
+  id: 8,
+  name: "create_attachments",
+  up: [
+    `CREATE TABLE IF NOT EXISTS attachments (
+      id SERIAL PRIMARY KEY,
+      message_id INTEGER REFERENCES messages(id) ON DELETE CASCADE,
+      media_type VARCHAR(255) NOT NULL,
+      filename VARCHAR(255),
+      size INTEGER NOT NULL,
+      data BYTEA NOT NULL,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    )`,
+    "CREATE INDEX IF NOT EXISTS attachments_message_id_idx ON attachments(message_id)",
+  ],
+  down: [
+    "DROP TABLE IF EXISTS attachments",
+  ],
+};
+
+export default migration;
@@ -0,0 +1,37 @@
+import type { Migration } from "../migrator";
+
+// Documents uploaded to a chat for retrieval, split into embedded chunks.
+// Embeddings are plain REAL[] compared by exact search within one chat, so
+// no extension (pgvector) is needed; per-chat document sets are small.
+const migration: Migration = {
+  id: 9,
+  name: "create_documents",
+  up: [
+    `CREATE TABLE IF NOT EXISTS documents (
+      id SERIAL PRIMARY KEY,
+      chat_id INTEGER NOT NULL REFERENCES chats(id) ON DELETE CASCADE,
+      filename VARCHAR(255),
+      media_type VARCHAR(255) NOT NULL,
+      size INTEGER NOT NULL,
+      embedder VARCHAR(255) NOT NULL,
+      chunk_count INTEGER NOT NULL,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    )`,
+    `CREATE TABLE IF NOT EXISTS document_chunks (
+      id SERIAL PRIMARY KEY,
+      document_id INTEGER NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+      chat_id INTEGER NOT NULL REFERENCES chats(id) ON DELETE CASCADE,
+      chunk_index INTEGER NOT NULL,
+      content TEXT NOT NULL,
+      embedding REAL[] NOT NULL
+    )`,
+    "CREATE INDEX IF NOT EXISTS documents_chat_id_idx ON documents(chat_id)",
+    "CREATE INDEX IF NOT EXISTS document_chunks_chat_id_idx ON document_chunks(chat_id)",
+  ],
+  down: [
+    "DROP TABLE IF EXISTS document_chunks",
+    "DROP TABLE IF EXISTS documents",
+  ],
+};
+
+export default migration;
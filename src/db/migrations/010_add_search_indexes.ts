@@ -0,0 +1,18 @@
+import type { Migration } from "../migrator";
+
+// Full-text search over message contents and chat titles. Queries must use
+// the same to_tsvector('english', ...) expression for the indexes to apply.
+const migration: Migration = {
+  id: 10,
+  name: "add_search_indexes",
+  up: [
+    "CREATE INDEX IF NOT EXISTS messages_content_search_idx ON messages USING GIN (to_tsvector('english', content))",
+    "CREATE INDEX IF NOT EXISTS chats_title_search_idx ON chats USING GIN (to_tsvector('english', title))",
+  ],
+  down: [
+    "DROP INDEX IF EXISTS chats_title_search_idx",
+    "DROP INDEX IF EXISTS messages_content_search_idx",
+  ],
+};
+
+export default migration;
@@ -0,0 +1,26 @@
+import type { Migration } from "../migrator";
+
+// Message embeddings for semantic search, filled in the background after a
+// message is saved (and by the embeddings:backfill script for older ones).
+// One row per message and embedder, so switching embedders needs a backfill
+// but never mixes vectors from different models.
+const migration: Migration = {
+  id: 11,
+  name: "create_message_embeddings",
+  up: [
+    `CREATE TABLE IF NOT EXISTS message_embeddings (
+      message_id INTEGER NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+      chat_id INTEGER NOT NULL REFERENCES chats(id) ON DELETE CASCADE,
+      embedder VARCHAR(255) NOT NULL,
+      embedding REAL[] NOT NULL,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      PRIMARY KEY (message_id, embedder)
+    )`,
+    "CREATE INDEX IF NOT EXISTS message_embeddings_embedder_idx ON message_embeddings(embedder)",
+  ],
+  down: [
+    "DROP TABLE IF EXISTS message_embeddings",
+  ],
+};
+
+export default migration;
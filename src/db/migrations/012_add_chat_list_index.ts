@@ -0,0 +1,16 @@
+import type { Migration } from "../migrator";
+
+// Serves the paginated chat list, which sorts and compares on this exact
+// expression (millisecond precision, like the cursors)
+const migration: Migration = {
+  id: 12,
+  name: "add_chat_list_index",
+  up: [
+    "CREATE INDEX IF NOT EXISTS chats_list_idx ON chats ((date_trunc('milliseconds', updated_at)), id)",
+  ],
+  down: [
+    "DROP INDEX IF EXISTS chats_list_idx",
+  ],
+};
+
+export default migration;
@@ -0,0 +1,41 @@
+import type { Migration } from "../migrator";
+
+// Accounts, their API keys, and chat/upload ownership. Rows that predate
+// accounts keep a NULL owner until the first user to register adopts them.
+const migration: Migration = {
+  id: 13,
+  name: "create_users",
+  up: [
+    `CREATE TABLE IF NOT EXISTS users (
+      id SERIAL PRIMARY KEY,
+      email VARCHAR(255) NOT NULL UNIQUE,
+      password_hash TEXT NOT NULL,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    )`,
+    `CREATE TABLE IF NOT EXISTS api_keys (
+      id SERIAL PRIMARY KEY,
+      user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      name VARCHAR(255),
+      prefix VARCHAR(16) NOT NULL,
+      key_hash CHAR(64) NOT NULL UNIQUE,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      last_used_at TIMESTAMP
+    )`,
+    "CREATE INDEX IF NOT EXISTS api_keys_user_id_idx ON api_keys(user_id)",
+    "ALTER TABLE chats ADD COLUMN IF NOT EXISTS owner_id INTEGER REFERENCES users(id) ON DELETE CASCADE",
+    "ALTER TABLE attachments ADD COLUMN IF NOT EXISTS owner_id INTEGER REFERENCES users(id) ON DELETE CASCADE",
+    // The chat list is now always filtered by owner
+    "DROP INDEX IF EXISTS chats_list_idx",
+    "CREATE INDEX IF NOT EXISTS chats_owner_list_idx ON chats (owner_id, (date_trunc('milliseconds', updated_at)), id)",
+  ],
+  down: [
+    "DROP INDEX IF EXISTS chats_owner_list_idx",
+    "CREATE INDEX IF NOT EXISTS chats_list_idx ON chats ((date_trunc('milliseconds', updated_at)), id)",
+    "ALTER TABLE attachments DROP COLUMN IF EXISTS owner_id",
+    "ALTER TABLE chats DROP COLUMN IF EXISTS owner_id",
+    "DROP TABLE IF EXISTS api_keys",
+    "DROP TABLE IF EXISTS users",
+  ],
+};
+
+export default migration;
@@ -0,0 +1,24 @@
+import type { Migration } from "../migrator";
+
+// Running request and token counts for rate limits and quotas. One row per
+// subject (a user or an API key) and period; a row whose period has ended
+// starts again from zero on the next update, so the table stays small.
+const migration: Migration = {
+  id: 14,
+  name: "create_usage_counters",
+  up: [
+    `CREATE TABLE IF NOT EXISTS usage_counters (
+      subject VARCHAR(64) NOT NULL,
+      period VARCHAR(16) NOT NULL,
+      period_start TIMESTAMP NOT NULL,
+      requests INTEGER NOT NULL DEFAULT 0,
+      tokens INTEGER NOT NULL DEFAULT 0,
+      PRIMARY KEY (subject, period)
+    )`,
+  ],
+  down: [
+    "DROP TABLE IF EXISTS usage_counters",
+  ],
+};
+
+export default migration;
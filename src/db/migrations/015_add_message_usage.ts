@@ -0,0 +1,27 @@
+import type { Migration } from "../migrator";
+
+// Token counts, latency and model of generated replies, for cost reports
+const migration: Migration = {
+  id: 15,
+  name: "add_message_usage",
+  up: [
+    `ALTER TABLE messages
+      ADD COLUMN IF NOT EXISTS model VARCHAR(255),
+      ADD COLUMN IF NOT EXISTS prompt_tokens INTEGER,
+      ADD COLUMN IF NOT EXISTS completion_tokens INTEGER,
+      ADD COLUMN IF NOT EXISTS latency_ms INTEGER,
+      ADD COLUMN IF NOT EXISTS usage_estimated BOOLEAN`,
+    "CREATE INDEX IF NOT EXISTS messages_usage_idx ON messages (created_at) WHERE model IS NOT NULL",
+  ],
+  down: [
+    "DROP INDEX IF EXISTS messages_usage_idx",
+    `ALTER TABLE messages
+      DROP COLUMN IF EXISTS model,
+      DROP COLUMN IF EXISTS prompt_tokens,
+      DROP COLUMN IF EXISTS completion_tokens,
+      DROP COLUMN IF EXISTS latency_ms,
+      DROP COLUMN IF EXISTS usage_estimated`,
+  ],
+};
+
+export default migration;
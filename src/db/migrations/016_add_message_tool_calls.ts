@@ -0,0 +1,15 @@
+import type { Migration } from "../migrator";
+
+// The call behind each "tool" message: id, tool name, arguments and result
+const migration: Migration = {
+  id: 16,
+  name: "add_message_tool_calls",
+  up: [
+    "ALTER TABLE messages ADD COLUMN IF NOT EXISTS tool_call JSONB",
+  ],
+  down: [
+    "ALTER TABLE messages DROP COLUMN IF EXISTS tool_call",
+  ],
+};
+
+export default migration;
@@ -0,0 +1,15 @@
+import type { Migration } from "../migrator";
+
+// The parsed JSON answer of replies generated with a response format
+const migration: Migration = {
+  id: 17,
+  name: "add_message_structured_output",
+  up: [
+    "ALTER TABLE messages ADD COLUMN IF NOT EXISTS structured_output JSONB",
+  ],
+  down: [
+    "ALTER TABLE messages DROP COLUMN IF EXISTS structured_output",
+  ],
+};
+
+export default migration;
@@ -0,0 +1,48 @@
+import type { Migration } from "../migrator";
+
+// Store times as instants (TIMESTAMPTZ) rather than wall-clock times, so
+// values written with an offset (e.g. imported "Z" times) keep their meaning
+// and the drivers read them back the same in any time zone. Existing values
+// are taken to be in the session's time zone, which is what NOW() wrote.
+// Millisecond precision is all JavaScript keeps, so the chat list and its
+// cursors can compare updated_at itself instead of a truncated copy.
+const migration: Migration = {
+  id: 18,
+  name: "use_timestamptz",
+  up: [
+    "DROP INDEX IF EXISTS chats_owner_list_idx",
+    `ALTER TABLE chats
+       ALTER COLUMN created_at TYPE TIMESTAMPTZ(3),
+       ALTER COLUMN updated_at TYPE TIMESTAMPTZ(3),
+       ALTER COLUMN summary_updated_at TYPE TIMESTAMPTZ(3)`,
+    "ALTER TABLE messages ALTER COLUMN created_at TYPE TIMESTAMPTZ(3)",
+    "ALTER TABLE attachments ALTER COLUMN created_at TYPE TIMESTAMPTZ(3)",
+    "ALTER TABLE documents ALTER COLUMN created_at TYPE TIMESTAMPTZ(3)",
+    "ALTER TABLE message_embeddings ALTER COLUMN created_at TYPE TIMESTAMPTZ(3)",
+    "ALTER TABLE users ALTER COLUMN created_at TYPE TIMESTAMPTZ(3)",
+    `ALTER TABLE api_keys
+       ALTER COLUMN created_at TYPE TIMESTAMPTZ(3),
+       ALTER COLUMN last_used_at TYPE TIMESTAMPTZ(3)`,
+    "ALTER TABLE usage_counters ALTER COLUMN period_start TYPE TIMESTAMPTZ(3)",
+    "CREATE INDEX IF NOT EXISTS chats_owner_list_idx ON chats (owner_id, updated_at, id)",
+  ],
+  down: [
+    "DROP INDEX IF EXISTS chats_owner_list_idx",
+    "ALTER TABLE usage_counters ALTER COLUMN period_start TYPE TIMESTAMP",
+    `ALTER TABLE api_keys
+       ALTER COLUMN created_at TYPE TIMESTAMP,
+       ALTER COLUMN last_used_at TYPE TIMESTAMP`,
+    "ALTER TABLE users ALTER COLUMN created_at TYPE TIMESTAMP",
+    "ALTER TABLE message_embeddings ALTER COLUMN created_at TYPE TIMESTAMP",
+    "ALTER TABLE documents ALTER COLUMN created_at TYPE TIMESTAMP",
+    "ALTER TABLE attachments ALTER COLUMN created_at TYPE TIMESTAMP",
+    "ALTER TABLE messages ALTER COLUMN created_at TYPE TIMESTAMP",
+    `ALTER TABLE chats
+       ALTER COLUMN created_at TYPE TIMESTAMP,
+       ALTER COLUMN updated_at TYPE TIMESTAMP,
+       ALTER COLUMN summary_updated_at TYPE TIMESTAMP`,
+    "CREATE INDEX IF NOT EXISTS chats_owner_list_idx ON chats (owner_id, (date_trunc('milliseconds', updated_at)), id)",
+  ],
+};
+
+export default migration;
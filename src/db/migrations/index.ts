@@ -0,0 +1,42 @@
+import type { Migration } from "../migrator";
+import m001 from "./001_create_chats_and_messages";
+import m002 from "./002_add_chat_model";
+import m003 from "./003_add_chat_settings";
+import m004 from "./004_add_chat_summary";
+import m005 from "./005_add_message_tree";
+import m006 from "./006_add_chat_fork_lineage";
+import m007 from "./007_add_message_status";
+import m008 from "./008_create_attachments";
+import m009 from "./009_create_documents";
+import m010 from "./010_add_search_indexes";
+import m011 from "./011_create_message_embeddings";
+import m012 from "./012_add_chat_list_index";
+import m013 from "./013_create_users";
+import m014 from "./014_create_usage_counters";
+import m015 from "./015_add_message_usage";
+import m016 from "./016_add_message_tool_calls";
+import m017 from "./017_add_message_structured_output";
+import m018 from "./018_use_timestamptz";
+
+// Append new migrations here with the next id. Never edit or reorder
+// a migration once it has been applied anywhere.
+export const migrations: Migration[] = [
+  m001,
+  m002,
+  m003,
+  m004,
+  m005,
+  m006,
+  m007,
+  m008,
+  m009,
+  m010,
+  m011,
+  m012,
+  m013,
+  m014,
+  m015,
+  m016,
+  m017,
+  m018,
+];
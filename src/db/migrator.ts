@@ -0,0 +1,134 @@
+import { SqlClient } from "./client";
+import { migrations as allMigrations } from "./migrations";
+
+export interface Migration {
+  id: number;
+  name: string;
+  up: string[];
+  down: string[];
+}
+
+export interface AppliedMigration {
+  id: number;
+  name: string;
+  applied_at: string;
+}
+
+export interface MigrationStatus {
+  id: number;
+  name: string;
+  applied_at: string | null;
+  // Recorded in schema_migrations but missing from the codebase
+  missing: boolean;
+}
+
+const CREATE_MIGRATIONS_TABLE = `
+  CREATE TABLE IF NOT EXISTS schema_migrations (
+    id INTEGER PRIMARY KEY,
+    name VARCHAR(255) NOT NULL,
+    applied_at TIMESTAMP DEFAULT NOW()
+  )
+`;
+
+function validate(migrations: Migration[]) {
+  migrations.forEach((migration, index) => {
+    if (index > 0 && migration.id <= migrations[index - 1].id) {
+      throw new Error(
+        `Migrations must have unique, ascending ids (found ${migration.id} after ${migrations[index - 1].id})`
+      );
+    }
+  });
+}
+
+export async function getAppliedMigrations(client: SqlClient): Promise<AppliedMigration[]> {
+  await client.query(CREATE_MIGRATIONS_TABLE);
+  return client.query<AppliedMigration>(
+    "SELECT id, name, applied_at FROM schema_migrations ORDER BY id ASC"
+  );
+}
+
+// Apply every pending migration in order. Safe to call on every startup.
+export async function migrate(
+  client: SqlClient,
+  migrations: Migration[] = allMigrations
+): Promise<Migration[]> {
+  validate(migrations);
+
+  const applied = await getAppliedMigrations(client);
+  const appliedIds = new Set(applied.map(m => m.id));
+  const latestApplied = applied.length > 0 ? applied[applied.length - 1].id : 0;
+  const pending = migrations.filter(m => !appliedIds.has(m.id));
+
+  // Migrations are forward-only: never slot one in below what already ran
+  const outOfOrder = pending.find(m => m.id < latestApplied);
+  if (outOfOrder) {
+    throw new Error(
+      `Migration ${outOfOrder.id} (${outOfOrder.name}) is older than the latest applied migration ${latestApplied}`
+    );
+  }
+
+  for (const migration of pending) {
+    // The bookkeeping insert shares the transaction, so a concurrent
+    // startup applying the same migration fails on the primary key
+    await client.transaction([
+      ...migration.up.map(text => ({ text })),
+      {
+        text: "INSERT INTO schema_migrations (id, name) VALUES ($1, $2)",
+        params: [migration.id, migration.name],
+      },
+    ]);
+  }
+
+  return pending;
+}
+
+// Revert the most recently applied migrations, newest first
+export async function rollback(
+  client: SqlClient,
+  steps = 1,
+  migrations: Migration[] = allMigrations
+): Promise<Migration[]> {
+  validate(migrations);
+
+  const applied = await getAppliedMigrations(client);
+  const toRevert = applied.slice(-steps).reverse();
+  const reverted: Migration[] = [];
+
+  for (const record of toRevert) {
+    const migration = migrations.find(m => m.id === record.id);
+    if (!migration) {
+      throw new Error(`Cannot roll back migration ${record.id} (${record.name}): not found in codebase`);
+    }
+
+    await client.transaction([
+      ...migration.down.map(text => ({ text })),
+      { text: "DELETE FROM schema_migrations WHERE id = $1", params: [migration.id] },
+    ]);
+    reverted.push(migration);
+  }
+
+  return reverted;
+}
+
+export async function migrationStatus(
+  client: SqlClient,
+  migrations: Migration[] = allMigrations
+): Promise<MigrationStatus[]> {
+  validate(migrations);
+
+  const applied = await getAppliedMigrations(client);
+  const appliedById = new Map(applied.map(m => [m.id, m]));
+
+  const known: MigrationStatus[] = migrations.map(m => ({
+    id: m.id,
+    name: m.name,
+    applied_at: appliedById.get(m.id)?.applied_at ?? null,
+    missing: false,
+  }));
+
+  const missing: MigrationStatus[] = applied
+    .filter(m => !migrations.some(known => known.id === m.id))
+    .map(m => ({ ...m, missing: true }));
+
+  return [...known, ...missing].sort((a, b) => a.id - b.id);
+}
@@ -1,13 +1,11 @@
+import "dotenv/config";
 import express from "express";
 import bodyParser from "body-parser";
 import { ChatMistralAI } from "@langchain/mistralai";
-import { ChatPromptTemplate } from "@langchain/core/prompts";
 import { toUIMessageStream } from "@ai-sdk/langchain";
 import { createUIMessageStreamResponse } from "ai";
-import dotenv from "dotenv";
 import cors from "cors";
-
-dotenv.config();
+import { buildPrompt } from "./chat/prompt";
 
 const app = express();
 app.use(bodyParser.json());
@@ -43,13 +41,11 @@ app.post("/chat", async (req, res) => {
       ],
     });
 
-    const prompt = ChatPromptTemplate.fromMessages([
-      ["system", "You are a clear, direct assistant."],
-      ...normalizedMessages.map((m:any) => [m.role, m.content]),
-    ]);
+    // Typed messages instead of a prompt template, so braces in user
+    // text are not treated as template variables
+    const prompt = buildPrompt("You are a clear, direct assistant.", normalizedMessages);
 
-    const chain = prompt.pipe(model);
-    const stream = await chain.stream({});
+    const stream = await model.stream(prompt);
 
     const response = createUIMessageStreamResponse({
       stream: toUIMessageStream(stream),
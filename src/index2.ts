@@ -1,12 +1,20 @@
+import "dotenv/config";
 import express from "express";
 import bodyParser from "body-parser";
-import { ChatMistralAI } from "@langchain/mistralai";
-import { ChatPromptTemplate } from "@langchain/core/prompts";
-import dotenv from "dotenv";
 import cors from "cors";
-import { neon } from '@neondatabase/serverless';
-
-dotenv.config();
+import { createRepository } from "./storage";
+import { buildPrompt } from "./chat/prompt";
+import { DEFAULT_SYSTEM_PROMPT } from "./chat/settings";
+import { currentApiKeyId, currentUser, enforceQuota, requireAuth } from "./auth/middleware";
+import { recordTokens } from "./auth/quotas";
+import { getTokenCounter } from "./models/tokens";
+import {
+  createChatModel,
+  describeModel,
+  getDefaultModelId,
+  getModel,
+  models,
+} from "./models/registry";
 
 const app = express();
 app.use(bodyParser.json());
@@ -14,28 +22,21 @@ app.use(
   cors({
     origin: "http://localhost:5173",
     methods: ["GET", "POST", "PUT", "DELETE"],
-    allowedHeaders: ["Content-Type"],
+    allowedHeaders: ["Content-Type", "Authorization"],
   })
 );
 
-const sql = neon(process.env.DATABASE_URL!);
+const repo = createRepository();
+const DEFAULT_MODEL = getDefaultModelId("mistral-small-3.2");
 
-// Types
-interface Chat {
-  id: number;
-  title: string;
-  created_at: string;
-  updated_at: string;
-}
+// Chats are per user, as in src/server.ts: these routes need a bearer token
+// (from server.ts' /auth routes) and only see the caller's own chats
+app.use(["/chats", "/chat"], requireAuth(repo));
 
-interface DBMessages {
-  id: number;
-  chat_id: number;
-  role: string;
-  content: string;
-  created_at: string;
-}
+// Replies are rate limited and spend the user's token budget (see auth/quotas.ts)
+const quota = enforceQuota(repo);
 
+// Types
 interface ChatRequest {
   messages?: Array<{
     role: string;
@@ -45,6 +46,8 @@ interface ChatRequest {
     }>;
     content?: string;
   }>;
+  // Model registry id; saved on the chat
+  model?: string;
 }
 
 // Enhanced logging utility
@@ -69,53 +72,42 @@ const logger = {
 // Initialize database
 async function initializeDatabase() {
   try {
-    logger.info("Initializing database...");
-    
-    // Drop and recreate tables to ensure clean state
-    await sql`DROP TABLE IF EXISTS messages CASCADE`;
-    await sql`DROP TABLE IF EXISTS chats CASCADE`;
-    
-    // Create chats table
-    await sql`
-      CREATE TABLE chats (
-        id SERIAL PRIMARY KEY,
-        title VARCHAR(255) NOT NULL,
-        created_at TIMESTAMP DEFAULT NOW(),
-        updated_at TIMESTAMP DEFAULT NOW()
-      )
-    `;
-    
-    // Create messages table
-    await sql`
-      CREATE TABLE messages (
-        id SERIAL PRIMARY KEY,
-        chat_id INTEGER REFERENCES chats(id) ON DELETE CASCADE,
-        role VARCHAR(50) NOT NULL,
-        content TEXT NOT NULL,
-        created_at TIMESTAMP DEFAULT NOW()
-      )
-    `;
-    
-    logger.info("Database tables created successfully");
+    logger.info("Initializing storage...");
+
+    const applied = await repo.initialize();
+
+    logger.info("Database schema is up to date", {
+      applied
+    });
   } catch (error) {
     logger.error("Database initialization error:", error);
     throw error;
   }
 }
 
-// Initialize database on startup
-initializeDatabase().catch(console.error);
+// Pick the model for a request: explicit choice, then the chat's saved one, then the default
+function resolveModelId(requested?: string | null, saved?: string | null): string {
+  if (requested) return requested;
+  if (saved && getModel(saved)) return saved;
+  return DEFAULT_MODEL;
+}
+
+// List available models
+app.get("/models", (req, res) => {
+  logger.route('GET', '/models');
+
+  res.json({
+    default: DEFAULT_MODEL,
+    models: models.map(describeModel),
+  });
+});
 
 // Get all chats
 app.get("/chats", async (req, res) => {
   logger.route('GET', '/chats');
   
   try {
-    const chats = await sql`
-      SELECT id, title, created_at, updated_at 
-      FROM chats 
-      ORDER BY updated_at DESC
-    `;
+    const chats = await repo.listChats(currentUser(res).id);
     
     logger.info("Chats fetched successfully", { count: chats.length });
     res.json(chats);
@@ -131,20 +123,14 @@ app.get("/chats/:id", async (req, res) => {
   logger.route('GET', `/chats/${id}`, { chatId: id });
   
   try {
-    const chat = await sql`
-      SELECT * FROM chats WHERE id = ${id}
-    `;
-    
-    if (chat.length === 0) {
+    const chat = await repo.getChat(Number(id), currentUser(res).id);
+
+    if (!chat) {
       logger.warn("Chat not found", { chatId: id });
       return res.status(404).json({ error: "Chat not found" });
     }
     
-    const messages = await sql`
-      SELECT * FROM messages 
-      WHERE chat_id = ${id} 
-      ORDER BY created_at ASC
-    `;
+    const messages = await repo.listMessages(chat.id);
     
     logger.info("Chat fetched successfully", { 
       chatId: id, 
@@ -152,7 +138,7 @@ app.get("/chats/:id", async (req, res) => {
     });
     
     res.json({
-      ...chat[0],
+      ...chat,
       messages: messages.map(m => ({
         id: m.id.toString(),
         role: m.role,
@@ -168,18 +154,19 @@ app.get("/chats/:id", async (req, res) => {
 
 // Create a new chat
 app.post("/chats", async (req, res) => {
-  const { title = "New Chat" } = req.body;
-  logger.route('POST', '/chats', { title });
+  const { title = "New Chat", model } = req.body;
+  logger.route('POST', '/chats', { title, model });
+
+  if (model && !getModel(model)) {
+    logger.warn("Unknown model requested", { model });
+    return res.status(400).json({ error: "Unknown model", model });
+  }
   
   try {
-    const newChat = await sql`
-      INSERT INTO chats (title) 
-      VALUES (${title})
-      RETURNING *
-    `;
-    
-    logger.info("New chat created", { chatId: newChat[0].id });
-    res.status(201).json(newChat[0]);
+    const newChat = await repo.createChat(title, model ?? null, currentUser(res).id);
+
+    logger.info("New chat created", { chatId: newChat.id });
+    res.status(201).json(newChat);
   } catch (err) {
     logger.error("Error creating chat:", err);
     res.status(500).json({ error: "Internal Server Error" });
@@ -193,20 +180,16 @@ app.put("/chats/:id", async (req, res) => {
   logger.route('PUT', `/chats/${id}`, { chatId: id, newTitle: title });
   
   try {
-    const updatedChat = await sql`
-      UPDATE chats 
-      SET title = ${title}, updated_at = NOW()
-      WHERE id = ${id}
-      RETURNING *
-    `;
-    
-    if (updatedChat.length === 0) {
+    const chat = await repo.getChat(Number(id), currentUser(res).id);
+    const updatedChat = chat && await repo.updateChatTitle(chat.id, title);
+
+    if (!updatedChat) {
       logger.warn("Chat not found for update", { chatId: id });
       return res.status(404).json({ error: "Chat not found" });
     }
     
     logger.info("Chat title updated successfully", { chatId: id });
-    res.json(updatedChat[0]);
+    res.json(updatedChat);
   } catch (err) {
     logger.error("Error updating chat:", { chatId: id, error: err });
     res.status(500).json({ error: "Internal Server Error" });
@@ -219,7 +202,8 @@ app.delete("/chats/:id", async (req, res) => {
   logger.route('DELETE', `/chats/${id}`, { chatId: id });
   
   try {
-    await sql`DELETE FROM chats WHERE id = ${id}`;
+    const chat = await repo.getChat(Number(id), currentUser(res).id);
+    if (chat) await repo.deleteChat(chat.id);
     
     logger.info("Chat deleted successfully", { chatId: id });
     res.status(204).send();
@@ -230,13 +214,19 @@ app.delete("/chats/:id", async (req, res) => {
 });
 
 // FIXED: Chat endpoint for NEW chats (without chatId)
-app.post("/chat", async (req, res) => {
-  const { messages = [] }: ChatRequest = req.body;
-  logger.route('POST', '/chat', { 
+app.post("/chat", quota, async (req, res) => {
+  const { messages = [], model }: ChatRequest = req.body;
+  logger.route('POST', '/chat', {
     messageCount: messages.length,
-    hasUserMessage: messages.some(m => m.role === 'user')
+    hasUserMessage: messages.some(m => m.role === 'user'),
+    model
   });
 
+  if (model && !getModel(model)) {
+    logger.warn("Unknown model requested", { model });
+    return res.status(400).json({ error: "Unknown model", model });
+  }
+
   try {
     // Create new chat
     const firstUserMessage = messages.find(m => m.role === "user");
@@ -246,17 +236,13 @@ app.post("/chat", async (req, res) => {
     
     logger.info("Creating new chat", { title });
     
-    const newChat = await sql`
-      INSERT INTO chats (title) 
-      VALUES (${title})
-      RETURNING id, title
-    `;
-    const currentChatId = newChat[0].id;
+    const newChat = await repo.createChat(title, model ?? null, currentUser(res).id);
+    const currentChatId = newChat.id;
     
     logger.info("New chat created with ID", { chatId: currentChatId });
 
     // Process and handle messages - FIXED: Handle template variables
-    await handleChatMessages(currentChatId, messages, res, true);
+    await handleChatMessages(currentChatId, messages, res, true, resolveModelId(model));
   } catch (err: any) {
     logger.error("Error in /chat endpoint:", err);
     res.status(500).json({
@@ -267,36 +253,51 @@ app.post("/chat", async (req, res) => {
 });
 
 // FIXED: Chat endpoint for EXISTING chats (with chatId)
-app.post("/chat/:chatId", async (req, res) => {
+app.post("/chat/:chatId", quota, async (req, res) => {
   const { chatId } = req.params;
-  const { messages = [] }: ChatRequest = req.body;
-  
-  logger.route('POST', `/chat/${chatId}`, { 
+  const { messages = [], model }: ChatRequest = req.body;
+
+  logger.route('POST', `/chat/${chatId}`, {
     chatId,
     messageCount: messages.length,
-    hasUserMessage: messages.some(m => m.role === 'user')
+    hasUserMessage: messages.some(m => m.role === 'user'),
+    model
   });
 
+  if (model && !getModel(model)) {
+    logger.warn("Unknown model requested", { model });
+    return res.status(400).json({ error: "Unknown model", model });
+  }
+
   try {
     const currentChatId = parseInt(chatId);
     
     // Verify chat exists
-    const existingChat = await sql`
-      SELECT id, title FROM chats WHERE id = ${currentChatId}
-    `;
-    
-    if (existingChat.length === 0) {
+    const existingChat = await repo.getChat(currentChatId, currentUser(res).id);
+
+    if (!existingChat) {
       logger.warn("Chat not found", { chatId: currentChatId });
       return res.status(404).json({ error: "Chat not found" });
     }
 
     logger.info("Using existing chat", { 
       chatId: currentChatId, 
-      title: existingChat[0].title 
+      title: existingChat.title
     });
+
+    if (model && model !== existingChat.model) {
+      await repo.updateChatModel(currentChatId, model);
+      logger.info("Chat model updated", { chatId: currentChatId, model });
+    }
     
     // Process and handle messages - FIXED: Handle template variables
-    await handleChatMessages(currentChatId, messages, res, false);
+    await handleChatMessages(
+      currentChatId,
+      messages,
+      res,
+      false,
+      resolveModelId(model, existingChat.model)
+    );
   } catch (err: any) {
     logger.error("Error in /chat/:chatId endpoint:", err);
     res.status(500).json({
@@ -311,7 +312,8 @@ async function handleChatMessages(
   chatId: number, 
   messages: any[], 
   res: express.Response, 
-  isNewChat: boolean
+  isNewChat: boolean,
+  modelId: string
 ) {
   logger.info("Processing chat messages", { 
     chatId, 
@@ -338,51 +340,28 @@ async function handleChatMessages(
     messageLength: userMessageText.length 
   });
   
-  await sql`
-    INSERT INTO messages (chat_id, role, content)
-    VALUES (${chatId}, 'user', ${userMessageText})
-  `;
+  await repo.addMessage(chatId, "user", userMessageText);
 
   // Get ALL messages for this chat to maintain full context
-  const allMessages = await sql`
-    SELECT role, content FROM messages 
-    WHERE chat_id = ${chatId} 
-    ORDER BY created_at ASC
-  `;
+  const allMessages = await repo.listMessages(chatId);
 
   logger.info("Retrieved full chat history from database", { 
     chatId, 
     messageCount: allMessages.length 
   });
 
-  // Initialize AI model with faster settings
-  logger.info("Initializing AI model with fast settings");
-  const model = new ChatMistralAI({
-    apiKey: process.env.OPENROUTER_API_KEY!,
-    model: "mistralai/mistral-small-3.2-24b-instruct:free", // Fast model
-    temperature: 0.7,
-    maxTokens: 500, // Limit response length for speed
-    streaming: true,
-    serverURL: "https://openrouter.ai/api",
-  });
+  const modelConfig = getModel(modelId)!;
+  logger.info("Initializing AI model", { modelId, upstream: modelConfig.model });
+  const model = createChatModel(modelConfig);
 
   try {
-    // FIXED: Use simple string concatenation instead of ChatPromptTemplate
-    // to avoid template variable issues
-    let conversationContext = "You are a helpful AI assistant. Here is the conversation history:\n\n";
-    
-    // Build conversation context from all messages
-    allMessages.forEach((msg) => {
-      conversationContext += `${msg.role}: ${msg.content}\n\n`;
-    });
+    // Real system/user/assistant turns, built from the stored history only
+    // (the current user message is already saved there)
+    const prompt = buildPrompt(DEFAULT_SYSTEM_PROMPT, allMessages);
 
-    // Add the current user message
-    conversationContext += `user: ${userMessageText}\n\nassistant:`;
+    logger.info("Starting direct AI streaming", { promptMessages: prompt.length });
 
-    logger.info("Starting direct AI streaming");
-    
-    // Use direct model call instead of chain to avoid template issues
-    const stream = await model.stream(conversationContext);
+    const stream = await model.stream(prompt);
 
     // Set proper headers for fast SSE
     res.writeHead(200, {
@@ -391,6 +370,7 @@ async function handleChatMessages(
       'Connection': 'keep-alive',
       'Access-Control-Allow-Origin': '*',
       'X-Chat-Id': chatId.toString(),
+      'X-Model': modelId,
     });
 
     let fullResponse = "";
@@ -420,6 +400,13 @@ async function handleChatMessages(
       responsePreview: fullResponse.substring(0, 100) 
     });
 
+    // Prompt and reply count against the caller's token budgets; this entry
+    // point gets no usage from the stream, so they are estimated
+    const counter = getTokenCounter(modelConfig);
+    const tokens = prompt.reduce((total, m) => total + counter.count(m.text), counter.count(fullResponse));
+    recordTokens(repo, currentUser(res).id, currentApiKeyId(res), tokens)
+      .catch(err => logger.error("Failed to record token usage", { chatId, error: err }));
+
     // Save assistant's response to database
     if (fullResponse.trim()) {
       logger.info("Saving assistant response to database", { 
@@ -427,19 +414,12 @@ async function handleChatMessages(
         responseLength: fullResponse.length 
       });
       
-      await sql`
-        INSERT INTO messages (chat_id, role, content)
-        VALUES (${chatId}, 'assistant', ${fullResponse})
-      `;
+      await repo.addMessage(chatId, "assistant", fullResponse);
     }
 
     // Update chat's updated_at timestamp
     logger.info("Updating chat timestamp", { chatId });
-    await sql`
-      UPDATE chats 
-      SET updated_at = NOW()
-      WHERE id = ${chatId}
-    `;
+    await repo.touchChat(chatId);
 
     logger.info("Chat processing completed successfully", { chatId });
     res.end();
@@ -459,7 +439,12 @@ async function handleChatMessages(
   }
 }
 
-app.listen(3000, () => {
-  console.log("⚡ AI Agent backend running on http://localhost:3000");
-  console.log("🚀 Fixed template variable handling");
-});
\ No newline at end of file
+// Apply pending migrations before accepting requests
+initializeDatabase()
+  .then(() => {
+    app.listen(3000, () => {
+      console.log("⚡ AI Agent backend running on http://localhost:3000");
+      console.log("🚀 Fixed template variable handling");
+    });
+  })
+  .catch(() => process.exit(1));
@@ -0,0 +1,70 @@
+import "dotenv/config";
+import { SqlClient } from "./db/client";
+import { migrate, rollback, migrationStatus } from "./db/migrator";
+import { createSqlClient, getStorageDriver } from "./storage";
+
+const usage = `Usage: migrate <command>
+
+Commands:
+  up            Apply all pending migrations (default)
+  down [steps]  Roll back the last <steps> migrations (default 1)
+  status        List migrations and whether they have been applied`;
+
+async function main() {
+  const [command = "up", arg] = process.argv.slice(2);
+
+  const driver = getStorageDriver();
+  if (driver === "memory") {
+    throw new Error('Migrations do not apply to the "memory" storage driver');
+  }
+  const db = createSqlClient(driver);
+
+  try {
+    await runCommand(db, command, arg);
+  } finally {
+    await db.close();
+  }
+}
+
+async function runCommand(db: SqlClient, command: string, arg?: string) {
+  switch (command) {
+    case "up": {
+      const applied = await migrate(db);
+      if (applied.length === 0) {
+        console.log("✅ Database is already up to date");
+      }
+      applied.forEach(m => console.log(`⬆️  Applied ${m.id} ${m.name}`));
+      break;
+    }
+    case "down": {
+      const steps = arg ? parseInt(arg, 10) : 1;
+      if (!Number.isInteger(steps) || steps < 1) {
+        throw new Error(`Invalid number of steps: ${arg}`);
+      }
+      const reverted = await rollback(db, steps);
+      if (reverted.length === 0) {
+        console.log("✅ Nothing to roll back");
+      }
+      reverted.forEach(m => console.log(`⬇️  Reverted ${m.id} ${m.name}`));
+      break;
+    }
+    case "status": {
+      const status = await migrationStatus(db);
+      status.forEach(m => {
+        const state = m.missing
+          ? "missing from codebase"
+          : m.applied_at ? `applied ${m.applied_at}` : "pending";
+        console.log(`${String(m.id).padStart(3, "0")} ${m.name} - ${state}`);
+      });
+      break;
+    }
+    default:
+      console.log(usage);
+      process.exitCode = 1;
+  }
+}
+
+main().catch(err => {
+  console.error("🔴 Migration failed:", err.message);
+  process.exit(1);
+});
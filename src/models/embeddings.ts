@@ -0,0 +1,97 @@
+import { OpenAIEmbeddings } from "@langchain/openai";
+
+export interface Embedder {
+  // Stored with each document; chunks are only compared with queries from the same embedder
+  id: string;
+  // Unit-length vectors, so a dot product is their cosine similarity
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export type EmbedderFactory = () => Embedder;
+
+export function normalize(vector: number[]): number[] {
+  const length = Math.sqrt(vector.reduce((total, x) => total + x * x, 0));
+  return length === 0 ? vector : vector.map(x => x / length);
+}
+
+// 32-bit FNV-1a
+function hash(text: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+// Too common to say anything about a text
+const STOP_WORDS = new Set(
+  ("a an and are as at be by do does for from has have how i in is it its of on or " +
+   "that the this to was what when where which who why will with you").split(" ")
+);
+
+// Hashed bag of words and word pairs. No model or network needed and always
+// the same output, which makes it the embedder for offline development and
+// tests; it matches shared vocabulary, not meaning.
+export function createLocalEmbedder(dimensions = 1024): Embedder {
+  const embedOne = (text: string) => {
+    const vector = new Array<number>(dimensions).fill(0);
+    const words = (text.toLowerCase().match(/[\p{L}\p{N}_]+/gu) ?? []).filter(w => !STOP_WORDS.has(w));
+    const features = [...words, ...words.slice(1).map((word, i) => `${words[i]} ${word}`)];
+
+    for (const feature of features) {
+      const h = hash(feature);
+      vector[h % dimensions] += h & 0x80000000 ? -1 : 1;
+    }
+    return normalize(vector);
+  };
+
+  return {
+    id: `local-${dimensions}`,
+    embed: async (texts) => texts.map(embedOne),
+  };
+}
+
+// OpenAI-compatible /embeddings endpoint (OpenAI, OpenRouter, Ollama...)
+export function createOpenAIEmbedder(): Embedder {
+  const model = process.env.EMBEDDING_MODEL || "text-embedding-3-small";
+  const client = new OpenAIEmbeddings({
+    model,
+    configuration: {
+      apiKey: process.env[process.env.EMBEDDING_API_KEY_ENV || "OPENAI_API_KEY"] || "not-needed",
+      baseURL: process.env.EMBEDDING_BASE_URL,
+    },
+  });
+
+  return {
+    id: `openai:${model}`,
+    embed: async (texts) => (await client.embedDocuments(texts)).map(normalize),
+  };
+}
+
+const embedders: Record<string, EmbedderFactory> = {
+  local: () => createLocalEmbedder(Number(process.env.LOCAL_EMBEDDING_DIMENSIONS) || 1024),
+  openai: createOpenAIEmbedder,
+};
+
+const instances = new Map<string, Embedder>();
+
+export function registerEmbedder(name: string, factory: EmbedderFactory) {
+  embedders[name] = factory;
+  instances.delete(name);
+}
+
+// EMBEDDER picks the implementation; "local" by default
+export function getEmbedder(name = process.env.EMBEDDER || "local"): Embedder {
+  const factory = embedders[name];
+  if (!factory) {
+    throw new Error(`Unknown embedder "${name}"`);
+  }
+
+  let embedder = instances.get(name);
+  if (!embedder) {
+    embedder = factory();
+    instances.set(name, embedder);
+  }
+  return embedder;
+}
@@ -0,0 +1,197 @@
+import { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import { ChatMistralAI } from "@langchain/mistralai";
+import { ChatOpenAI } from "@langchain/openai";
+
+// "openai" covers OpenRouter and any OpenAI-compatible server (Ollama, llama.cpp)
+export type ModelProvider = "openai" | "mistral";
+
+export interface ModelDefaults {
+  temperature: number;
+  maxTokens: number;
+}
+
+// USD per million tokens, for cost reports
+export interface ModelPricing {
+  prompt: number;
+  completion: number;
+}
+
+export interface ModelConfig {
+  id: string;
+  label: string;
+  provider: ModelProvider;
+  // Model name sent upstream
+  model: string;
+  baseURL: string;
+  // Name of the env var holding the API key; null when no key is needed
+  apiKeyEnv: string | null;
+  defaults: ModelDefaults;
+  // Total tokens the model accepts (prompt + completion)
+  contextWindow: number;
+  // How prompt tokens are counted (see src/models/tokens.ts)
+  tokenizer: "cl100k_base" | "approximate";
+  // Accepts image content blocks
+  vision: boolean;
+  // Supports tool (function) calling
+  tools: boolean;
+  // How the API holds replies to JSON: "json_schema" enforces a schema,
+  // "json_object" only valid JSON; null when it cannot (the prompt asks instead)
+  structuredOutput: "json_schema" | "json_object" | null;
+  pricing: ModelPricing;
+}
+
+const OPENROUTER_BASE_URL = "https://openrouter.ai/api/v1";
+
+export const models: ModelConfig[] = [
+  {
+    id: "gemma-3n-e2b",
+    label: "Gemma 3n E2B (OpenRouter)",
+    provider: "openai",
+    model: "google/gemma-3n-e2b-it:free",
+    baseURL: OPENROUTER_BASE_URL,
+    apiKeyEnv: "OPENROUTER_API_KEY",
+    defaults: { temperature: 0.8, maxTokens: 2048 },
+    contextWindow: 32768,
+    tokenizer: "cl100k_base",
+    vision: false,
+    tools: false,
+    structuredOutput: null,
+    // OpenRouter's :free variants
+    pricing: { prompt: 0, completion: 0 },
+  },
+  {
+    id: "gemma-2-9b",
+    label: "Gemma 2 9B (OpenRouter)",
+    provider: "mistral",
+    model: "google/gemma-2-9b-it:free",
+    // The Mistral SDK appends /v1 itself
+    baseURL: "https://openrouter.ai/api",
+    apiKeyEnv: "OPENROUTER_API_KEY",
+    defaults: { temperature: 0.7, maxTokens: 2048 },
+    contextWindow: 8192,
+    tokenizer: "cl100k_base",
+    vision: false,
+    tools: false,
+    structuredOutput: null,
+    pricing: { prompt: 0, completion: 0 },
+  },
+  {
+    id: "mistral-small-3.2",
+    label: "Mistral Small 3.2 24B (OpenRouter)",
+    provider: "mistral",
+    model: "mistralai/mistral-small-3.2-24b-instruct:free",
+    baseURL: "https://openrouter.ai/api",
+    apiKeyEnv: "OPENROUTER_API_KEY",
+    defaults: { temperature: 0.7, maxTokens: 2048 },
+    contextWindow: 131072,
+    tokenizer: "cl100k_base",
+    vision: true,
+    tools: true,
+    structuredOutput: "json_object",
+    pricing: { prompt: 0, completion: 0 },
+  },
+  {
+    id: "local",
+    label: "Local OpenAI-compatible server (Ollama / llama.cpp)",
+    provider: "openai",
+    model: process.env.LOCAL_MODEL_NAME || "llama3.2",
+    baseURL: process.env.LOCAL_MODEL_BASE_URL || "http://localhost:11434/v1",
+    apiKeyEnv: null,
+    defaults: { temperature: 0.7, maxTokens: 2048 },
+    contextWindow: Number(process.env.LOCAL_MODEL_CONTEXT_WINDOW) || 8192,
+    tokenizer: "cl100k_base",
+    vision: process.env.LOCAL_MODEL_VISION === "true",
+    tools: process.env.LOCAL_MODEL_TOOLS === "true",
+    // Ollama and llama.cpp take json_object; newer servers also take a schema
+    structuredOutput: process.env.LOCAL_MODEL_JSON_SCHEMA === "true" ? "json_schema" : "json_object",
+    pricing: {
+      prompt: Number(process.env.LOCAL_MODEL_PROMPT_PRICE) || 0,
+      completion: Number(process.env.LOCAL_MODEL_COMPLETION_PRICE) || 0,
+    },
+  },
+];
+
+export function getModel(id: string): ModelConfig | undefined {
+  return models.find(m => m.id === id);
+}
+
+// DEFAULT_MODEL overrides the entry point's own default
+export function getDefaultModelId(fallback: string): string {
+  const id = process.env.DEFAULT_MODEL || fallback;
+  if (!getModel(id)) {
+    throw new Error(`Unknown default model "${id}"`);
+  }
+  return id;
+}
+
+export function isModelAvailable(config: ModelConfig): boolean {
+  return config.apiKeyEnv === null || Boolean(process.env[config.apiKeyEnv]);
+}
+
+// Public view of the registry, without secrets
+export function describeModel(config: ModelConfig) {
+  return {
+    id: config.id,
+    label: config.label,
+    provider: config.provider,
+    model: config.model,
+    baseURL: config.baseURL,
+    defaults: config.defaults,
+    contextWindow: config.contextWindow,
+    vision: config.vision,
+    tools: config.tools,
+    structuredOutput: config.structuredOutput,
+    pricing: config.pricing,
+    available: isModelAvailable(config),
+  };
+}
+
+// Sampling options that override the registry defaults
+export interface ModelOptions {
+  temperature?: number;
+  maxTokens?: number;
+  topP?: number;
+}
+
+// Call options asking the API for a JSON reply, in the provider's format
+export function jsonCallOptions(
+  config: ModelConfig,
+  format: { name: string; description?: string; schema: object }
+): Record<string, unknown> {
+  if (config.structuredOutput === "json_schema") {
+    // Not strict: any schema is accepted, and the reply is validated here anyway
+    return { response_format: { type: "json_schema", json_schema: { ...format, strict: false } } };
+  }
+  return config.structuredOutput ? { response_format: { type: "json_object" } } : {};
+}
+
+export function createChatModel(config: ModelConfig, options: ModelOptions = {}): BaseChatModel {
+  // Local servers ignore the key, but the clients refuse to start without one
+  const apiKey = (config.apiKeyEnv && process.env[config.apiKeyEnv]) || "not-needed";
+  const temperature = options.temperature ?? config.defaults.temperature;
+  const maxTokens = options.maxTokens ?? config.defaults.maxTokens;
+
+  if (config.provider === "mistral") {
+    return new ChatMistralAI({
+      apiKey,
+      model: config.model,
+      temperature,
+      maxTokens,
+      topP: options.topP,
+      streaming: true,
+      serverURL: config.baseURL,
+    });
+  }
+
+  return new ChatOpenAI({
+    model: config.model,
+    temperature,
+    maxTokens,
+    topP: options.topP,
+    streaming: true,
+    configuration: {
+      apiKey,
+      baseURL: config.baseURL,
+    },
+  });
+}
@@ -0,0 +1,30 @@
+import { Tiktoken } from "js-tiktoken/lite";
+import cl100k_base from "js-tiktoken/ranks/cl100k_base";
+import { ModelConfig } from "./registry";
+
+export interface TokenCounter {
+  count(text: string): number;
+}
+
+// Rough per-message cost of role markers and separators in chat templates
+export const MESSAGE_OVERHEAD_TOKENS = 4;
+
+let cl100k: Tiktoken | null = null;
+
+// Exact for OpenAI models and a close approximation for the rest; the
+// encoder is bundled, so this works offline
+const cl100kCounter: TokenCounter = {
+  count: (text) => {
+    cl100k ??= new Tiktoken(cl100k_base);
+    return cl100k.encode(text).length;
+  },
+};
+
+// Cheap fallback when no tokenizer is configured
+const approximateCounter: TokenCounter = {
+  count: (text) => Math.ceil(text.length / 4),
+};
+
+export function getTokenCounter(config: ModelConfig): TokenCounter {
+  return config.tokenizer === "cl100k_base" ? cl100kCounter : approximateCounter;
+}
@@ -1,14 +1,102 @@
+// Loaded first so modules reading process.env at import time see .env
+import "dotenv/config";
 import express from "express";
 import bodyParser from "body-parser";
-import { ChatOpenAI } from "@langchain/openai";
-import dotenv from "dotenv";
 import cors from "cors";
-import { neon } from '@neondatabase/serverless';
-
-dotenv.config();
+import { randomUUID } from "crypto";
+import { UI_MESSAGE_STREAM_HEADERS, UIMessageChunk } from "ai";
+import { AIMessage, AIMessageChunk, HumanMessage, ToolMessage } from "@langchain/core/messages";
+import {
+  Attachment,
+  Chat,
+  ChatSettings,
+  createRepository,
+  DBMessages,
+  MessageStatus,
+  MessageUsage,
+  NewAttachment,
+  ScoredChunk,
+  ToolCall,
+} from "./storage";
+import {
+  createChatModel,
+  describeModel,
+  jsonCallOptions,
+  getDefaultModelId,
+  getModel,
+  models,
+} from "./models/registry";
+import {
+  applySettingsPatch,
+  ChatSettingsPatch,
+  GenerationSettings,
+  resolveGenerationSettings,
+  validateSettings,
+} from "./chat/settings";
+import { buildPrompt } from "./chat/prompt";
+import { buildContext } from "./chat/context";
+import { splitAtSummary, summarizeChat, withSummary } from "./chat/summary";
+import { activePath, latestLeaf, siblingsOf } from "./chat/tree";
+import { createStreamRegistry, GenerationStream } from "./chat/streams";
+import {
+  attachmentUrl,
+  estimateAttachmentTokens,
+  MAX_ATTACHMENT_BYTES,
+  parseAttachmentUrl,
+  parseDataUrl,
+} from "./chat/attachments";
+import {
+  documentMediaType,
+  ingestDocument,
+  isSupportedDocument,
+  ragOptions,
+  retrieveChunks,
+  withDocuments,
+} from "./chat/documents";
+import { embedMessages, semanticSearch } from "./chat/semantic";
+import {
+  chatCursor,
+  MAX_PAGE_SIZE,
+  pagePath,
+  parseChatCursor,
+  parseMessageCursor,
+  parsePageQuery,
+} from "./chat/pagination";
+import { parseUsageRange, usageReport } from "./chat/usage";
+import { EXPORT_FORMATS, exportHtml, exportJson, exportMarkdown, isExportFormat } from "./chat/export";
+import { ImportReport, parseImport } from "./chat/import";
+import {
+  formatName,
+  parseStructuredOutput,
+  ResponseFormat,
+  retryInstructions,
+  structuredOutputOptions,
+  validateResponseFormat,
+  withResponseFormat,
+} from "./chat/structured";
+import {
+  defaultToolNames,
+  formatToolOutput,
+  getTool,
+  listTools,
+  runTool,
+  ToolResult,
+  toolOptions,
+  toolSchemas,
+} from "./tools/registry";
+import { getTokenCounter } from "./models/tokens";
+import { currentApiKeyId, currentUser, enforceQuota, requireAuth } from "./auth/middleware";
+import { recordTokens } from "./auth/quotas";
+import { hashPassword, MIN_PASSWORD_LENGTH, verifyPassword } from "./auth/passwords";
+import { generateApiKey, hashApiKey, issueToken } from "./auth/tokens";
 
 const app = express();
-app.use(bodyParser.json());
+const jsonParser = bodyParser.json({ limit: process.env.JSON_BODY_LIMIT || "25mb" });
+// File uploads keep their raw body (POST /attachments, POST /chats/:id/documents)
+const RAW_BODY_PATHS = [/^\/attachments$/, /^\/chats\/[^/]+\/documents$/];
+app.use((req, res, next) =>
+  RAW_BODY_PATHS.some(path => path.test(req.path)) ? next() : jsonParser(req, res, next)
+);
 app.use(
   cors(
 //     {
@@ -19,35 +107,85 @@ app.use(
 )
 );
 
-const sql = neon(process.env.DATABASE_URL!);
+const repo = createRepository();
+const DEFAULT_MODEL = getDefaultModelId("gemma-3n-e2b");
+
+// Conversations and uploads are per user: these routes need a bearer token
+// and only ever see the caller's own chats (see /auth below)
+const authenticate = requireAuth(repo);
+app.use(["/chats", "/chat", "/search", "/attachments", "/usage"], authenticate);
+
+// Requests that generate a reply are rate limited and spend the user's
+// token budget (RATE_LIMIT_* and TOKEN_QUOTA_* in auth/quotas.ts)
+const quota = enforceQuota(repo);
 
 // Types
-interface Chat {
-  id: number;
-  title: string;
-  created_at: string;
-  updated_at: string;
-}
 
-interface DBMessages {
-  id: number;
-  chat_id: number;
+// Text, or a file/image given as a data URL or as the URL of an upload (/attachments/:id)
+type ChatRequestPart =
+  | { type: "text"; text: string }
+  | { type: "file" | "image"; url: string; mediaType?: string; filename?: string };
+
+interface ChatRequestMessage {
   role: string;
-  content: string;
-  created_at: string;
+  parts?: ChatRequestPart[];
+  content?: string;
 }
 
 interface ChatRequest {
-  messages?: Array<{
-    role: string;
-    parts?: Array<{
-      type: string;
-      text: string;
-    }>;
-    content?: string;
-  }>;
+  messages?: ChatRequestMessage[];
+  // Model registry id; saved on the chat
+  model?: string;
+  // Overrides the chat's stored settings for this request only
+  settings?: ChatSettings;
+  // Asks for the answer as JSON matching a schema (this request only)
+  responseFormat?: ResponseFormat;
+}
+
+// Metadata of a streamed assistant message, read by useChat (AI SDK v5)
+interface ChatMessageMetadata {
+  chatId: string;
+  model: string;
+  streamId: string;
+  // Database ids, sent once the reply has been saved
+  messageId?: string;
+  parentId?: string | null;
+  status?: MessageStatus;
+  usage?: UsageData;
 }
 
+// Token counts and latency of a generated reply
+interface UsageData {
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  latencyMs: number;
+  estimated: boolean;
+}
+
+// Which messages the model saw for a reply (a transient data-context part)
+interface ContextData {
+  includedMessageIds: number[];
+  droppedMessageIds: number[];
+  tokens: number;
+  budget: number;
+  strategy: string;
+  summarizedThroughMessageId: number | null;
+}
+
+// A tool call waiting for POST /chat/:chatId/tool-calls/:callId/approve or /deny
+interface ApprovalRequestData {
+  toolCallId: string;
+  toolName: string;
+  input: unknown;
+  messageId: number;
+}
+
+type ChatStreamChunk = UIMessageChunk<
+  ChatMessageMetadata,
+  { context: ContextData; "approval-request": ApprovalRequestData; "structured-output": unknown }
+>;
+
 // Enhanced logging utility
 const logger = {
   info: (message: string, data?: any) => {
@@ -70,96 +208,564 @@ const logger = {
 // Initialize database
 async function initializeDatabase() {
   try {
-    logger.info("Initializing database...");
-
-    // Drop and recreate tables to ensure clean state
-    await sql`DROP TABLE IF EXISTS messages CASCADE`;
-    await sql`DROP TABLE IF EXISTS chats CASCADE`;
-
-    // Create chats table
-    await sql`
-      CREATE TABLE chats (
-        id SERIAL PRIMARY KEY,
-        title VARCHAR(255) NOT NULL,
-        created_at TIMESTAMP DEFAULT NOW(),
-        updated_at TIMESTAMP DEFAULT NOW()
-      )
-    `;
-
-    // Create messages table
-    await sql`
-      CREATE TABLE messages (
-        id SERIAL PRIMARY KEY,
-        chat_id INTEGER REFERENCES chats(id) ON DELETE CASCADE,
-        role VARCHAR(50) NOT NULL,
-        content TEXT NOT NULL,
-        created_at TIMESTAMP DEFAULT NOW()
-      )
-    `;
-
-    logger.info("Database tables created successfully");
+    logger.info("Initializing storage...");
+
+    const applied = await repo.initialize();
+
+    logger.info("Database schema is up to date", {
+      applied
+    });
   } catch (error) {
     logger.error("Database initialization error:", error);
     throw error;
   }
 }
 
-// Initialize database on startup
-initializeDatabase().catch(console.error);
+// Pick the model for a request: explicit choice, then the chat's saved one, then the default
+function resolveModelId(requested?: string | null, saved?: string | null): string {
+  if (requested) return requested;
+  if (saved && getModel(saved)) return saved;
+  return DEFAULT_MODEL;
+}
+
+function generationSettings(
+  modelId: string,
+  chatSettings: ChatSettings,
+  overrides?: ChatSettings
+): GenerationSettings {
+  return resolveGenerationSettings(getModel(modelId)!.defaults, chatSettings, overrides);
+}
+
+// Chats with a summary refresh in progress
+const summariesInFlight = new Set<number>();
+
+// Tool call rows ("chatId:messageId") being approved or denied, so a double
+// click cannot run one twice
+const toolCallsInFlight = new Set<string>();
+
+// Refresh the rolling summary in the background once enough history piles up
+function scheduleSummary(chatId: number, ownerId: number, modelId: string) {
+  if (summariesInFlight.has(chatId)) return;
+  summariesInFlight.add(chatId);
+
+  (async () => {
+    const chat = await repo.getChat(chatId, ownerId);
+    if (!chat) return;
+
+    const updated = await summarizeChat(repo, chat, getModel(modelId)!);
+    if (updated) {
+      logger.info("Chat summary updated", {
+        chatId,
+        summarizedThroughMessageId: updated.summary_message_id
+      });
+    }
+  })()
+    .catch(err => logger.error("Background summary failed", { chatId, error: err }))
+    .finally(() => summariesInFlight.delete(chatId));
+}
+
+// Embed new messages for semantic search in the background. Failures only
+// log; embeddings:backfill picks up whatever was missed.
+function scheduleEmbedding(messages: DBMessages[]) {
+  embedMessages(repo, messages)
+    .catch(err => logger.error("Background embedding failed", {
+      messageIds: messages.map(m => m.id),
+      error: err
+    }));
+}
+
+// Replies currently streaming, by chat, so they can be stopped
+const generations = new Map<number, AbortController>();
+
+// Buffered SSE events of recent generations, for clients that reconnect
+const streams = createStreamRegistry();
+
+// Send a generation's events (after lastEventId) to an SSE response, detaching when it closes
+function pipeStream(stream: GenerationStream, res: express.Response, lastEventId = 0) {
+  const unsubscribe = stream.subscribe({
+    send: (event) => { res.write(`id: ${event.id}\ndata: ${event.data}\n\n`); },
+    close: () => res.end(),
+  }, lastEventId);
+  res.on("close", unsubscribe);
+}
+
+// Usage of a generated reply; null for other messages
+function formatUsage(usage: MessageUsage | DBMessages): UsageData | null {
+  if (usage.model === null) return null;
+  return {
+    model: usage.model,
+    promptTokens: usage.prompt_tokens ?? 0,
+    completionTokens: usage.completion_tokens ?? 0,
+    latencyMs: usage.latency_ms ?? 0,
+    estimated: Boolean(usage.usage_estimated),
+  };
+}
+
+// A stored tool call as a UI message part; tools are registered at
+// runtime, so they are dynamic tools to the AI SDK
+function toolPart(call: ToolCall, status: MessageStatus) {
+  const part = { type: "dynamic-tool", toolName: call.name, toolCallId: call.id, input: call.input };
+  if (status === "pending") return { ...part, state: "input-available" };
+  return call.error === undefined
+    ? { ...part, state: "output-available", output: call.output }
+    : { ...part, state: "output-error", errorText: call.error };
+}
+
+// Tool calls on the branch ending at leafId that still wait for approval
+function pendingToolCalls(messages: DBMessages[], leafId: number | null): DBMessages[] {
+  return activePath(messages, leafId).filter(m => m.status === "pending");
+}
+
+// Claim the chat for a new reply, so that no second one starts beside it and
+// POST /chat/:chatId/stop reaches it; endGeneration releases it. Refused (with
+// the body of a 409) while the model waits for tool calls to be decided or
+// another reply is streaming.
+function startGeneration(
+  chat: Chat,
+  messages: DBMessages[]
+): { controller: AbortController } | { error: string; toolCallIds?: string[] } {
+  const pending = pendingToolCalls(messages, chat.active_message_id);
+  if (pending.length > 0) {
+    return { error: "Tool calls are awaiting approval", toolCallIds: pending.map(m => m.tool_call!.id) };
+  }
+  if (generations.has(chat.id)) {
+    return { error: "A reply is already being generated" };
+  }
+  const controller = new AbortController();
+  generations.set(chat.id, controller);
+  return { controller };
+}
+
+function endGeneration(chatId: number, controller: AbortController) {
+  if (generations.get(chatId) === controller) generations.delete(chatId);
+}
+
+// Frontend shape of a stored message, with its alternatives for paging
+function formatMessage(message: DBMessages, allMessages: DBMessages[], attachments: Attachment[] = []) {
+  const siblings = siblingsOf(allMessages, message);
+  const files = attachments
+    .filter(a => a.message_id === message.id)
+    .map(a => ({
+      type: "file",
+      mediaType: a.media_type,
+      filename: a.filename ?? undefined,
+      url: attachmentUrl(a.id),
+    }));
+
+  return {
+    id: message.id.toString(),
+    role: message.role,
+    content: message.content,
+    parts: message.tool_call
+      ? [toolPart(message.tool_call, message.status)]
+      : [
+          { type: "text", text: message.content },
+          ...files,
+          ...(message.structured_output == null ? [] : [{ type: "data-structured-output", data: message.structured_output }]),
+        ],
+    status: message.status,
+    parentId: message.parent_id?.toString() ?? null,
+    siblingIds: siblings.map(s => s.id.toString()),
+    siblingIndex: siblings.findIndex(s => s.id === message.id),
+    siblingCount: siblings.length,
+    usage: formatUsage(message),
+  };
+}
+
+// Text of a request message: its text parts, or plain content
+function messageText(message: ChatRequestMessage): string {
+  const text = message.parts
+    ?.filter(p => p.type === "text")
+    .map(p => p.text)
+    .join("");
+  return text || message.content || "";
+}
+
+// Store the files of a request message as unsent uploads and return their ids (in part
+// order), together with the owner's uploads referenced by URL; nothing is stored if any
+// part is invalid
+async function prepareAttachments(
+  parts: ChatRequestPart[] = [],
+  ownerId: number
+): Promise<{ ids: number[] } | { error: string }> {
+  // Upload ids, or files still to store
+  const files: Array<number | NewAttachment> = [];
+
+  for (const part of parts) {
+    if (part.type !== "file" && part.type !== "image") continue;
+    if (typeof part.url !== "string") return { error: "File parts need a url" };
+
+    const uploadId = parseAttachmentUrl(part.url);
+    if (uploadId !== null) {
+      files.push(uploadId);
+      continue;
+    }
+
+    const parsed = parseDataUrl(part.url);
+    if (!parsed) return { error: "File urls must be data: URLs or /attachments/:id" };
+    if (parsed.data.length > MAX_ATTACHMENT_BYTES) {
+      return { error: `Attachments are limited to ${MAX_ATTACHMENT_BYTES} bytes` };
+    }
+    files.push({
+      owner_id: ownerId,
+      media_type: part.mediaType || parsed.mediaType,
+      filename: part.filename ?? null,
+      data: parsed.data,
+    });
+  }
+
+  const uploads = new Set(files.filter((f): f is number => typeof f === "number"));
+  if (uploads.size > 0) {
+    const found = await repo.getAttachments([...uploads], ownerId);
+    if (found.filter(a => a.message_id === null).length !== uploads.size) {
+      return { error: "Unknown or already sent attachment" };
+    }
+  }
+
+  const ids: number[] = [];
+  for (const file of files) {
+    ids.push(typeof file === "number" ? file : (await repo.addAttachment(file)).id);
+  }
+  return { ids };
+}
+
+// Document excerpts relevant to the question. Best effort: a failing
+// embedder should not keep the chat from answering.
+async function retrieveSources(chatId: number, question: string): Promise<ScoredChunk[]> {
+  try {
+    if ((await repo.listDocuments(chatId)).length === 0) return [];
+    return await retrieveChunks(repo, chatId, question);
+  } catch (err) {
+    logger.warn("Document retrieval failed", { chatId, error: err });
+    return [];
+  }
+}
+
+// Validate the model, settings override and response format accepted by the chat endpoints
+function chatOptionsError(model?: string, settings?: ChatSettings, responseFormat?: unknown): string | null {
+  if (model && !getModel(model)) return `Unknown model "${model}"`;
+  if (responseFormat !== undefined) {
+    const formatError = validateResponseFormat(responseFormat);
+    if (formatError) return formatError;
+  }
+  return settings === undefined ? null : validateSettings(settings);
+}
+
+// List available models
+app.get("/models", (req, res) => {
+  logger.route('GET', '/models');
+
+  res.json({
+    default: DEFAULT_MODEL,
+    models: models.map(describeModel),
+  });
+});
+
+// Tools chats can enable through settings.tools, and those they get by default
+app.get("/tools", (req, res) => {
+  logger.route('GET', '/tools');
+
+  res.json({
+    default: defaultToolNames(),
+    tools: listTools().map(({ name, description, parameters }) => ({ name, description, parameters })),
+  });
+});
+
+// Accounts. A password or an API key is exchanged for a JWT, which the
+// protected routes expect as "Authorization: Bearer <token>".
+
+function normalizeEmail(value: unknown): string | null {
+  if (typeof value !== "string") return null;
+  const email = value.trim().toLowerCase();
+  return /^[^\s@]+@[^\s@]+$/.test(email) && email.length <= 255 ? email : null;
+}
+
+// Create an account; set ALLOW_REGISTRATION=false to close sign-ups
+app.post("/auth/register", async (req, res) => {
+  const { email: rawEmail, password } = req.body ?? {};
+  const email = normalizeEmail(rawEmail);
+  logger.route('POST', '/auth/register', { email });
+
+  if (process.env.ALLOW_REGISTRATION === "false") {
+    return res.status(403).json({ error: "Registration is closed" });
+  }
+  if (!email) {
+    return res.status(400).json({ error: "A valid email is required" });
+  }
+  if (typeof password !== "string" || password.length < MIN_PASSWORD_LENGTH) {
+    return res.status(400).json({ error: `password must be at least ${MIN_PASSWORD_LENGTH} characters` });
+  }
+
+  try {
+    const user = await repo.createUser(email, await hashPassword(password));
+    if (!user) {
+      return res.status(409).json({ error: "Email is already registered" });
+    }
+
+    // The first account takes over the conversations from before accounts existed
+    if (await repo.countUsers() === 1) {
+      const adopted = await repo.adoptUnowned(user.id);
+      if (adopted > 0) logger.info("Existing chats assigned to the first user", { userId: user.id, chats: adopted });
+    }
+
+    logger.info("User registered", { userId: user.id });
+    res.status(201).json({ user, ...issueToken(user) });
+  } catch (err) {
+    logger.error("Error registering user:", err);
+    res.status(500).json({ error: "Internal Server Error" });
+  }
+});
+
+app.post("/auth/login", async (req, res) => {
+  const { email: rawEmail, password } = req.body ?? {};
+  const email = normalizeEmail(rawEmail);
+  logger.route('POST', '/auth/login', { email });
+
+  if (!email || typeof password !== "string") {
+    return res.status(400).json({ error: "email and password are required" });
+  }
+
+  try {
+    const found = await repo.getUserByEmail(email);
+    if (!found || !(await verifyPassword(password, found.password_hash))) {
+      logger.warn("Failed login", { email });
+      return res.status(401).json({ error: "Invalid email or password" });
+    }
+
+    const { password_hash, ...user } = found;
+    logger.info("User logged in", { userId: user.id });
+    res.json({ user, ...issueToken(user) });
+  } catch (err) {
+    logger.error("Error logging in:", err);
+    res.status(500).json({ error: "Internal Server Error" });
+  }
+});
+
+// Exchange an API key for a token
+app.post("/auth/token", async (req, res) => {
+  const { apiKey } = req.body ?? {};
+  logger.route('POST', '/auth/token');
+
+  if (typeof apiKey !== "string" || !apiKey) {
+    return res.status(400).json({ error: "apiKey is required" });
+  }
+
+  try {
+    const found = await repo.getUserByApiKey(hashApiKey(apiKey));
+    if (!found) {
+      logger.warn("Invalid API key");
+      return res.status(401).json({ error: "Invalid API key" });
+    }
+
+    const { user, apiKeyId } = found;
+    logger.info("Token issued for API key", { userId: user.id, apiKeyId });
+    res.json({ user, ...issueToken(user, apiKeyId) });
+  } catch (err) {
+    logger.error("Error exchanging API key:", err);
+    res.status(500).json({ error: "Internal Server Error" });
+  }
+});
+
+app.get("/auth/me", authenticate, (req, res) => {
+  logger.route('GET', '/auth/me');
+  res.json(currentUser(res));
+});
+
+// Create an API key; the key itself is only returned here
+app.post("/auth/api-keys", authenticate, async (req, res) => {
+  const user = currentUser(res);
+  const { name } = req.body ?? {};
+  logger.route('POST', '/auth/api-keys', { userId: user.id, name });
+
+  if (name !== undefined && (typeof name !== "string" || name.length > 255)) {
+    return res.status(400).json({ error: "name must be a string of at most 255 characters" });
+  }
+
+  try {
+    const { key, prefix, hash } = generateApiKey();
+    const apiKey = await repo.createApiKey(user.id, name?.trim() || null, prefix, hash);
+
+    logger.info("API key created", { userId: user.id, apiKeyId: apiKey.id });
+    res.status(201).json({ ...apiKey, key });
+  } catch (err) {
+    logger.error("Error creating API key:", err);
+    res.status(500).json({ error: "Internal Server Error" });
+  }
+});
+
+app.get("/auth/api-keys", authenticate, async (req, res) => {
+  const user = currentUser(res);
+  logger.route('GET', '/auth/api-keys', { userId: user.id });
+
+  try {
+    res.json(await repo.listApiKeys(user.id));
+  } catch (err) {
+    logger.error("Error listing API keys:", err);
+    res.status(500).json({ error: "Internal Server Error" });
+  }
+});
+
+app.delete("/auth/api-keys/:id", authenticate, async (req, res) => {
+  const user = currentUser(res);
+  const { id } = req.params;
+  logger.route('DELETE', `/auth/api-keys/${id}`, { userId: user.id });
 
-// Get all chats
+  try {
+    if (!(await repo.deleteApiKey(user.id, Number(id)))) {
+      return res.status(404).json({ error: "API key not found" });
+    }
+
+    logger.info("API key deleted", { userId: user.id, apiKeyId: id });
+    res.status(204).send();
+  } catch (err) {
+    logger.error("Error deleting API key:", err);
+    res.status(500).json({ error: "Internal Server Error" });
+  }
+});
+
+// List chats, most recently updated first, as an array. With limit, before
+// or after, one page at a time as { chats, nextCursor }: pass nextCursor
+// back as before (older chats) or after (newer ones).
 app.get("/chats", async (req, res) => {
-  logger.route('GET', '/chats');
+  const user = currentUser(res);
+  logger.route('GET', '/chats', { userId: user.id, ...req.query });
+
+  const page = parsePageQuery(req.query, parseChatCursor);
+  if ("error" in page) {
+    return res.status(400).json({ error: page.error });
+  }
 
   try {
-    const chats = await sql`
-      SELECT id, title, created_at, updated_at
-      FROM chats
-      ORDER BY updated_at DESC
-    `;
+    if (page.limit === undefined && !page.before && !page.after) {
+      const chats = await repo.listChats(user.id);
+      logger.info("Chats fetched successfully", { count: chats.length });
+      return res.json(chats);
+    }
 
-    logger.info("Chats fetched successfully", { count: chats.length });
-    res.json(chats);
+    // One extra row tells whether another page follows; it is the farthest from the cursor
+    const limit = page.limit ?? MAX_PAGE_SIZE;
+    const rows = await repo.listChats(user.id, { limit: limit + 1, before: page.before, after: page.after });
+    const more = rows.length > limit;
+    const chats = !more ? rows : page.after ? rows.slice(1) : rows.slice(0, limit);
+    const nextCursor = !more ? null : chatCursor(page.after ? chats[0] : chats[chats.length - 1]);
+
+    logger.info("Chats fetched successfully", { count: chats.length, more });
+    res.json({ chats, nextCursor });
   } catch (err) {
     logger.error("Error fetching chats:", err);
     res.status(500).json({ error: "Internal Server Error" });
   }
 });
 
-// Get a specific chat with messages
+// Search chat titles and messages (all branches); highlights are [start, end) offsets
+app.get("/search", async (req, res) => {
+  const user = currentUser(res);
+  const q = typeof req.query.q === "string" ? req.query.q.trim() : "";
+  const limit = req.query.limit === undefined ? 20 : Number(req.query.limit);
+  logger.route('GET', '/search', { q, limit });
+
+  if (!q) {
+    return res.status(400).json({ error: "Query parameter q is required" });
+  }
+  if (!Number.isInteger(limit) || limit < 1 || limit > 100) {
+    return res.status(400).json({ error: "limit must be an integer between 1 and 100" });
+  }
+
+  try {
+    const results = await repo.search(q, limit, user.id);
+
+    logger.info("Search completed", { q, chats: results.chats.length, messages: results.messages.length });
+    res.json({ query: q, ...results });
+  } catch (err) {
+    logger.error("Error searching:", { q, error: err });
+    res.status(500).json({ error: "Internal Server Error" });
+  }
+});
+
+// Rank messages (all branches) and chats by meaning rather than shared words
+app.get("/search/semantic", async (req, res) => {
+  const user = currentUser(res);
+  const q = typeof req.query.q === "string" ? req.query.q.trim() : "";
+  const limit = req.query.limit === undefined ? 20 : Number(req.query.limit);
+  logger.route('GET', '/search/semantic', { q, limit });
+
+  if (!q) {
+    return res.status(400).json({ error: "Query parameter q is required" });
+  }
+  if (!Number.isInteger(limit) || limit < 1 || limit > 100) {
+    return res.status(400).json({ error: "limit must be an integer between 1 and 100" });
+  }
+
+  try {
+    const results = await semanticSearch(repo, q, limit, user.id);
+
+    logger.info("Semantic search completed", { q, chats: results.chats.length, messages: results.messages.length });
+    res.json({ query: q, ...results });
+  } catch (err) {
+    logger.error("Error in semantic search:", { q, error: err });
+    res.status(500).json({ error: "Internal Server Error" });
+  }
+});
+
+// Token usage and cost of the owner's replies, overall, per model and per
+// day; from and to are dates (to inclusive) or timestamps
+app.get("/usage", async (req, res) => {
+  logger.route('GET', '/usage', req.query);
+
+  const range = parseUsageRange(req.query);
+  if ("error" in range) {
+    return res.status(400).json({ error: range.error });
+  }
+
+  try {
+    const rows = await repo.usageReport(currentUser(res).id, range);
+    res.json({
+      from: range.from ?? null,
+      to: range.to ?? null,
+      ...usageReport(rows),
+      // USD per million tokens
+      prices: Object.fromEntries(models.map(m => [m.id, m.pricing])),
+    });
+  } catch (err) {
+    logger.error("Error building usage report:", err);
+    res.status(500).json({ error: "Internal Server Error" });
+  }
+});
+
+// Get a specific chat with the messages of its active branch. With limit,
+// the newest ones; nextCursor passed back as before loads older messages.
 app.get("/chats/:id", async (req, res) => {
   const { id } = req.params;
-  logger.route('GET', `/chats/${id}`, { chatId: id });
+  logger.route('GET', `/chats/${id}`, { chatId: id, ...req.query });
+
+  const page = parsePageQuery(req.query, parseMessageCursor);
+  if ("error" in page) {
+    return res.status(400).json({ error: page.error });
+  }
 
   try {
-    const chat = await sql`
-      SELECT * FROM chats WHERE id = ${id}
-    `;
+    const chat = await repo.getChat(Number(id), currentUser(res).id);
 
-    if (chat.length === 0) {
+    if (!chat) {
       logger.warn("Chat not found", { chatId: id });
       return res.status(404).json({ error: "Chat not found" });
     }
 
-    const messages = await sql`
-      SELECT * FROM messages
-      WHERE chat_id = ${id}
-      ORDER BY created_at ASC
-    `;
+    const messages = await repo.listMessages(chat.id);
+    const path = activePath(messages, chat.active_message_id);
+    const { messages: pageMessages, nextCursor } = pagePath(path, page);
+    const attachments = await repo.listAttachments(chat.id);
 
     logger.info("Chat fetched successfully", {
       chatId: id,
-      messageCount: messages.length
+      messageCount: pageMessages.length,
+      pathLength: path.length
     });
 
     res.json({
-      ...chat[0],
-      messages: messages.map(m => ({
-        id: m.id.toString(),
-        role: m.role,
-        content: m.content,
-        parts: [{ type: "text", text: m.content }]
-      }))
+      ...chat,
+      messages: pageMessages.map(m => formatMessage(m, messages, attachments)),
+      nextCursor
     });
   } catch (err) {
     logger.error("Error fetching chat:", { chatId: id, error: err });
@@ -167,20 +773,63 @@ app.get("/chats/:id", async (req, res) => {
   }
 });
 
+// Download the active branch of a chat as Markdown, HTML or lossless JSON
+app.get("/chats/:id/export", async (req, res) => {
+  const { id } = req.params;
+  const { format = "markdown" } = req.query;
+  logger.route('GET', `/chats/${id}/export`, { chatId: id, format });
+
+  if (!isExportFormat(format)) {
+    return res.status(400).json({ error: `format must be one of ${EXPORT_FORMATS.join(", ")}` });
+  }
+
+  try {
+    const ownerId = currentUser(res).id;
+    const chat = await repo.getChat(Number(id), ownerId);
+    if (!chat) {
+      logger.warn("Chat not found", { chatId: id });
+      return res.status(404).json({ error: "Chat not found" });
+    }
+
+    const path = activePath(await repo.listMessages(chat.id), chat.active_message_id);
+    const included = new Set(path.map(m => m.id));
+    const attachments = (await repo.listAttachments(chat.id))
+      .filter(a => a.message_id !== null && included.has(a.message_id));
+    logger.info("Chat exported", { chatId: id, format, messageCount: path.length });
+
+    res.set("X-Content-Type-Options", "nosniff");
+    if (format === "json") {
+      const files = await repo.getAttachments(attachments.map(a => a.id), ownerId);
+      res.attachment(`chat-${chat.id}.json`);
+      return res.type("application/json").send(JSON.stringify(exportJson(chat, path, files), null, 2));
+    }
+    if (format === "html") {
+      res.attachment(`chat-${chat.id}.html`);
+      return res.type("text/html; charset=utf-8").send(exportHtml(chat, path, attachments));
+    }
+    res.attachment(`chat-${chat.id}.md`);
+    res.type("text/markdown; charset=utf-8").send(exportMarkdown(chat, path, attachments));
+  } catch (err) {
+    logger.error("Error exporting chat:", { chatId: id, error: err });
+    res.status(500).json({ error: "Internal Server Error" });
+  }
+});
+
 // Create a new chat
 app.post("/chats", async (req, res) => {
-  const { title = "New Chat" } = req.body;
-  logger.route('POST', '/chats', { title });
+  const { title = "New Chat", model } = req.body;
+  logger.route('POST', '/chats', { title, model });
+
+  if (model && !getModel(model)) {
+    logger.warn("Unknown model requested", { model });
+    return res.status(400).json({ error: "Unknown model", model });
+  }
 
   try {
-    const newChat = await sql`
-      INSERT INTO chats (title)
-      VALUES (${title})
-      RETURNING *
-    `;
+    const newChat = await repo.createChat(title, model ?? null, currentUser(res).id);
 
-    logger.info("New chat created", { chatId: newChat[0].id });
-    res.status(201).json(newChat[0]);
+    logger.info("New chat created", { chatId: newChat.id });
+    res.status(201).json(newChat);
   } catch (err) {
     logger.error("Error creating chat:", err);
     res.status(500).json({ error: "Internal Server Error" });
@@ -194,33 +843,119 @@ app.put("/chats/:id", async (req, res) => {
   logger.route('PUT', `/chats/${id}`, { chatId: id, newTitle: title });
 
   try {
-    const updatedChat = await sql`
-      UPDATE chats
-      SET title = ${title}, updated_at = NOW()
-      WHERE id = ${id}
-      RETURNING *
-    `;
+    const chat = await repo.getChat(Number(id), currentUser(res).id);
+    const updatedChat = chat && await repo.updateChatTitle(chat.id, title);
 
-    if (updatedChat.length === 0) {
+    if (!updatedChat) {
       logger.warn("Chat not found for update", { chatId: id });
       return res.status(404).json({ error: "Chat not found" });
     }
 
     logger.info("Chat title updated successfully", { chatId: id });
-    res.json(updatedChat[0]);
+    res.json(updatedChat);
   } catch (err) {
     logger.error("Error updating chat:", { chatId: id, error: err });
     res.status(500).json({ error: "Internal Server Error" });
   }
 });
 
+// Update chat system prompt and generation settings
+app.patch("/chats/:id/settings", async (req, res) => {
+  const { id } = req.params;
+  const patch: ChatSettingsPatch = req.body;
+  logger.route('PATCH', `/chats/${id}/settings`, { chatId: id, settings: patch });
+
+  const validationError = validateSettings(patch, true);
+  if (validationError) {
+    logger.warn("Invalid chat settings", { chatId: id, error: validationError });
+    return res.status(400).json({ error: validationError });
+  }
+
+  try {
+    const chat = await repo.getChat(Number(id), currentUser(res).id);
+
+    if (!chat) {
+      logger.warn("Chat not found for settings update", { chatId: id });
+      return res.status(404).json({ error: "Chat not found" });
+    }
+
+    const updatedChat = await repo.updateChatSettings(
+      chat.id,
+      applySettingsPatch(chat.settings, patch)
+    );
+
+    logger.info("Chat settings updated successfully", { chatId: id });
+    res.json(updatedChat);
+  } catch (err) {
+    logger.error("Error updating chat settings:", { chatId: id, error: err });
+    res.status(500).json({ error: "Internal Server Error" });
+  }
+});
+
+// Force a refresh of the chat's rolling summary
+app.post("/chats/:id/summarize", async (req, res) => {
+  const { id } = req.params;
+  logger.route('POST', `/chats/${id}/summarize`, { chatId: id });
+
+  try {
+    const chat = await repo.getChat(Number(id), currentUser(res).id);
+
+    if (!chat) {
+      logger.warn("Chat not found for summarize", { chatId: id });
+      return res.status(404).json({ error: "Chat not found" });
+    }
+
+    const modelConfig = getModel(resolveModelId(null, chat.model))!;
+    const updatedChat = await summarizeChat(repo, chat, modelConfig, { force: true }) ?? chat;
+
+    logger.info("Chat summary refreshed", {
+      chatId: id,
+      summarizedThroughMessageId: updatedChat.summary_message_id
+    });
+    res.json({
+      summary: updatedChat.summary,
+      summary_message_id: updatedChat.summary_message_id,
+      summary_updated_at: updatedChat.summary_updated_at,
+    });
+  } catch (err: any) {
+    logger.error("Error summarizing chat:", { chatId: id, error: err });
+    res.status(500).json({ error: "Internal Server Error", details: err.message });
+  }
+});
+
+// Token usage and cost of every reply in the chat, across all branches
+app.get("/chats/:id/usage", async (req, res) => {
+  const { id } = req.params;
+  logger.route('GET', `/chats/${id}/usage`, { chatId: id });
+
+  try {
+    const chat = await repo.getChat(Number(id), currentUser(res).id);
+    if (!chat) {
+      logger.warn("Chat not found", { chatId: id });
+      return res.status(404).json({ error: "Chat not found" });
+    }
+
+    const { total, byModel } = usageReport(await repo.usageReport(chat.owner_id, { chatId: chat.id }));
+    res.json({ chatId: chat.id, ...total, byModel });
+  } catch (err) {
+    logger.error("Error fetching chat usage:", { chatId: id, error: err });
+    res.status(500).json({ error: "Internal Server Error" });
+  }
+});
+
 // Delete a chat
 app.delete("/chats/:id", async (req, res) => {
   const { id } = req.params;
   logger.route('DELETE', `/chats/${id}`, { chatId: id });
 
   try {
-    await sql`DELETE FROM chats WHERE id = ${id}`;
+    const chat = await repo.getChat(Number(id), currentUser(res).id);
+    if (!chat) {
+      logger.warn("Chat not found for delete", { chatId: id });
+      return res.status(404).json({ error: "Chat not found" });
+    }
+
+    await repo.deleteChat(chat.id);
 
     logger.info("Chat deleted successfully", { chatId: id });
     res.status(204).send();
@@ -231,30 +966,50 @@ app.delete("/chats/:id", async (req, res) => {
 });
 
 // Chat endpoint for NEW chats (without chatId)
-app.post("/chat", async (req, res) => {
-  const { messages = [] }: ChatRequest = req.body;
+app.post("/chat", quota, async (req, res) => {
+  const { messages = [], model, settings, responseFormat }: ChatRequest = req.body;
   logger.route('POST', '/chat', {
     messageCount: messages.length,
-    hasUserMessage: messages.some(m => m.role === 'user')
+    hasUserMessage: messages.some(m => m.role === 'user'),
+    model
   });
 
+  const optionsError = chatOptionsError(model, settings, responseFormat);
+  if (optionsError) {
+    logger.warn("Invalid chat request", { error: optionsError });
+    return res.status(400).json({ error: optionsError });
+  }
+
   try {
     const firstUserMessage = messages.find(m => m.role === "user");
-    const title = firstUserMessage?.parts?.[0]?.text?.slice(0, 50) ||
-                 firstUserMessage?.content?.slice(0, 50) ||
-                 "New Chat";
+    const title = (firstUserMessage && messageText(firstUserMessage).slice(0, 50)) || "New Chat";
 
     logger.info("Creating new chat", { title });
 
-    const newChat = await sql`
-      INSERT INTO chats (title)
-      VALUES (${title})
-      RETURNING id, title
-    `;
-    const currentChatId = newChat[0].id;
+    const newChat = await repo.createChat(title, model ?? null, currentUser(res).id);
+    const currentChatId = newChat.id;
 
     logger.info("New chat created with ID", { chatId: currentChatId });
-    await handleChatMessages(currentChatId, messages, res, true);
+    const modelId = resolveModelId(model);
+    const generation = startGeneration(newChat, []);
+    if ("error" in generation) {
+      return res.status(409).json(generation);
+    }
+
+    try {
+      await handleChatMessages(
+        currentChatId,
+        messages,
+        res,
+        true,
+        generation.controller,
+        modelId,
+        generationSettings(modelId, newChat.settings, settings),
+        responseFormat
+      );
+    } finally {
+      endGeneration(currentChatId, generation.controller);
+    }
   } catch (err: any) {
     logger.error("Error in /chat endpoint:", err);
     res.status(500).json({
@@ -265,34 +1020,65 @@ app.post("/chat", async (req, res) => {
 });
 
 // Chat endpoint for EXISTING chats (with chatId)
-app.post("/chat/:chatId", async (req, res) => {
+app.post("/chat/:chatId", quota, async (req, res) => {
   const { chatId } = req.params;
-  const { messages = [] }: ChatRequest = req.body;
+  const { messages = [], model, settings, responseFormat }: ChatRequest = req.body;
 
   logger.route('POST', `/chat/${chatId}`, {
     chatId,
     messageCount: messages.length,
-    hasUserMessage: messages.some(m => m.role === 'user')
+    hasUserMessage: messages.some(m => m.role === 'user'),
+    model
   });
 
+  const optionsError = chatOptionsError(model, settings, responseFormat);
+  if (optionsError) {
+    logger.warn("Invalid chat request", { chatId, error: optionsError });
+    return res.status(400).json({ error: optionsError });
+  }
+
   try {
     const currentChatId = parseInt(chatId);
 
-    const existingChat = await sql`
-      SELECT id, title FROM chats WHERE id = ${currentChatId}
-    `;
+    const existingChat = await repo.getChat(currentChatId, currentUser(res).id);
 
-    if (existingChat.length === 0) {
+    if (!existingChat) {
       logger.warn("Chat not found", { chatId: currentChatId });
       return res.status(404).json({ error: "Chat not found" });
     }
 
     logger.info("Using existing chat", {
       chatId: currentChatId,
-      title: existingChat[0].title
+      title: existingChat.title
     });
 
-    await handleChatMessages(currentChatId, messages, res, false);
+    // No new turn while a reply streams or the model waits on its tool calls
+    const generation = startGeneration(existingChat, await repo.listMessages(existingChat.id));
+    if ("error" in generation) {
+      logger.warn("Chat is busy", { chatId: currentChatId, ...generation });
+      return res.status(409).json(generation);
+    }
+
+    try {
+      if (model && model !== existingChat.model) {
+        await repo.updateChatModel(currentChatId, model);
+        logger.info("Chat model updated", { chatId: currentChatId, model });
+      }
+
+      const modelId = resolveModelId(model, existingChat.model);
+      await handleChatMessages(
+        currentChatId,
+        messages,
+        res,
+        false,
+        generation.controller,
+        modelId,
+        generationSettings(modelId, existingChat.settings, settings),
+        responseFormat
+      );
+    } finally {
+      endGeneration(currentChatId, generation.controller);
+    }
   } catch (err: any) {
     logger.error("Error in /chat/:chatId endpoint:", err);
     res.status(500).json({
@@ -302,210 +1088,957 @@ app.post("/chat/:chatId", async (req, res) => {
   }
 });
 
-// Helper function to handle chat messages and AI response
-// async function handleChatMessages(
-//   chatId: number,
-//   messages: any[],
-//   res: express.Response,
-//   isNewChat: boolean
-// ) {
-//   logger.info("Processing chat messages", { chatId, isNewChat, incomingMessages: messages.length });
-//   const currentUserMessage = messages.filter(m => m.role === "user").pop();
-//   if (!currentUserMessage) {
-//     logger.warn("No user message found");
-//     res.status(400).json({ error: "No user message provided" });
-//     return;
-//   }
-//   const userMessageText = currentUserMessage.content || "";
-//   logger.info("Extracted user message text", { userMessageText, currentUserMessage });
-
-//   await sql`
-//     INSERT INTO messages (chat_id, role, content)
-//     VALUES (${chatId}, 'user', ${userMessageText})
-//   `;
-
-//   const allMessages = await sql`
-//     SELECT role, content FROM messages
-//     WHERE chat_id = ${chatId}
-//     ORDER BY created_at ASC
-//   `;
-//   logger.info("All messages from DB", { allMessages });
-
-//   let conversationContext = "You are a helpful AI assistant. Here is the conversation history:\n\n";
-//   allMessages.forEach((msg) => {
-//     conversationContext += `${msg.role}: ${msg.content}\n\n`;
-//   });
-//   conversationContext += `assistant:`;
-//   logger.info("Conversation context", { conversationContext });
-
-//   const model = new ChatOpenAI({
-//     openAIApiKey: process.env.OPENAI_API_KEY!,
-//     modelName: "gpt-3.5-turbo", // Use a valid model name
-//     maxTokens: 500,
-//     streaming: true,
-//   });
-
-//   try {
-//     const stream = await model.stream(conversationContext);
-//     res.writeHead(200, {
-//       'Content-Type': 'text/event-stream',
-//       'Cache-Control': 'no-cache',
-//       'Connection': 'keep-alive',
-//       'Access-Control-Allow-Origin': '*',
-//       'X-Chat-Id': chatId.toString(),
-//     });
-
-//     let fullResponse = "";
-//     for await (const chunk of stream) {
-//       logger.info("Received chunk", { chunk });
-//       if (chunk.content) {
-//         const content = chunk.content;
-//         fullResponse += content;
-//         const data = JSON.stringify({ type: "text-delta", textDelta: content });
-//         res.write(`data: ${data}\n\n`);
-//       }
-//     }
-//     res.write('data: [DONE]\n\n');
-//     logger.info("Stream completed successfully", {
-//       chatId,
-//       responseLength: fullResponse.length,
-//       responsePreview: fullResponse.substring(0, 100)
-//     });
-
-//     if (fullResponse.trim()) {
-//       await sql`
-//         INSERT INTO messages (chat_id, role, content)
-//         VALUES (${chatId}, 'assistant', ${fullResponse})
-//       `;
-//     }
-//     await sql`UPDATE chats SET updated_at = NOW() WHERE id = ${chatId}`;
-//     res.end();
-//   } catch (error: any) {
-//     logger.error("Error during AI streaming", error);
-//     const errorData = JSON.stringify({ type: "error", error: "AI Service Error", details: error.message });
-//     res.write(`data: ${errorData}\n\n`);
-//     res.end();
-//   }
-// }
+// Stop the reply currently streaming for a chat; the partial answer is kept
+app.post("/chat/:chatId/stop", async (req, res) => {
+  const { chatId } = req.params;
+  logger.route('POST', `/chat/${chatId}/stop`, { chatId });
+
+  try {
+    const chat = await repo.getChat(Number(chatId), currentUser(res).id);
+    const controller = chat && generations.get(chat.id);
+    if (!controller) {
+      logger.warn("No generation in progress", { chatId });
+      return res.status(404).json({ error: "No generation in progress" });
+    }
+
+    controller.abort();
+    logger.info("Generation stopped", { chatId });
+    res.json({ success: true });
+  } catch (err) {
+    logger.error("Error stopping generation:", { chatId, error: err });
+    res.status(500).json({ error: "Internal Server Error" });
+  }
+});
+
+// Approve or deny a tool call the model is waiting on. Once the last pending
+// call of the reply is decided, the reply resumes on this response.
+function decideToolCall(approved: boolean) {
+  const action = approved ? "approve" : "deny";
+
+  return async (req: express.Request<{ chatId: string; callId: string }>, res: express.Response) => {
+    const { chatId, callId } = req.params;
+    logger.route('POST', `/chat/${chatId}/tool-calls/${callId}/${action}`, { chatId, callId });
+
+    // Key of the row claimed in toolCallsInFlight, once there is one
+    let claimed: string | null = null;
+
+    try {
+      const chat = await repo.getChat(Number(chatId), currentUser(res).id);
+      if (!chat) {
+        logger.warn("Chat not found", { chatId });
+        return res.status(404).json({ error: "Chat not found" });
+      }
+
+      // Call ids come from the model and may repeat across replies, so the
+      // call is looked for on the active branch, the one waiting first
+      const messages = await repo.listMessages(chat.id);
+      const matching = activePath(messages, chat.active_message_id)
+        .filter(m => m.role === "tool" && m.tool_call?.id === callId);
+      const row = matching.find(m => m.status === "pending") ?? matching[matching.length - 1];
+      if (!row) {
+        logger.warn("Tool call not found", { chatId, callId });
+        return res.status(404).json({ error: "Tool call not found" });
+      }
+      if (row.status !== "pending") {
+        return res.status(409).json({ error: "Tool call was already decided", status: row.status });
+      }
+
+      const key = `${chat.id}:${row.id}`;
+      if (toolCallsInFlight.has(key)) {
+        return res.status(409).json({ error: "Tool call is already being decided" });
+      }
+      toolCallsInFlight.add(key);
+      claimed = key;
+
+      // How the reply was asked for is only needed until it resumes
+      const { reply, ...call } = row.tool_call!;
+      const result = approved
+        ? await runTool(call.name, call.input, { repo, chatId: chat.id, ownerId: chat.owner_id })
+        : { output: undefined, error: "The user denied this tool call" };
+      const resolved = await repo.resolveToolCall(
+        chat.id,
+        row.id,
+        approved ? "complete" : "denied",
+        formatToolOutput(result),
+        { ...call, output: result.output, error: result.error }
+      );
+      if (!resolved) {
+        return res.status(409).json({ error: "Tool call was already decided" });
+      }
+      logger.info(`Tool call ${approved ? "approved" : "denied"}`, { chatId, callId, tool: call.name, error: result.error });
+
+      // The reply resumes unless other calls of it still wait for a decision
+      const leafId = latestLeaf(messages, row.id);
+      const generation = startGeneration(
+        { ...chat, active_message_id: leafId },
+        messages.map(m => (m.id === resolved.id ? resolved : m))
+      );
+      if ("error" in generation) {
+        return res.json({
+          toolCall: toolPart(resolved.tool_call!, resolved.status),
+          pendingToolCallIds: generation.toolCallIds ?? [],
+        });
+      }
+
+      try {
+        await repo.setActiveMessage(chat.id, leafId);
+        // The reply goes on with the model, settings and response format it was started with
+        const modelId = resolveModelId(null, reply?.model ?? chat.model);
+        await streamAssistantReply(
+          chat.id,
+          res,
+          generation.controller,
+          modelId,
+          generationSettings(modelId, chat.settings, reply?.settings),
+          reply?.responseFormat as ResponseFormat | undefined
+        );
+      } finally {
+        endGeneration(chat.id, generation.controller);
+      }
+    } catch (err: any) {
+      logger.error(`Error in /chat/:chatId/tool-calls/:callId/${action} endpoint:`, { chatId, callId, error: err });
+      res.status(500).json({ error: "Internal Server Error", details: err.message });
+    } finally {
+      if (claimed) toolCallsInFlight.delete(claimed);
+    }
+  };
+}
+
+app.post("/chat/:chatId/tool-calls/:callId/approve", quota, decideToolCall(true));
+app.post("/chat/:chatId/tool-calls/:callId/deny", quota, decideToolCall(false));
+
+// Reconnect to a generation: replays events after Last-Event-ID, then streams live ones
+app.get("/chat/:chatId/stream/:streamId", async (req, res) => {
+  const { chatId, streamId } = req.params;
+  const lastEventId = Number(req.get("Last-Event-ID") ?? 0);
+  logger.route('GET', `/chat/${chatId}/stream/${streamId}`, { chatId, streamId, lastEventId });
+
+  if (!Number.isInteger(lastEventId) || lastEventId < 0) {
+    return res.status(400).json({ error: "Last-Event-ID must be a non-negative integer" });
+  }
+
+  const stream = streams.get(streamId);
+  const chat = stream && stream.chatId === Number(chatId)
+    ? await repo.getChat(stream.chatId, currentUser(res).id).catch(() => null)
+    : null;
+  if (!stream || !chat) {
+    logger.warn("Stream not found", { chatId, streamId });
+    return res.status(404).json({ error: "Stream not found" });
+  }
+
+  res.writeHead(200, {
+    ...UI_MESSAGE_STREAM_HEADERS,
+    'Access-Control-Allow-Origin': '*',
+    'X-Chat-Id': chatId,
+    'X-Stream-Id': stream.id,
+  });
+  pipeStream(stream, res, lastEventId);
+
+  logger.info("Stream resumed", { chatId, streamId, lastEventId, finished: stream.finished() });
+});
+
+// Edit a user message: saves the new text as a sibling and streams a fresh reply
+app.put("/chats/:id/messages/:messageId", quota, async (req, res) => {
+  const { id, messageId } = req.params;
+  const { content, model, settings, responseFormat }: { content?: string } & ChatRequest = req.body;
+  logger.route('PUT', `/chats/${id}/messages/${messageId}`, { chatId: id, messageId, model });
+
+  if (typeof content !== "string" || !content.trim()) {
+    return res.status(400).json({ error: "content must be a non-empty string" });
+  }
+  const optionsError = chatOptionsError(model, settings, responseFormat);
+  if (optionsError) {
+    logger.warn("Invalid edit request", { chatId: id, error: optionsError });
+    return res.status(400).json({ error: optionsError });
+  }
+
+  try {
+    const chat = await repo.getChat(Number(id), currentUser(res).id);
+    if (!chat) {
+      logger.warn("Chat not found", { chatId: id });
+      return res.status(404).json({ error: "Chat not found" });
+    }
+
+    const original = await repo.getMessage(chat.id, Number(messageId));
+    if (!original) {
+      logger.warn("Message not found", { chatId: id, messageId });
+      return res.status(404).json({ error: "Message not found" });
+    }
+    if (original.role !== "user") {
+      return res.status(400).json({ error: "Only user messages can be edited" });
+    }
+
+    const generation = startGeneration(chat, await repo.listMessages(chat.id));
+    if ("error" in generation) {
+      logger.warn("Chat is busy", { chatId: id, ...generation });
+      return res.status(409).json(generation);
+    }
+
+    try {
+      if (model && model !== chat.model) {
+        await repo.updateChatModel(chat.id, model);
+      }
+
+      // The edited version keeps the original's files
+      const edited = await repo.addMessage(chat.id, "user", content, original.parent_id);
+      const files = await repo.copyAttachments(original.id, edited.id);
+      logger.info("User message edited", {
+        chatId: id,
+        originalId: original.id,
+        editedId: edited.id,
+        attachmentIds: files.map(f => f.id)
+      });
+      scheduleEmbedding([edited]);
+
+      const modelId = resolveModelId(model, chat.model);
+      await streamAssistantReply(
+        chat.id,
+        res,
+        generation.controller,
+        modelId,
+        generationSettings(modelId, chat.settings, settings),
+        responseFormat
+      );
+    } finally {
+      endGeneration(chat.id, generation.controller);
+    }
+  } catch (err: any) {
+    logger.error("Error editing message:", { chatId: id, messageId, error: err });
+    res.status(500).json({ error: "Internal Server Error", details: err.message });
+  }
+});
+
+// Regenerate an answer. For an assistant message the new reply becomes its
+// sibling; for a user message it becomes another reply to it.
+app.post("/chats/:id/messages/:messageId/regenerate", quota, async (req, res) => {
+  const { id, messageId } = req.params;
+  const { model, settings, responseFormat }: ChatRequest = req.body ?? {};
+  logger.route('POST', `/chats/${id}/messages/${messageId}/regenerate`, { chatId: id, messageId, model });
+
+  const optionsError = chatOptionsError(model, settings, responseFormat);
+  if (optionsError) {
+    logger.warn("Invalid regenerate request", { chatId: id, error: optionsError });
+    return res.status(400).json({ error: optionsError });
+  }
+
+  try {
+    const chat = await repo.getChat(Number(id), currentUser(res).id);
+    if (!chat) {
+      logger.warn("Chat not found", { chatId: id });
+      return res.status(404).json({ error: "Chat not found" });
+    }
+
+    const message = await repo.getMessage(chat.id, Number(messageId));
+    if (!message) {
+      logger.warn("Message not found", { chatId: id, messageId });
+      return res.status(404).json({ error: "Message not found" });
+    }
+
+    // A reply, tool calls included, is regenerated from the user turn it answers
+    const messages = await repo.listMessages(chat.id);
+    const path = activePath(messages, message.id);
+    const parentId = message.role === "user"
+      ? message.id
+      : [...path].reverse().find(m => m.role === "user")?.id ?? null;
+    if (parentId === null) {
+      return res.status(400).json({ error: "Message has no prompt to answer" });
+    }
+
+    const generation = startGeneration(chat, messages);
+    if ("error" in generation) {
+      logger.warn("Chat is busy", { chatId: id, ...generation });
+      return res.status(409).json(generation);
+    }
+
+    try {
+      if (model && model !== chat.model) {
+        await repo.updateChatModel(chat.id, model);
+      }
+
+      await repo.setActiveMessage(chat.id, parentId);
+      logger.info("Regenerating reply", { chatId: id, messageId, parentId });
+
+      const modelId = resolveModelId(model, chat.model);
+      await streamAssistantReply(
+        chat.id,
+        res,
+        generation.controller,
+        modelId,
+        generationSettings(modelId, chat.settings, settings),
+        responseFormat
+      );
+    } finally {
+      endGeneration(chat.id, generation.controller);
+    }
+  } catch (err: any) {
+    logger.error("Error regenerating message:", { chatId: id, messageId, error: err });
+    res.status(500).json({ error: "Internal Server Error", details: err.message });
+  }
+});
+
+// Switch the active branch to the one containing a message (e.g. a sibling)
+app.post("/chats/:id/messages/:messageId/select", async (req, res) => {
+  const { id, messageId } = req.params;
+  logger.route('POST', `/chats/${id}/messages/${messageId}/select`, { chatId: id, messageId });
+
+  try {
+    const chat = await repo.getChat(Number(id), currentUser(res).id);
+    if (!chat) {
+      logger.warn("Chat not found", { chatId: id });
+      return res.status(404).json({ error: "Chat not found" });
+    }
+
+    const messages = await repo.listMessages(chat.id);
+    if (!messages.some(m => m.id === Number(messageId))) {
+      logger.warn("Message not found", { chatId: id, messageId });
+      return res.status(404).json({ error: "Message not found" });
+    }
+
+    const leafId = latestLeaf(messages, Number(messageId));
+    await repo.setActiveMessage(chat.id, leafId);
+    const attachments = await repo.listAttachments(chat.id);
+
+    logger.info("Active branch switched", { chatId: id, messageId, leafId });
+    res.json({
+      ...chat,
+      active_message_id: leafId,
+      messages: activePath(messages, leafId).map(m => formatMessage(m, messages, attachments))
+    });
+  } catch (err: any) {
+    logger.error("Error selecting branch:", { chatId: id, messageId, error: err });
+    res.status(500).json({ error: "Internal Server Error" });
+  }
+});
+
+// Import chats from our JSON export or an OpenAI conversations.json; each
+// chat is saved atomically on its own and reported on separately
+app.post("/chats/import", async (req, res) => {
+  logger.route('POST', '/chats/import', { items: Array.isArray(req.body) ? req.body.length : 1 });
+
+  const ownerId = currentUser(res).id;
+  const parsed = parseImport(req.body, ownerId);
+  if ("error" in parsed) {
+    return res.status(400).json({ error: parsed.error });
+  }
+
+  try {
+    const chats: ImportReport[] = [];
+    for (const [index, item] of parsed.entries()) {
+      const report: ImportReport = {
+        index,
+        source: item.source,
+        title: item.title,
+        status: "skipped",
+        chatId: null,
+        messages: 0,
+        skippedMessages: item.skipped,
+        warnings: item.warnings,
+        error: item.error,
+      };
+      if (item.chat && item.history) {
+        try {
+          const chat = await repo.createChatWithHistory(item.chat, item.history);
+          const messages = await repo.listMessages(chat.id);
+          scheduleEmbedding(messages);
+          Object.assign(report, { status: "imported", chatId: chat.id, messages: messages.length });
+        } catch (err: any) {
+          logger.error("Error importing chat:", { index, title: item.title, error: err });
+          Object.assign(report, { status: "failed", error: "The chat could not be saved" });
+        }
+      }
+      chats.push(report);
+    }
+
+    const imported = chats.filter(c => c.status === "imported").length;
+    logger.info("Chats imported", { imported, total: chats.length });
+    res.status(imported > 0 ? 201 : 200).json({ imported, skipped: chats.length - imported, chats });
+  } catch (err) {
+    logger.error("Error importing chats:", { error: err });
+    res.status(500).json({ error: "Internal Server Error" });
+  }
+});
+
+// Fork a chat: copy the path ending at messageId into a new, independent chat
+app.post("/chats/:id/fork", async (req, res) => {
+  const { id } = req.params;
+  const { messageId, title } = req.body ?? {};
+  logger.route('POST', `/chats/${id}/fork`, { chatId: id, messageId, title });
+
+  if (!Number.isInteger(Number(messageId))) {
+    return res.status(400).json({ error: "messageId is required" });
+  }
+  if (title !== undefined && (typeof title !== "string" || !title.trim())) {
+    return res.status(400).json({ error: "Title must be a non-empty string" });
+  }
+
+  try {
+    const chat = await repo.getChat(Number(id), currentUser(res).id);
+    if (!chat) {
+      logger.warn("Chat not found", { chatId: id });
+      return res.status(404).json({ error: "Chat not found" });
+    }
+
+    const messages = await repo.listMessages(chat.id);
+    if (!messages.some(m => m.id === Number(messageId))) {
+      logger.warn("Message not found", { chatId: id, messageId });
+      return res.status(404).json({ error: "Message not found" });
+    }
+
+    const path = activePath(messages, Number(messageId));
+    const fork = await repo.createChatWithHistory(
+      {
+        owner_id: chat.owner_id,
+        title: (title?.trim() || `${chat.title} (fork)`).substring(0, 255),
+        model: chat.model,
+        settings: chat.settings,
+        forked_from_chat_id: chat.id,
+        forked_from_message_id: Number(messageId),
+      },
+      path
+    );
+
+    const forkMessages = await repo.listMessages(fork.id);
+    const attachments = await repo.listAttachments(fork.id);
+    logger.info("Chat forked", { chatId: id, messageId, forkId: fork.id, messages: forkMessages.length });
+    res.status(201).json({
+      ...fork,
+      messages: forkMessages.map(m => formatMessage(m, forkMessages, attachments))
+    });
+  } catch (err: any) {
+    logger.error("Error forking chat:", { chatId: id, messageId, error: err });
+    res.status(500).json({ error: "Internal Server Error" });
+  }
+});
+
+// Add a document (text, markdown or PDF) to a chat for retrieval; the body is the raw file
+app.post("/chats/:id/documents", express.raw({ type: () => true, limit: ragOptions.maxBytes }), async (req, res) => {
+  const { id } = req.params;
+  const filename = typeof req.query.filename === "string" ? req.query.filename.substring(0, 255) : null;
+  const mediaType = documentMediaType(req.get("Content-Type"), filename);
+  logger.route('POST', `/chats/${id}/documents`, { chatId: id, filename, mediaType });
+
+  if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+    return res.status(400).json({ error: "File body is required" });
+  }
+  if (!isSupportedDocument(mediaType)) {
+    return res.status(415).json({ error: `Unsupported document type "${mediaType}"` });
+  }
+
+  try {
+    const chat = await repo.getChat(Number(id), currentUser(res).id);
+    if (!chat) {
+      logger.warn("Chat not found", { chatId: id });
+      return res.status(404).json({ error: "Chat not found" });
+    }
+
+    const document = await ingestDocument(repo, chat.id, { filename, mediaType, data: req.body });
+    if (!document) {
+      return res.status(400).json({ error: "Document contains no text" });
+    }
+
+    logger.info("Document added", { chatId: id, documentId: document.id, chunks: document.chunk_count });
+    res.status(201).json(document);
+  } catch (err) {
+    logger.error("Error adding document:", { chatId: id, error: err });
+    res.status(500).json({ error: "Internal Server Error" });
+  }
+});
+
+// List a chat's documents
+app.get("/chats/:id/documents", async (req, res) => {
+  const { id } = req.params;
+  logger.route('GET', `/chats/${id}/documents`, { chatId: id });
+
+  try {
+    const chat = await repo.getChat(Number(id), currentUser(res).id);
+    if (!chat) {
+      logger.warn("Chat not found", { chatId: id });
+      return res.status(404).json({ error: "Chat not found" });
+    }
+
+    res.json(await repo.listDocuments(chat.id));
+  } catch (err) {
+    logger.error("Error fetching documents:", { chatId: id, error: err });
+    res.status(500).json({ error: "Internal Server Error" });
+  }
+});
+
+// Remove a document and its chunks
+app.delete("/chats/:id/documents/:documentId", async (req, res) => {
+  const { id, documentId } = req.params;
+  logger.route('DELETE', `/chats/${id}/documents/${documentId}`, { chatId: id, documentId });
+
+  try {
+    const chat = await repo.getChat(Number(id), currentUser(res).id);
+    if (!chat) {
+      logger.warn("Chat not found", { chatId: id });
+      return res.status(404).json({ error: "Chat not found" });
+    }
+
+    const deleted = await repo.deleteDocument(chat.id, Number(documentId));
+    if (!deleted) {
+      return res.status(404).json({ error: "Document not found" });
+    }
+
+    logger.info("Document deleted", { chatId: id, documentId });
+    res.json({ success: true });
+  } catch (err) {
+    logger.error("Error deleting document:", { chatId: id, documentId, error: err });
+    res.status(500).json({ error: "Internal Server Error" });
+  }
+});
+
+// Upload a file ahead of sending it; the body is the raw file and Content-Type its media type.
+// Send it with a message as a file part whose url is the returned one.
+app.post("/attachments", express.raw({ type: () => true, limit: MAX_ATTACHMENT_BYTES }), async (req, res) => {
+  const filename = typeof req.query.filename === "string" ? req.query.filename.substring(0, 255) : null;
+  const mediaType = req.get("Content-Type")?.split(";")[0].trim() || "application/octet-stream";
+  logger.route('POST', '/attachments', { filename, mediaType });
+
+  if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+    return res.status(400).json({ error: "File body is required" });
+  }
+
+  try {
+    const attachment = await repo.addAttachment({
+      owner_id: currentUser(res).id,
+      media_type: mediaType,
+      filename,
+      data: req.body,
+    });
+
+    logger.info("Attachment uploaded", { attachmentId: attachment.id, size: attachment.size });
+    res.status(201).json({
+      id: attachment.id,
+      url: attachmentUrl(attachment.id),
+      mediaType: attachment.media_type,
+      filename: attachment.filename,
+      size: attachment.size,
+    });
+  } catch (err) {
+    logger.error("Error uploading attachment:", err);
+    res.status(500).json({ error: "Internal Server Error" });
+  }
+});
+
+// Download an attachment
+app.get("/attachments/:id", async (req, res) => {
+  const { id } = req.params;
+  logger.route('GET', `/attachments/${id}`, { attachmentId: id });
+
+  try {
+    const [attachment] = await repo.getAttachments([Number(id)], currentUser(res).id);
+    if (!attachment) {
+      return res.status(404).json({ error: "Attachment not found" });
+    }
+
+    // Only raster images are shown inline; anything else (HTML, SVG...) is downloaded
+    const inline = attachment.media_type.startsWith("image/") && attachment.media_type !== "image/svg+xml";
+    if (!inline) res.attachment(attachment.filename ?? `attachment-${attachment.id}`);
+    res.set("X-Content-Type-Options", "nosniff");
+    res.type(attachment.media_type).send(attachment.data);
+  } catch (err) {
+    logger.error("Error fetching attachment:", { attachmentId: id, error: err });
+    res.status(500).json({ error: "Internal Server Error" });
+  }
+});
+
 // Helper function to handle chat messages and AI response
 async function handleChatMessages(
   chatId: number,
-  messages: any[],
+  messages: ChatRequestMessage[],
   res: express.Response,
-  isNewChat: boolean
+  isNewChat: boolean,
+  controller: AbortController,
+  modelId: string,
+  settings: GenerationSettings,
+  responseFormat?: ResponseFormat
 ) {
   logger.info("Processing chat messages", { chatId, isNewChat, incomingMessages: messages.length });
   
   const currentUserMessage = messages.filter(m => m.role === "user").pop();
   if (!currentUserMessage) {
     logger.warn("No user message found");
-    return res.status(400).json({ error: "No user message provided" }); // ✅ Add return
+    return res.status(400).json({ error: "No user message provided" });
   }
   
-  const userMessageText = currentUserMessage.content || "";
-  logger.info("Extracted user message text", { userMessageText, currentUserMessage });
-
-  try {
-    // Save user message to database
-    await sql`
-      INSERT INTO messages (chat_id, role, content)
-      VALUES (${chatId}, 'user', ${userMessageText})
-    `;
-
-    const allMessages = await sql`
-      SELECT role, content FROM messages
-      WHERE chat_id = ${chatId}
-      ORDER BY created_at ASC
-    `;
-    logger.info("All messages from DB", { allMessages });
-
-    let conversationContext = "You are a helpful AI assistant. Here is the conversation history:\n\n";
-    allMessages.forEach((msg) => {
-      conversationContext += `${msg.role}: ${msg.content}\n\n`;
-    });
-    conversationContext += `assistant:`;
-    logger.info("Conversation context", { conversationContext });
+  // useChat sends UI message parts; plain { role, content } is still accepted
+  const userMessageText = messageText(currentUserMessage);
+  logger.info("Extracted user message text", { userMessageText, parts: currentUserMessage.parts?.length ?? 0 });
+
+  const attachments = await prepareAttachments(currentUserMessage.parts, currentUser(res).id);
+  if ("error" in attachments) {
+    logger.warn("Invalid attachments", { chatId, error: attachments.error });
+    return res.status(400).json({ error: attachments.error });
+  }
 
-    // const model = new ChatOpenAI({
-    //   openAIApiKey: process.env.OPENAI_API_KEY!,
-    //   modelName: "gpt-4.1-mini",
-    //   maxTokens: 500,
-    //   streaming: true,
-    // });
-    const model = new ChatOpenAI({
-    model: 'google/gemma-3n-e2b-it:free',
-    temperature: 0.8,
-    maxTokens: 500,
-    streaming: true,
-    // apiKey: process.env.OPENROUTER_API_KEY, // Or pass it directly
-     
+  // Save user message to database
+  const userMessage = await repo.addMessage(chatId, "user", userMessageText);
+  if (attachments.ids.length > 0) {
+    await repo.linkAttachments(userMessage.id, attachments.ids);
+    logger.info("Attachments saved", { chatId, messageId: userMessage.id, attachmentIds: attachments.ids });
+  }
+  scheduleEmbedding([userMessage]);
 
-    // apiKey: process.env.OPENROUTER_API_KEY,
-    configuration: {
-         apiKey: process.env.OPENROUTER_API_KEY, 
-        baseURL: "https://openrouter.ai/api/v1",
+  await streamAssistantReply(chatId, res, controller, modelId, settings, responseFormat);
+}
 
+// Stream a new assistant reply to the active branch and save it as a child of its leaf.
+// With a response format the answer is checked against its schema before it is sent.
+// The controller is the one startGeneration claimed the chat with.
+async function streamAssistantReply(
+  chatId: number,
+  res: express.Response,
+  controller: AbortController,
+  modelId: string,
+  settings: GenerationSettings,
+  responseFormat?: ResponseFormat
+) {
+  let eventStream: GenerationStream | null = null;
+  const send = (chunk: ChatStreamChunk) => eventStream?.push(JSON.stringify(chunk));
 
-    },
-});
+  try {
+    const allMessages = await repo.listMessages(chatId);
+    const ownerId = currentUser(res).id;
+    const chat = (await repo.getChat(chatId, ownerId))!;
+    const path = activePath(allMessages, chat.active_message_id);
+    logger.info("Active path from DB", { chatId, pathLength: path.length, totalMessages: allMessages.length });
+
+    const modelConfig = getModel(modelId)!;
+    logger.info("Using model", { modelId, upstream: modelConfig.model, settings });
+    const model = createChatModel(modelConfig, settings);
+
+    // Turns already folded into the rolling summary are replaced by it
+    const { summary, pending: history } = splitAtSummary(chat, path);
+
+    // Add the document excerpts most relevant to the latest question
+    const question = [...path].reverse().find(m => m.role === "user")?.content ?? "";
+    const sources = await retrieveSources(chatId, question);
+    const systemPrompt = withResponseFormat(
+      withDocuments(withSummary(settings.systemPrompt, summary), sources),
+      responseFormat
+    );
+
+    // Attachments and tool call arguments count against the budget too
+    const counter = getTokenCounter(modelConfig);
+    const attachments = await repo.listAttachments(chatId);
+    const withAttachments = history.map(m => ({
+      ...m,
+      extraTokens: attachments
+        .filter(a => a.message_id === m.id)
+        .reduce((total, a) => total + estimateAttachmentTokens(a, modelConfig.vision), 0)
+        + (m.tool_call ? counter.count(JSON.stringify(m.tool_call.input ?? {})) : 0),
+    }));
+
+    // Trim the history to what fits next to the reply in the context window
+    const context = buildContext(systemPrompt, withAttachments, {
+      strategy: settings.contextStrategy,
+      budget: settings.contextTokens ?? modelConfig.contextWindow - settings.maxTokens,
+      keepFirst: settings.contextKeepFirst,
+      windowSize: settings.contextWindowSize,
+      counter,
+    });
+    logger.info("Context built", {
+      chatId,
+      strategy: context.strategy,
+      tokens: context.tokens,
+      budget: context.budget,
+      dropped: context.droppedIds.length
+    });
+
+    // Only the files of messages that made it into the context are loaded
+    const included = new Set(context.includedIds);
+    const files = await repo.getAttachments(
+      attachments.filter(a => a.message_id !== null && included.has(a.message_id)).map(a => a.id),
+      ownerId
+    );
+    const prompt = buildPrompt(
+      systemPrompt,
+      context.messages.map(m => ({ ...m, attachments: files.filter(f => f.message_id === m.id) })),
+      { vision: modelConfig.vision }
+    );
+
+    // Abort the upstream call on POST /chat/:chatId/stop or once every client has gone away
+    eventStream = streams.start(chatId, () => {
+      logger.warn("Stream abandoned, stopping generation", { chatId });
+      controller.abort();
+    });
 
     // Set headers before starting the stream
     res.writeHead(200, {
-      'Content-Type': 'text/event-stream',
-      'Cache-Control': 'no-cache',
-      'Connection': 'keep-alive',
+      ...UI_MESSAGE_STREAM_HEADERS,
       'Access-Control-Allow-Origin': '*',
       'X-Chat-Id': chatId.toString(),
+      'X-Model': modelId,
+      'X-Stream-Id': eventStream.id,
     });
+    pipeStream(eventStream, res);
+
+    const metadata: ChatMessageMetadata = {
+      chatId: chatId.toString(),
+      model: modelId,
+      streamId: eventStream.id,
+    };
+    send({ type: "start", messageId: eventStream.id, messageMetadata: metadata });
+
+    // Tell the client which messages the model can "see" for this answer
+    send({
+      type: "data-context",
+      transient: true,
+      data: {
+        includedMessageIds: context.includedIds,
+        droppedMessageIds: context.droppedIds,
+        tokens: context.tokens,
+        budget: context.budget,
+        strategy: context.strategy,
+        summarizedThroughMessageId: summary ? chat.summary_message_id : null,
+      },
+    });
+    // Cite the retrieved excerpts, numbered as in the prompt
+    sources.forEach((chunk, i) => send({
+      type: "source-document",
+      sourceId: `chunk-${chunk.id}`,
+      mediaType: chunk.media_type,
+      title: `[${i + 1}] ${chunk.filename ?? `Document ${chunk.document_id}`}`,
+      filename: chunk.filename ?? undefined,
+      providerMetadata: {
+        rag: { documentId: chunk.document_id, chunkIndex: chunk.chunk_index, score: chunk.score, text: chunk.content },
+      },
+    }));
+    // The model may call these tools; each round of calls is run here and
+    // answered in a further step, until it replies without calling any
+    const tools = modelConfig.tools ? settings.tools.flatMap(name => getTool(name) ?? []) : [];
+    const runnable = tools.length > 0 && model.bindTools ? model.bindTools(toolSchemas(tools)) : model;
+    const conversation = [...prompt];
+    const callOptions = {
+      stop: settings.stop,
+      signal: controller.signal,
+      ...(responseFormat && jsonCallOptions(modelConfig, {
+        name: formatName(responseFormat),
+        description: responseFormat.description,
+        schema: responseFormat.schema,
+      })),
+    };
 
-    const stream = await model.stream(conversationContext);
     let fullResponse = "";
-    
-    for await (const chunk of stream) {
-      logger.debug("Received chunk", { chunk }); // ✅ Changed to debug to reduce noise
-      if (chunk.content) {
-        const content = chunk.content;
-        fullResponse += content;
-        const data = JSON.stringify({ type: "text-delta", textDelta: content });
-        res.write(`data: ${data}\n\n`);
+    // Text and tool results of each step are chained under the prompt
+    let parentId = chat.active_message_id;
+    // Summed over the steps. Stopped streams end before usage is reported,
+    // so those counts (prompt plus earlier steps, and the text) are estimated.
+    const usage: MessageUsage = {
+      model: modelId,
+      prompt_tokens: 0,
+      completion_tokens: 0,
+      latency_ms: 0,
+      usage_estimated: false,
+    };
+    let stepTokens = 0;
+    // The checked JSON answer, and how often a bad one was sent back
+    let structured: { value: unknown; problems: string[] } | null = null;
+    let retries = 0;
+    // Calls of the last step that wait for approval; the reply pauses after it
+    const awaiting: string[] = [];
+    const startedAt = Date.now();
+    for (let step = 1; ; step++) {
+      send({ type: "start-step" });
+      const textId = `text-${step}`;
+      let response: AIMessageChunk | undefined;
+      fullResponse = "";
+      structured = null;
+
+      try {
+        const stream = await runnable.stream(conversation, callOptions);
+
+        for await (const chunk of stream) {
+          logger.debug("Received chunk", { chunk });
+          // JSON answers are held back until they have been checked
+          if (chunk.text && !responseFormat) {
+            if (!fullResponse) send({ type: "text-start", id: textId });
+            send({ type: "text-delta", id: textId, delta: chunk.text });
+          }
+          fullResponse += chunk.text;
+          response = response ? response.concat(chunk) : chunk;
+        }
+      } catch (error) {
+        if (!controller.signal.aborted) throw error;
+      }
+
+      const reported = response?.usage_metadata;
+      usage.prompt_tokens += reported?.input_tokens ?? context.tokens + stepTokens;
+      usage.completion_tokens += reported?.output_tokens ?? counter.count(fullResponse);
+      usage.usage_estimated ||= !reported;
+
+      const calls = controller.signal.aborted ? [] : response?.tool_calls ?? [];
+      if (responseFormat && calls.length === 0 && !controller.signal.aborted) {
+        structured = parseStructuredOutput(fullResponse, responseFormat);
+        if (structured.problems.length > 0 && retries < structuredOutputOptions.retries) {
+          retries++;
+          logger.warn("Reply does not match the response format, retrying", {
+            chatId,
+            retry: retries,
+            problems: structured.problems,
+          });
+          const instructions = retryInstructions(structured.problems);
+          conversation.push(new AIMessage(fullResponse), new HumanMessage(instructions));
+          stepTokens += counter.count(fullResponse) + counter.count(instructions);
+          send({ type: "finish-step" });
+          continue;
+        }
+      }
+
+      if (fullResponse && responseFormat) {
+        send({ type: "text-start", id: textId });
+        send({ type: "text-delta", id: textId, delta: fullResponse });
+      }
+      if (fullResponse) send({ type: "text-end", id: textId });
+      if (structured?.problems.length === 0) {
+        send({ type: "data-structured-output", data: structured.value });
+      }
+      send({ type: "finish-step" });
+
+      if (calls.length === 0) break;
+      const lastStep = step >= toolOptions.maxSteps;
+      if (lastStep) logger.warn("Tool step limit reached", { chatId, steps: step, calls: calls.length });
+
+      // Text written alongside the calls is kept as a message of its own
+      if (fullResponse.trim()) {
+        const text = await repo.addMessage(chatId, "assistant", fullResponse, parentId);
+        parentId = text.id;
+        scheduleEmbedding([text]);
+      }
+      const callIds = calls.map(call => call.id || `call_${randomUUID()}`);
+      const stepId = callIds[0];
+      conversation.push(new AIMessage({
+        content: fullResponse,
+        tool_calls: calls.map((call, i) => ({ ...call, id: callIds[i] })),
+      }));
+      stepTokens += counter.count(fullResponse);
+
+      for (const [i, call] of calls.entries()) {
+        const toolCallId = callIds[i];
+        send({ type: "tool-input-available", toolCallId, toolName: call.name, input: call.args, dynamic: true });
+
+        if (!lastStep && getTool(call.name)?.requiresApproval) {
+          // Saved unanswered; the first one carries the usage of the reply so far
+          usage.latency_ms = Date.now() - startedAt;
+          const row = await repo.addMessage(chatId, "tool", "", parentId, "pending", {
+            tool_call: {
+              id: toolCallId,
+              name: call.name,
+              input: call.args,
+              step: stepId,
+              reply: { model: modelId, settings, responseFormat },
+            },
+            usage: awaiting.length === 0 ? usage : undefined,
+          });
+          parentId = row.id;
+          awaiting.push(toolCallId);
+          logger.info("Tool call awaiting approval", { chatId, tool: call.name, messageId: row.id });
+          send({
+            type: "data-approval-request",
+            data: { toolCallId, toolName: call.name, input: call.args, messageId: row.id },
+          });
+          continue;
+        }
+
+        // Calls of the last step are recorded, and reported, as not run
+        const result: ToolResult = lastStep
+          ? { output: undefined, error: `Not run: the reply reached its limit of ${toolOptions.maxSteps} steps` }
+          : await runTool(call.name, call.args, { repo, chatId, ownerId, signal: controller.signal });
+        const content = formatToolOutput(result);
+        const row = await repo.addMessage(chatId, "tool", content, parentId, "complete", {
+          tool_call: {
+            id: toolCallId,
+            name: call.name,
+            input: call.args,
+            output: result.output,
+            error: result.error,
+            step: stepId,
+          },
+        });
+        parentId = row.id;
+        logger.info("Tool called", { chatId, tool: call.name, messageId: row.id, error: result.error });
+
+        send(result.error === undefined
+          ? { type: "tool-output-available", toolCallId, output: result.output, dynamic: true }
+          : { type: "tool-output-error", toolCallId, errorText: result.error, dynamic: true });
+        conversation.push(new ToolMessage({ content, tool_call_id: toolCallId, name: call.name }));
+        stepTokens += counter.count(content);
       }
+      // The step's text is saved above, so it is not saved again as the answer
+      fullResponse = "";
+      if (awaiting.length > 0 || lastStep || controller.signal.aborted) break;
     }
+    usage.latency_ms = Date.now() - startedAt;
 
-    // ✅ Send completion signal
-    res.write('data: [DONE]\n\n');
-    
-    logger.info("Stream completed successfully", {
+    const stopped = controller.signal.aborted;
+    const paused = awaiting.length > 0;
+    logger.info(paused ? "Stream paused for tool approval" : stopped ? "Stream stopped" : "Stream completed successfully", {
       chatId,
       responseLength: fullResponse.length,
-      responsePreview: fullResponse.substring(0, 100)
+      responsePreview: fullResponse.substring(0, 100),
+      usage
     });
 
-    // ✅ Save assistant response to database
-    if (fullResponse.trim()) {
-      await sql`
-        INSERT INTO messages (chat_id, role, content)
-        VALUES (${chatId}, 'assistant', ${fullResponse})
-      `;
+    // Save assistant response to database (partial if stopped). A reply
+    // without text is saved empty, as its usage is kept on it; a paused one
+    // keeps its usage on the call it waits for.
+    let saved: DBMessages | null = null;
+    if (!paused) {
+      saved = await repo.addMessage(
+        chatId,
+        "assistant",
+        fullResponse,
+        parentId,
+        stopped ? "stopped" : "complete",
+        { usage, structured_output: structured?.problems.length === 0 ? structured.value : undefined }
+      );
+      if (fullResponse.trim()) scheduleEmbedding([saved]);
     }
+
+    // Retries are used up; the answer is kept as text
+    if (structured && structured.problems.length > 0) {
+      logger.warn("Reply does not match the response format", { chatId, problems: structured.problems });
+      send({
+        type: "error",
+        errorText: `The reply does not match the response format: ${structured.problems.join("; ")}`,
+      });
+    }
+
+    // Prompt and reply count against the caller's token budgets, stopped or not
+    recordTokens(repo, ownerId, currentApiKeyId(res), usage.prompt_tokens + usage.completion_tokens)
+      .catch(err => logger.error("Failed to record token usage", { chatId, error: err }));
     
-    // ✅ Update chat timestamp
-    await sql`UPDATE chats SET updated_at = NOW() WHERE id = ${chatId}`;
-    
-    // ✅ Properly end the response
-    res.end();
+    // Update chat timestamp
+    await repo.touchChat(chatId);
+
+    scheduleSummary(chatId, ownerId, modelId);
+
+    const finalMetadata: ChatMessageMetadata = {
+      ...metadata,
+      messageId: saved?.id.toString(),
+      parentId: parentId?.toString() ?? null,
+      status: paused ? "pending" : stopped ? "stopped" : "complete",
+      usage: formatUsage(usage)!,
+    };
+    if (stopped && !paused) {
+      send({ type: "message-metadata", messageMetadata: finalMetadata });
+      send({ type: "abort" });
+    } else {
+      send({ type: "finish", messageMetadata: finalMetadata });
+    }
+    // Send completion signal; finishing ends every connected response
+    eventStream.push("[DONE]");
+    eventStream.finish();
     
   } catch (error: any) {
     logger.error("Error during AI streaming", error);
     
-    // ✅ Check if headers were already sent
-    if (res.headersSent) {
-      const errorData = JSON.stringify({ 
-        type: "error", 
-        error: "AI Service Error", 
-        details: error.message 
-      });
-      res.write(`data: ${errorData}\n\n`);
-      res.end(); // ✅ Still need to end even if headers sent
+    // Once streaming has started, report the error in-band
+    if (eventStream) {
+      send({ type: "error", errorText: `AI Service Error: ${error.message}` });
+      eventStream.push("[DONE]");
+      eventStream.finish();
     } else {
       res.status(500).json({ 
         error: "AI Service Error", 
@@ -515,7 +2048,18 @@ async function handleChatMessages(
   }
 }
 
-app.listen(3000, () => {
-  console.log("⚡ AI Agent backend running on http://localhost:3000");
-  console.log("🚀 Using OpenAI GPT-4 Mini");
-});
+// Apply pending migrations before accepting requests. Tests (src/__tests__)
+// import the app and listen on a port of their own.
+if (process.env.NODE_ENV !== "test") {
+  initializeDatabase()
+    .then(() => {
+      app.listen(3000, () => {
+        console.log("⚡ AI Agent backend running on http://localhost:3000");
+        console.log(`🚀 Default model: ${DEFAULT_MODEL}`);
+      });
+    })
+    .catch(() => process.exit(1));
+}
+
+export { app, repo };
+export type { ChatStreamChunk };
@@ -0,0 +1,34 @@
+import { createNeonClient, createPgClient, SqlClient } from "../db/client";
+import { createMemoryRepository } from "./memory";
+import { createSqlRepository } from "./sql";
+import { ChatRepository } from "./types";
+
+export * from "./types";
+
+export type StorageDriver = "memory" | "pg" | "neon";
+
+const DRIVERS: StorageDriver[] = ["memory", "pg", "neon"];
+
+// STORAGE_DRIVER selects the backend; Neon stays the default for existing deployments
+export function getStorageDriver(): StorageDriver {
+  const driver = (process.env.STORAGE_DRIVER || "neon") as StorageDriver;
+  if (!DRIVERS.includes(driver)) {
+    throw new Error(`Unknown STORAGE_DRIVER "${driver}" (expected one of ${DRIVERS.join(", ")})`);
+  }
+  return driver;
+}
+
+export function createSqlClient(driver: Exclude<StorageDriver, "memory">): SqlClient {
+  const url = process.env.DATABASE_URL;
+  if (!url) {
+    throw new Error(`DATABASE_URL is required for the "${driver}" storage driver`);
+  }
+  return driver === "pg" ? createPgClient(url) : createNeonClient(url);
+}
+
+export function createRepository(driver: StorageDriver = getStorageDriver()): ChatRepository {
+  if (driver === "memory") {
+    return createMemoryRepository();
+  }
+  return createSqlRepository(createSqlClient(driver));
+}
@@ -0,0 +1,560 @@
+import {
+  ApiKey,
+  AttachmentWithData,
+  Chat,
+  ChatCursor,
+  ChatDocument,
+  ChatRepository,
+  DBMessages,
+  MessageDetails,
+  NewAttachment,
+  NewChat,
+  UsageCounter,
+  UsageTotals,
+  User,
+  UserWithPassword,
+} from "./types";
+import { matchText, parseQuery } from "./search";
+
+interface StoredChunk {
+  id: number;
+  document_id: number;
+  chat_id: number;
+  chunk_index: number;
+  content: string;
+  embedding: number[];
+}
+
+interface StoredEmbedding {
+  message_id: number;
+  chat_id: number;
+  embedder: string;
+  embedding: number[];
+}
+
+interface StoredApiKey extends ApiKey {
+  key_hash: string;
+}
+
+// Process-local storage for offline development and hermetic tests.
+// Everything is lost on restart.
+export function createMemoryRepository(): ChatRepository {
+  const users: UserWithPassword[] = [];
+  const apiKeys: StoredApiKey[] = [];
+  const usage: UsageCounter[] = [];
+  const chats: Chat[] = [];
+  const messages: DBMessages[] = [];
+  const attachments: AttachmentWithData[] = [];
+  const documents: ChatDocument[] = [];
+  const chunks: StoredChunk[] = [];
+  const embeddings: StoredEmbedding[] = [];
+  let nextUserId = 1;
+  let nextApiKeyId = 1;
+  let nextChatId = 1;
+  let nextMessageId = 1;
+  let nextAttachmentId = 1;
+  let nextDocumentId = 1;
+  let nextChunkId = 1;
+
+  const now = () => new Date().toISOString();
+  const findChat = (id: number) => chats.find(c => c.id === id);
+  const copyChat = (chat: Chat): Chat => ({ ...chat, settings: { ...chat.settings } });
+  const withoutData = ({ data, ...attachment }: AttachmentWithData) => attachment;
+  const withoutPassword = ({ password_hash, ...user }: UserWithPassword): User => user;
+  const withoutHash = ({ key_hash, ...apiKey }: StoredApiKey): ApiKey => apiKey;
+  const ownedBy = (ownerId: number | null) => (c: Chat) => c.owner_id === ownerId;
+  const withDetails = ({ usage, tool_call, structured_output }: MessageDetails) => ({
+    model: usage?.model ?? null,
+    prompt_tokens: usage?.prompt_tokens ?? null,
+    completion_tokens: usage?.completion_tokens ?? null,
+    latency_ms: usage?.latency_ms ?? null,
+    usage_estimated: usage?.usage_estimated ?? null,
+    tool_call: tool_call ?? null,
+    structured_output: structured_output ?? null,
+  });
+
+  const insertAttachment = (
+    input: NewAttachment,
+    messageId: number | null,
+    createdAt = now()
+  ): AttachmentWithData => {
+    const attachment: AttachmentWithData = {
+      id: nextAttachmentId++,
+      owner_id: input.owner_id,
+      message_id: messageId,
+      media_type: input.media_type,
+      filename: input.filename,
+      size: input.data.length,
+      data: input.data,
+      created_at: createdAt,
+    };
+    attachments.push(attachment);
+    return attachment;
+  };
+
+  const insertChat = (input: NewChat): Chat => {
+    const timestamp = now();
+    const createdAt = input.created_at ?? timestamp;
+    const chat: Chat = {
+      id: nextChatId++,
+      owner_id: input.owner_id,
+      title: input.title,
+      model: input.model ?? null,
+      settings: { ...input.settings },
+      summary: null,
+      summary_message_id: null,
+      summary_updated_at: null,
+      active_message_id: null,
+      forked_from_chat_id: input.forked_from_chat_id ?? null,
+      forked_from_message_id: input.forked_from_message_id ?? null,
+      created_at: createdAt,
+      updated_at: input.updated_at ?? createdAt,
+    };
+    chats.push(chat);
+    return chat;
+  };
+
+  return {
+    initialize: async () => [],
+
+    createUser: async (email, passwordHash) => {
+      if (users.some(u => u.email === email)) return null;
+      const user = { id: nextUserId++, email, password_hash: passwordHash, created_at: now() };
+      users.push(user);
+      return withoutPassword(user);
+    },
+
+    getUser: async (id) => {
+      const user = users.find(u => u.id === id);
+      return user ? withoutPassword(user) : null;
+    },
+
+    getUserByEmail: async (email) => {
+      const user = users.find(u => u.email === email);
+      return user ? { ...user } : null;
+    },
+
+    countUsers: async () => users.length,
+
+    adoptUnowned: async (ownerId) => {
+      const adopted = chats.filter(ownedBy(null));
+      for (const chat of adopted) chat.owner_id = ownerId;
+      for (const attachment of attachments) {
+        if (attachment.owner_id === null) attachment.owner_id = ownerId;
+      }
+      return adopted.length;
+    },
+
+    createApiKey: async (userId, name, prefix, keyHash) => {
+      const apiKey: StoredApiKey = {
+        id: nextApiKeyId++,
+        user_id: userId,
+        name,
+        prefix,
+        key_hash: keyHash,
+        created_at: now(),
+        last_used_at: null,
+      };
+      apiKeys.push(apiKey);
+      return withoutHash(apiKey);
+    },
+
+    listApiKeys: async (userId) =>
+      apiKeys.filter(k => k.user_id === userId).map(withoutHash),
+
+    deleteApiKey: async (userId, id) => {
+      const index = apiKeys.findIndex(k => k.user_id === userId && k.id === id);
+      if (index === -1) return false;
+      apiKeys.splice(index, 1);
+      return true;
+    },
+
+    hasApiKey: async (userId, id) => apiKeys.some(k => k.user_id === userId && k.id === id),
+
+    getUserByApiKey: async (keyHash) => {
+      const apiKey = apiKeys.find(k => k.key_hash === keyHash);
+      const user = apiKey && users.find(u => u.id === apiKey.user_id);
+      if (!apiKey || !user) return null;
+      apiKey.last_used_at = now();
+      return { user: withoutPassword(user), apiKeyId: apiKey.id };
+    },
+
+    recordUsage: async (subject, periods, requests, tokens) =>
+      periods.map(({ period, start }) => {
+        let counter = usage.find(u => u.subject === subject && u.period === period);
+        if (!counter) {
+          counter = { subject, period, period_start: start, requests: 0, tokens: 0 };
+          usage.push(counter);
+        }
+        if (start > counter.period_start) {
+          Object.assign(counter, { period_start: start, requests: 0, tokens: 0 });
+        }
+        if (start === counter.period_start) {
+          counter.requests += requests;
+          counter.tokens += tokens;
+        }
+        return { ...counter };
+      }),
+
+    usageReport: async (ownerId, { chatId, from, to } = {}) => {
+      const owned = new Set(chats.filter(ownedBy(ownerId)).map(c => c.id));
+      const groups = new Map<string, UsageTotals & { latency: number }>();
+
+      for (const m of messages) {
+        const time = Date.parse(m.created_at);
+        if (m.model === null || !owned.has(m.chat_id)) continue;
+        if (chatId !== undefined && m.chat_id !== chatId) continue;
+        if ((from && time < Date.parse(from)) || (to && time >= Date.parse(to))) continue;
+
+        const day = new Date(time).toISOString().slice(0, 10);
+        const key = `${day} ${m.model}`;
+        const group = groups.get(key) ?? {
+          day, model: m.model, messages: 0, prompt_tokens: 0, completion_tokens: 0,
+          avg_latency_ms: 0, estimated: 0, latency: 0,
+        };
+        group.messages++;
+        group.prompt_tokens += m.prompt_tokens ?? 0;
+        group.completion_tokens += m.completion_tokens ?? 0;
+        group.latency += m.latency_ms ?? 0;
+        if (m.usage_estimated) group.estimated++;
+        groups.set(key, group);
+      }
+
+      return [...groups.values()]
+        .sort((a, b) => a.day.localeCompare(b.day) || a.model.localeCompare(b.model))
+        .map(({ latency, ...group }) => ({ ...group, avg_latency_ms: Math.round(latency / group.messages) }));
+    },
+
+    listChats: async (ownerId, page) => {
+      // Position of a chat relative to another chat or a cursor in list order:
+      // negative means listed before it. Times are compared parsed, since
+      // imported ones and cursors need not be written with the same offset.
+      const compare = (chat: ChatCursor, other: ChatCursor) =>
+        Date.parse(other.updated_at) - Date.parse(chat.updated_at) || other.id - chat.id;
+
+      const listed = chats.filter(ownedBy(ownerId)).map(copyChat).sort(compare);
+      if (!page) return listed;
+
+      if (page.after) {
+        const newer = listed.filter(c => compare(c, page.after!) < 0);
+        return newer.slice(Math.max(newer.length - page.limit, 0));
+      }
+      const before = page.before;
+      return listed.filter(c => !before || compare(c, before) > 0).slice(0, page.limit);
+    },
+
+    getChat: async (id, ownerId) => {
+      const chat = findChat(id);
+      return chat && chat.owner_id === ownerId ? copyChat(chat) : null;
+    },
+
+    createChat: async (title, model, ownerId) => copyChat(insertChat({ owner_id: ownerId, title, model })),
+
+    createChatWithHistory: async (input, history) => {
+      const chat = insertChat(input);
+      for (const entry of history) {
+        const message: DBMessages = {
+          id: nextMessageId++,
+          chat_id: chat.id,
+          parent_id: chat.active_message_id,
+          role: entry.role,
+          content: entry.content,
+          status: entry.status,
+          created_at: entry.created_at,
+          ...withDetails({
+            usage: entry.usage ?? undefined,
+            tool_call: entry.tool_call ?? undefined,
+            structured_output: entry.structured_output ?? undefined,
+          }),
+        };
+        messages.push(message);
+        chat.active_message_id = message.id;
+
+        const copied = attachments.filter(a => entry.id !== undefined && a.message_id === entry.id);
+        for (const attachment of copied) insertAttachment(attachment, message.id);
+        for (const { created_at, ...file } of entry.attachments ?? []) insertAttachment(file, message.id, created_at);
+      }
+      return copyChat(chat);
+    },
+
+    updateChatTitle: async (id, title) => {
+      const chat = findChat(id);
+      if (!chat) return null;
+      chat.title = title;
+      chat.updated_at = now();
+      return copyChat(chat);
+    },
+
+    updateChatModel: async (id, model) => {
+      const chat = findChat(id);
+      if (!chat) return null;
+      chat.model = model;
+      return copyChat(chat);
+    },
+
+    updateChatSettings: async (id, settings) => {
+      const chat = findChat(id);
+      if (!chat) return null;
+      chat.settings = { ...settings };
+      return copyChat(chat);
+    },
+
+    updateChatSummary: async (id, summary, throughMessageId) => {
+      const chat = findChat(id);
+      if (!chat) return null;
+      chat.summary = summary;
+      chat.summary_message_id = throughMessageId;
+      chat.summary_updated_at = now();
+      return copyChat(chat);
+    },
+
+    deleteChat: async (id) => {
+      const index = chats.findIndex(c => c.id === id);
+      if (index !== -1) chats.splice(index, 1);
+      // Mirror ON DELETE SET NULL on fork lineage
+      for (const chat of chats) {
+        if (chat.forked_from_chat_id === id) {
+          chat.forked_from_chat_id = null;
+          chat.forked_from_message_id = null;
+        }
+      }
+      // Mirror ON DELETE CASCADE
+      const deleted = new Set(messages.filter(m => m.chat_id === id).map(m => m.id));
+      for (let i = messages.length - 1; i >= 0; i--) {
+        if (messages[i].chat_id === id) messages.splice(i, 1);
+      }
+      for (let i = attachments.length - 1; i >= 0; i--) {
+        const messageId = attachments[i].message_id;
+        if (messageId !== null && deleted.has(messageId)) attachments.splice(i, 1);
+      }
+      for (let i = documents.length - 1; i >= 0; i--) {
+        if (documents[i].chat_id === id) documents.splice(i, 1);
+      }
+      for (let i = chunks.length - 1; i >= 0; i--) {
+        if (chunks[i].chat_id === id) chunks.splice(i, 1);
+      }
+      for (let i = embeddings.length - 1; i >= 0; i--) {
+        if (embeddings[i].chat_id === id) embeddings.splice(i, 1);
+      }
+    },
+
+    touchChat: async (id) => {
+      const chat = findChat(id);
+      if (chat) chat.updated_at = now();
+    },
+
+    listMessages: async (chatId) =>
+      messages.filter(m => m.chat_id === chatId).map(m => ({ ...m })),
+
+    getMessage: async (chatId, messageId) => {
+      const message = messages.find(m => m.chat_id === chatId && m.id === messageId);
+      return message ? { ...message } : null;
+    },
+
+    addMessage: async (chatId, role, content, parentId, status = "complete", details = {}) => {
+      const chat = findChat(chatId);
+      if (!chat) {
+        throw new Error(`Chat ${chatId} does not exist`);
+      }
+      const message: DBMessages = {
+        id: nextMessageId++,
+        chat_id: chatId,
+        parent_id: parentId === undefined ? chat.active_message_id : parentId,
+        role,
+        content,
+        status,
+        created_at: now(),
+        ...withDetails(details),
+      };
+      messages.push(message);
+      chat.active_message_id = message.id;
+      return { ...message };
+    },
+
+    resolveToolCall: async (chatId, messageId, status, content, toolCall) => {
+      const message = messages.find(m => m.chat_id === chatId && m.id === messageId);
+      if (!message || message.status !== "pending") return null;
+      Object.assign(message, { status, content, tool_call: toolCall });
+      return { ...message };
+    },
+
+    setActiveMessage: async (chatId, messageId) => {
+      const chat = findChat(chatId);
+      if (chat) chat.active_message_id = messageId;
+    },
+
+    addAttachment: async (input) => withoutData(insertAttachment(input, null)),
+
+    getAttachments: async (ids, ownerId) =>
+      attachments.filter(a => ids.includes(a.id) && a.owner_id === ownerId).map(a => ({ ...a })),
+
+    linkAttachments: async (messageId, ids) => {
+      const linked = attachments.filter(a => ids.includes(a.id) && a.message_id === null);
+      for (const attachment of linked) attachment.message_id = messageId;
+      return linked.map(withoutData);
+    },
+
+    copyAttachments: async (fromMessageId, toMessageId) =>
+      attachments
+        .filter(a => a.message_id === fromMessageId)
+        .map(a => withoutData(insertAttachment(a, toMessageId))),
+
+    listAttachments: async (chatId) => {
+      const chatMessageIds = new Set(messages.filter(m => m.chat_id === chatId).map(m => m.id));
+      return attachments
+        .filter(a => a.message_id !== null && chatMessageIds.has(a.message_id))
+        .sort((a, b) => a.id - b.id)
+        .map(withoutData);
+    },
+
+    addDocument: async (input, newChunks) => {
+      const document: ChatDocument = {
+        id: nextDocumentId++,
+        ...input,
+        chunk_count: newChunks.length,
+        created_at: now(),
+      };
+      documents.push(document);
+      newChunks.forEach((chunk, index) => chunks.push({
+        id: nextChunkId++,
+        document_id: document.id,
+        chat_id: document.chat_id,
+        chunk_index: index,
+        content: chunk.content,
+        embedding: chunk.embedding,
+      }));
+      return { ...document };
+    },
+
+    listDocuments: async (chatId) =>
+      documents.filter(d => d.chat_id === chatId).map(d => ({ ...d })),
+
+    deleteDocument: async (chatId, id) => {
+      const index = documents.findIndex(d => d.chat_id === chatId && d.id === id);
+      if (index === -1) return false;
+      documents.splice(index, 1);
+      for (let i = chunks.length - 1; i >= 0; i--) {
+        if (chunks[i].document_id === id) chunks.splice(i, 1);
+      }
+      return true;
+    },
+
+    searchChunks: async (chatId, embedder, embedding, limit) => {
+      const sources = new Map(
+        documents.filter(d => d.chat_id === chatId && d.embedder === embedder).map(d => [d.id, d])
+      );
+
+      return chunks
+        .filter(c => sources.has(c.document_id))
+        .map(c => ({
+          id: c.id,
+          document_id: c.document_id,
+          chunk_index: c.chunk_index,
+          content: c.content,
+          filename: sources.get(c.document_id)!.filename,
+          media_type: sources.get(c.document_id)!.media_type,
+          score: c.embedding.reduce((total, x, i) => total + x * (embedding[i] ?? 0), 0),
+        }))
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit);
+    },
+
+    search: async (query, limit, ownerId) => {
+      const terms = parseQuery(query);
+      const owned = chats.filter(ownedBy(ownerId));
+      const titles = new Map(owned.map(c => [c.id, c.title]));
+
+      const messageHits = messages.flatMap(m => {
+        const match = titles.has(m.chat_id) ? matchText(m.content, terms) : null;
+        return match ? [{
+          message_id: m.id,
+          chat_id: m.chat_id,
+          chat_title: titles.get(m.chat_id) ?? "",
+          role: m.role,
+          snippet: match.snippet,
+          created_at: m.created_at,
+          rank: match.rank,
+        }] : [];
+      });
+
+      const chatHits = owned.flatMap(c => {
+        const title = matchText(c.title, terms, Infinity);
+        const inChat = messageHits.filter(h => h.chat_id === c.id);
+        if (!title && inChat.length === 0) return [];
+        return [{
+          id: c.id,
+          // Like ts_headline, mark any matching word even if the title itself is no match
+          title: matchText(c.title, terms, Infinity, false)?.snippet ?? { text: c.title, highlights: [] },
+          updated_at: c.updated_at,
+          message_matches: inChat.length,
+          rank: (title?.rank ?? 0) + Math.max(0, ...inChat.map(h => h.rank)),
+        }];
+      });
+
+      const byRank = <T extends { rank: number }>(a: T, b: T) => b.rank - a.rank;
+      return {
+        chats: chatHits.sort(byRank).slice(0, limit),
+        messages: messageHits.sort(byRank).slice(0, limit),
+      };
+    },
+
+    saveMessageEmbeddings: async (embedder, entries) => {
+      for (const { message_id, embedding } of entries) {
+        const message = messages.find(m => m.id === message_id);
+        if (!message) continue;
+        const existing = embeddings.find(e => e.message_id === message_id && e.embedder === embedder);
+        if (existing) {
+          existing.embedding = [...embedding];
+        } else {
+          embeddings.push({ message_id, chat_id: message.chat_id, embedder, embedding: [...embedding] });
+        }
+      }
+    },
+
+    listUnembeddedMessages: async (embedder, limit) => {
+      const embedded = new Set(embeddings.filter(e => e.embedder === embedder).map(e => e.message_id));
+      return messages
+        .filter(m => m.content.trim() && !embedded.has(m.id))
+        .slice(0, limit)
+        .map(m => ({ ...m }));
+    },
+
+    semanticSearch: async (embedder, embedding, minScore, limit, ownerId) => {
+      const owned = chats.filter(ownedBy(ownerId));
+      const ownedIds = new Set(owned.map(c => c.id));
+      const hits = embeddings
+        .filter(e => e.embedder === embedder && ownedIds.has(e.chat_id))
+        .map(e => ({
+          message: messages.find(m => m.id === e.message_id)!,
+          score: e.embedding.reduce((total, x, i) => total + x * (embedding[i] ?? 0), 0),
+        }))
+        .filter(h => h.score >= minScore)
+        .sort((a, b) => b.score - a.score);
+
+      const chatHits = owned.flatMap(c => {
+        const inChat = hits.filter(h => h.message.chat_id === c.id);
+        if (inChat.length === 0) return [];
+        return [{
+          id: c.id,
+          title: c.title,
+          updated_at: c.updated_at,
+          message_matches: inChat.length,
+          score: inChat[0].score,
+        }];
+      });
+
+      return {
+        chats: chatHits.sort((a, b) => b.score - a.score).slice(0, limit),
+        messages: hits.slice(0, limit).map(({ message, score }) => ({
+          message_id: message.id,
+          chat_id: message.chat_id,
+          chat_title: findChat(message.chat_id)?.title ?? "",
+          role: message.role,
+          content: message.content,
+          created_at: message.created_at,
+          score,
+        })),
+      };
+    },
+  };
+}
@@ -0,0 +1,95 @@
+import { Highlighted } from "./types";
+
+// Markers around matched words in snippets built by the database; they
+// cannot occur in user text, unlike HTML such as <mark>
+export const HIGHLIGHT_START = "\u0002";
+export const HIGHLIGHT_STOP = "\u0003";
+
+// Turn marked text into plain text plus the [start, end) offsets of its matches
+export function splitHighlights(marked: string): Highlighted {
+  const highlights: Array<[number, number]> = [];
+  let text = "";
+  let start = -1;
+
+  for (const char of marked) {
+    if (char === HIGHLIGHT_START) {
+      start = text.length;
+    } else if (char === HIGHLIGHT_STOP) {
+      if (start !== -1) highlights.push([start, text.length]);
+      start = -1;
+    } else {
+      text += char;
+    }
+  }
+
+  return { text, highlights };
+}
+
+// In-memory stand-in for Postgres' english text search configuration:
+// stop words are ignored, words are crudely stemmed and every term must match
+
+const STOP_WORDS = new Set(
+  ("a an and are as at be but by do does for from has have how i if in is it its of on or " +
+   "that the their this to was were what when where which who why will with you your").split(" ")
+);
+
+function stem(word: string): string {
+  for (const suffix of ["ing", "ed", "es", "s"]) {
+    if (word.length > suffix.length + 2 && word.endsWith(suffix)) {
+      return word.slice(0, -suffix.length);
+    }
+  }
+  return word;
+}
+
+function tokenize(text: string): Array<{ term: string; start: number; end: number }> {
+  return [...text.matchAll(/[\p{L}\p{N}_]+/gu)].map(match => ({
+    term: stem(match[0].toLowerCase()),
+    start: match.index!,
+    end: match.index! + match[0].length,
+  }));
+}
+
+export function parseQuery(query: string): string[] {
+  const words = query.toLowerCase().match(/[\p{L}\p{N}_]+/gu) ?? [];
+  return [...new Set(words.filter(w => !STOP_WORDS.has(w)).map(stem))];
+}
+
+// Match text against parsed query terms (all of them, unless requireAll is
+// false). The snippet is a window of about `words` words around the first
+// match, or the whole text when words is Infinity.
+export function matchText(
+  text: string,
+  terms: string[],
+  words = 30,
+  requireAll = true
+): { rank: number; snippet: Highlighted } | null {
+  if (terms.length === 0) return null;
+
+  const tokens = tokenize(text);
+  const matched = tokens.map(t => terms.includes(t.term));
+  const found = requireAll
+    ? terms.every(term => tokens.some(t => t.term === term))
+    : matched.includes(true);
+  if (!found) return null;
+
+  const first = matched.indexOf(true);
+  const from = words === Infinity ? 0 : Math.max(first - Math.floor(words / 3), 0);
+  const to = Math.min(from + words, tokens.length);
+
+  const sliceStart = from === 0 ? 0 : tokens[from].start;
+  const sliceEnd = to === tokens.length ? text.length : tokens[to - 1].end;
+  const prefix = sliceStart > 0 ? "… " : "";
+  const suffix = sliceEnd < text.length ? " …" : "";
+  const offset = prefix.length - sliceStart;
+
+  const highlights: Array<[number, number]> = [];
+  for (let i = from; i < to; i++) {
+    if (matched[i]) highlights.push([tokens[i].start + offset, tokens[i].end + offset]);
+  }
+
+  return {
+    rank: matched.filter(Boolean).length / tokens.length,
+    snippet: { text: prefix + text.slice(sliceStart, sliceEnd) + suffix, highlights },
+  };
+}
@@ -0,0 +1,615 @@
+import { SqlClient } from "../db/client";
+import { migrate } from "../db/migrator";
+import {
+  ApiKey,
+  Attachment,
+  AttachmentWithData,
+  Chat,
+  ChatDocument,
+  ChatRepository,
+  ChatSearchHit,
+  DBMessages,
+  MessageSearchHit,
+  ScoredChunk,
+  SemanticChatHit,
+  SemanticMessageHit,
+  UsageCounter,
+  UsageTotals,
+  User,
+  UserWithPassword,
+} from "./types";
+import { HIGHLIGHT_START, HIGHLIGHT_STOP, splitHighlights } from "./search";
+
+// ts_headline options: a few fragments for messages, the whole text for titles
+const SNIPPET_OPTIONS =
+  `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_STOP}, ` +
+  `MaxWords=30, MinWords=10, MaxFragments=2, FragmentDelimiter=" … "`;
+const TITLE_OPTIONS = `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_STOP}, HighlightAll=true`;
+
+// Everything but the data, which is only read when needed
+const ATTACHMENT_COLUMNS = "id, owner_id, message_id, media_type, filename, size, created_at";
+
+// Condition on an owner column against parameter $n. NULL never equals a
+// parameter, so unowned rows need IS NULL; = keeps the owner indexes usable.
+function ownedBy(column: string, ownerId: number | null, n: number): string {
+  return ownerId === null ? `(${column} IS NULL AND $${n}::integer IS NULL)` : `${column} = $${n}`;
+}
+
+// Postgres-backed repository; works over any SqlClient (pg or Neon)
+export function createSqlRepository(client: SqlClient): ChatRepository {
+  return {
+    initialize: async () => {
+      const applied = await migrate(client);
+      return applied.map(m => `${m.id}_${m.name}`);
+    },
+
+    createUser: async (email, passwordHash) => {
+      const rows = await client.query<User>(
+        `INSERT INTO users (email, password_hash) VALUES ($1, $2)
+         ON CONFLICT (email) DO NOTHING
+         RETURNING id, email, created_at`,
+        [email, passwordHash]
+      );
+      return rows[0] ?? null;
+    },
+
+    getUser: async (id) => {
+      const rows = await client.query<User>("SELECT id, email, created_at FROM users WHERE id = $1", [id]);
+      return rows[0] ?? null;
+    },
+
+    getUserByEmail: async (email) => {
+      const rows = await client.query<UserWithPassword>("SELECT * FROM users WHERE email = $1", [email]);
+      return rows[0] ?? null;
+    },
+
+    countUsers: async () => {
+      const [{ count }] = await client.query<{ count: number }>("SELECT COUNT(*)::integer AS count FROM users");
+      return count;
+    },
+
+    adoptUnowned: async (ownerId) => {
+      const [chats] = await client.transaction([
+        { text: "UPDATE chats SET owner_id = $1 WHERE owner_id IS NULL RETURNING id", params: [ownerId] },
+        { text: "UPDATE attachments SET owner_id = $1 WHERE owner_id IS NULL", params: [ownerId] },
+      ]);
+      return chats.length;
+    },
+
+    createApiKey: async (userId, name, prefix, keyHash) => {
+      const rows = await client.query<ApiKey>(
+        `INSERT INTO api_keys (user_id, name, prefix, key_hash) VALUES ($1, $2, $3, $4)
+         RETURNING id, user_id, name, prefix, created_at, last_used_at`,
+        [userId, name, prefix, keyHash]
+      );
+      return rows[0];
+    },
+
+    listApiKeys: (userId) =>
+      client.query<ApiKey>(
+        `SELECT id, user_id, name, prefix, created_at, last_used_at
+         FROM api_keys WHERE user_id = $1 ORDER BY id`,
+        [userId]
+      ),
+
+    deleteApiKey: async (userId, id) => {
+      const rows = await client.query<{ id: number }>(
+        "DELETE FROM api_keys WHERE user_id = $1 AND id = $2 RETURNING id",
+        [userId, id]
+      );
+      return rows.length > 0;
+    },
+
+    hasApiKey: async (userId, id) => {
+      const rows = await client.query(
+        "SELECT 1 FROM api_keys WHERE user_id = $1 AND id = $2",
+        [userId, id]
+      );
+      return rows.length > 0;
+    },
+
+    getUserByApiKey: async (keyHash) => {
+      const rows = await client.query<User & { api_key_id: number }>(
+        `WITH used AS (
+           UPDATE api_keys SET last_used_at = NOW() WHERE key_hash = $1 RETURNING id, user_id
+         )
+         SELECT u.id, u.email, u.created_at, used.id AS api_key_id
+         FROM users u JOIN used ON used.user_id = u.id`,
+        [keyHash]
+      );
+      if (!rows[0]) return null;
+      const { api_key_id, ...user } = rows[0];
+      return { user, apiKeyId: api_key_id };
+    },
+
+    usageReport: (ownerId, { chatId, from, to } = {}) =>
+      client.query<UsageTotals>(
+        `SELECT to_char(m.created_at AT TIME ZONE 'UTC', 'YYYY-MM-DD') AS day,
+                m.model,
+                COUNT(*)::integer AS messages,
+                SUM(m.prompt_tokens)::integer AS prompt_tokens,
+                SUM(m.completion_tokens)::integer AS completion_tokens,
+                ROUND(AVG(m.latency_ms))::integer AS avg_latency_ms,
+                COUNT(*) FILTER (WHERE m.usage_estimated)::integer AS estimated
+         FROM messages m
+         JOIN chats c ON c.id = m.chat_id
+         WHERE m.model IS NOT NULL
+           AND ${ownedBy("c.owner_id", ownerId, 1)}
+           AND ($2::integer IS NULL OR m.chat_id = $2)
+           AND ($3::timestamptz IS NULL OR m.created_at >= $3)
+           AND ($4::timestamptz IS NULL OR m.created_at < $4)
+         GROUP BY 1, 2
+         ORDER BY 1, 2`,
+        [ownerId, chatId ?? null, from ?? null, to ?? null]
+      ),
+
+    recordUsage: (subject, periods, requests, tokens) =>
+      client.query<UsageCounter>(
+        `INSERT INTO usage_counters AS u (subject, period, period_start, requests, tokens)
+         SELECT $1, p.period, p.start, $4, $5
+         FROM unnest($2::text[], $3::timestamptz[]) AS p(period, start)
+         ON CONFLICT (subject, period) DO UPDATE SET
+           requests = CASE
+             WHEN EXCLUDED.period_start > u.period_start THEN EXCLUDED.requests
+             WHEN EXCLUDED.period_start = u.period_start THEN u.requests + EXCLUDED.requests
+             ELSE u.requests END,
+           tokens = CASE
+             WHEN EXCLUDED.period_start > u.period_start THEN EXCLUDED.tokens
+             WHEN EXCLUDED.period_start = u.period_start THEN u.tokens + EXCLUDED.tokens
+             ELSE u.tokens END,
+           period_start = GREATEST(u.period_start, EXCLUDED.period_start)
+         RETURNING subject, period, period_start, requests, tokens`,
+        [subject, periods.map(p => p.period), periods.map(p => p.start), requests, tokens]
+      ),
+
+    // updated_at has millisecond precision, like the cursors (see migration 018)
+    listChats: async (ownerId, page) => {
+      const cursor = page?.before ?? page?.after;
+      const newer = page?.after !== undefined;
+      const rows = await client.query<Chat>(
+        `SELECT * FROM chats
+         WHERE ${ownedBy("owner_id", ownerId, 1)}
+         ${cursor ? `AND (updated_at, id) ${newer ? ">" : "<"} ($2::timestamptz, $3)` : ""}
+         ORDER BY updated_at ${newer ? "ASC" : "DESC"}, id ${newer ? "ASC" : "DESC"}
+         ${page ? `LIMIT ${cursor ? "$4" : "$2"}` : ""}`,
+        [ownerId, ...(cursor ? [cursor.updated_at, cursor.id] : []), ...(page ? [page.limit] : [])]
+      );
+      return newer ? rows.reverse() : rows;
+    },
+
+    getChat: async (id, ownerId) => {
+      const rows = await client.query<Chat>(
+        `SELECT * FROM chats WHERE id = $1 AND ${ownedBy("owner_id", ownerId, 2)}`,
+        [id, ownerId]
+      );
+      return rows[0] ?? null;
+    },
+
+    createChat: async (title, model, ownerId) => {
+      const rows = await client.query<Chat>(
+        "INSERT INTO chats (title, model, owner_id) VALUES ($1, $2, $3) RETURNING *",
+        [title, model, ownerId]
+      );
+      return rows[0];
+    },
+
+    createChatWithHistory: async (input, history) => {
+      // Ids are drawn up front so the parent links can be written in the
+      // same (non-interactive) transaction as the rows themselves
+      const [{ id: chatId }] = await client.query<{ id: number }>(
+        "SELECT nextval(pg_get_serial_sequence('chats', 'id'))::integer AS id"
+      );
+      const messageIds = (await client.query<{ id: number }>(
+        `SELECT nextval(pg_get_serial_sequence('messages', 'id'))::integer AS id
+         FROM generate_series(1, $1)`,
+        [history.length]
+      )).map(row => row.id);
+      const files = history.flatMap((m, i) => (m.attachments ?? []).map(file => ({ ...file, message_id: messageIds[i] })));
+
+      const results = await client.transaction([
+        {
+          text: `INSERT INTO chats (
+                   id, owner_id, title, model, settings, forked_from_chat_id, forked_from_message_id, created_at, updated_at
+                 )
+                 VALUES (
+                   $1, $7, $2, $3, $4::jsonb, $5, $6,
+                   COALESCE($8::timestamptz, NOW()), COALESCE($9::timestamptz, $8::timestamptz, NOW())
+                 )`,
+          params: [
+            chatId,
+            input.title,
+            input.model ?? null,
+            JSON.stringify(input.settings ?? {}),
+            input.forked_from_chat_id ?? null,
+            input.forked_from_message_id ?? null,
+            input.owner_id,
+            input.created_at ?? null,
+            input.updated_at ?? null,
+          ],
+        },
+        {
+          text: `INSERT INTO messages (
+                   id, chat_id, parent_id, role, content, status, created_at, tool_call, structured_output,
+                   model, prompt_tokens, completion_tokens, latency_ms, usage_estimated
+                 )
+                 SELECT id, $2, parent_id, role, content, status, created_at, tool_call, structured_output,
+                   model, prompt_tokens, completion_tokens, latency_ms, usage_estimated
+                 FROM unnest(
+                   $1::integer[], $3::integer[], $4::text[], $5::text[], $6::text[], $7::timestamptz[], $8::jsonb[], $9::jsonb[],
+                   $10::text[], $11::integer[], $12::integer[], $13::integer[], $14::boolean[]
+                 ) AS history(
+                   id, parent_id, role, content, status, created_at, tool_call, structured_output,
+                   model, prompt_tokens, completion_tokens, latency_ms, usage_estimated
+                 )`,
+          params: [
+            messageIds,
+            chatId,
+            messageIds.map((_, i) => (i === 0 ? null : messageIds[i - 1])),
+            history.map(m => m.role),
+            history.map(m => m.content),
+            history.map(m => m.status),
+            history.map(m => m.created_at),
+            history.map(m => (m.tool_call ? JSON.stringify(m.tool_call) : null)),
+            history.map(m => (m.structured_output == null ? null : JSON.stringify(m.structured_output))),
+            history.map(m => m.usage?.model ?? null),
+            history.map(m => m.usage?.prompt_tokens ?? null),
+            history.map(m => m.usage?.completion_tokens ?? null),
+            history.map(m => m.usage?.latency_ms ?? null),
+            history.map(m => m.usage?.usage_estimated ?? null),
+          ],
+        },
+        {
+          text: `INSERT INTO attachments (owner_id, message_id, media_type, filename, size, data)
+                 SELECT a.owner_id, copies.new_id, a.media_type, a.filename, a.size, a.data
+                 FROM unnest($1::integer[], $2::integer[]) AS copies(source_id, new_id)
+                 JOIN attachments a ON a.message_id = copies.source_id
+                 ORDER BY a.id`,
+          params: [history.map(m => m.id ?? null), messageIds],
+        },
+        {
+          text: `INSERT INTO attachments (owner_id, message_id, media_type, filename, size, data, created_at)
+                 SELECT owner_id, message_id, media_type, filename, octet_length(data), data, COALESCE(created_at, NOW())
+                 FROM unnest($1::integer[], $2::integer[], $3::text[], $4::text[], $5::bytea[], $6::timestamptz[])
+                   AS files(owner_id, message_id, media_type, filename, data, created_at)`,
+          params: [
+            files.map(f => f.owner_id),
+            files.map(f => f.message_id),
+            files.map(f => f.media_type),
+            files.map(f => f.filename),
+            files.map(f => f.data),
+            files.map(f => f.created_at ?? null),
+          ],
+        },
+        {
+          text: "UPDATE chats SET active_message_id = $2 WHERE id = $1 RETURNING *",
+          params: [chatId, messageIds[messageIds.length - 1] ?? null],
+        },
+      ]);
+
+      return results[4][0] as Chat;
+    },
+
+    updateChatTitle: async (id, title) => {
+      const rows = await client.query<Chat>(
+        `UPDATE chats
+         SET title = $2, updated_at = NOW()
+         WHERE id = $1
+         RETURNING *`,
+        [id, title]
+      );
+      return rows[0] ?? null;
+    },
+
+    updateChatModel: async (id, model) => {
+      const rows = await client.query<Chat>(
+        "UPDATE chats SET model = $2 WHERE id = $1 RETURNING *",
+        [id, model]
+      );
+      return rows[0] ?? null;
+    },
+
+    updateChatSettings: async (id, settings) => {
+      const rows = await client.query<Chat>(
+        "UPDATE chats SET settings = $2::jsonb WHERE id = $1 RETURNING *",
+        [id, JSON.stringify(settings)]
+      );
+      return rows[0] ?? null;
+    },
+
+    updateChatSummary: async (id, summary, throughMessageId) => {
+      const rows = await client.query<Chat>(
+        `UPDATE chats
+         SET summary = $2, summary_message_id = $3, summary_updated_at = NOW()
+         WHERE id = $1
+         RETURNING *`,
+        [id, summary, throughMessageId]
+      );
+      return rows[0] ?? null;
+    },
+
+    deleteChat: async (id) => {
+      await client.query("DELETE FROM chats WHERE id = $1", [id]);
+    },
+
+    touchChat: async (id) => {
+      await client.query("UPDATE chats SET updated_at = NOW() WHERE id = $1", [id]);
+    },
+
+    listMessages: (chatId) =>
+      client.query<DBMessages>(
+        `SELECT * FROM messages
+         WHERE chat_id = $1
+         ORDER BY created_at ASC, id ASC`,
+        [chatId]
+      ),
+
+    getMessage: async (chatId, messageId) => {
+      const rows = await client.query<DBMessages>(
+        "SELECT * FROM messages WHERE chat_id = $1 AND id = $2",
+        [chatId, messageId]
+      );
+      return rows[0] ?? null;
+    },
+
+    addMessage: async (chatId, role, content, parentId, status = "complete", { usage, tool_call, structured_output } = {}) => {
+      // One statement, so the insert and the new active leaf stay consistent
+      const rows = await client.query<DBMessages>(
+        `WITH inserted AS (
+           INSERT INTO messages (
+             chat_id, role, content, parent_id, status,
+             model, prompt_tokens, completion_tokens, latency_ms, usage_estimated, tool_call, structured_output
+           )
+           VALUES (
+             $1, $2, $3,
+             CASE WHEN $5 THEN (SELECT active_message_id FROM chats WHERE id = $1) ELSE $4::integer END,
+             $6, $7, $8, $9, $10, $11, $12::jsonb, $13::jsonb
+           )
+           RETURNING *
+         ), activated AS (
+           UPDATE chats SET active_message_id = (SELECT id FROM inserted) WHERE id = $1
+         )
+         SELECT * FROM inserted`,
+        [
+          chatId, role, content, parentId ?? null, parentId === undefined, status,
+          usage?.model ?? null,
+          usage?.prompt_tokens ?? null,
+          usage?.completion_tokens ?? null,
+          usage?.latency_ms ?? null,
+          usage?.usage_estimated ?? null,
+          tool_call ? JSON.stringify(tool_call) : null,
+          structured_output == null ? null : JSON.stringify(structured_output),
+        ]
+      );
+      return rows[0];
+    },
+
+    resolveToolCall: async (chatId, messageId, status, content, toolCall) => {
+      const rows = await client.query<DBMessages>(
+        `UPDATE messages SET status = $3, content = $4, tool_call = $5::jsonb
+         WHERE chat_id = $1 AND id = $2 AND status = 'pending'
+         RETURNING *`,
+        [chatId, messageId, status, content, JSON.stringify(toolCall)]
+      );
+      return rows[0] ?? null;
+    },
+
+    setActiveMessage: async (chatId, messageId) => {
+      await client.query(
+        "UPDATE chats SET active_message_id = $2 WHERE id = $1",
+        [chatId, messageId]
+      );
+    },
+
+    addAttachment: async (attachment) => {
+      const rows = await client.query<Attachment>(
+        `INSERT INTO attachments (owner_id, media_type, filename, size, data)
+         VALUES ($1, $2, $3, $4, $5)
+         RETURNING ${ATTACHMENT_COLUMNS}`,
+        [attachment.owner_id, attachment.media_type, attachment.filename, attachment.data.length, attachment.data]
+      );
+      return rows[0];
+    },
+
+    getAttachments: (ids, ownerId) =>
+      client.query<AttachmentWithData>(
+        `SELECT * FROM attachments
+         WHERE id = ANY($1::integer[]) AND ${ownedBy("owner_id", ownerId, 2)}
+         ORDER BY id`,
+        [ids, ownerId]
+      ),
+
+    linkAttachments: (messageId, ids) =>
+      client.query<Attachment>(
+        `UPDATE attachments SET message_id = $1
+         WHERE id = ANY($2::integer[]) AND message_id IS NULL
+         RETURNING ${ATTACHMENT_COLUMNS}`,
+        [messageId, ids]
+      ),
+
+    copyAttachments: (fromMessageId, toMessageId) =>
+      client.query<Attachment>(
+        `INSERT INTO attachments (owner_id, message_id, media_type, filename, size, data)
+         SELECT owner_id, $2, media_type, filename, size, data
+         FROM attachments WHERE message_id = $1
+         ORDER BY id
+         RETURNING ${ATTACHMENT_COLUMNS}`,
+        [fromMessageId, toMessageId]
+      ),
+
+    listAttachments: (chatId) =>
+      client.query<Attachment>(
+        `SELECT ${ATTACHMENT_COLUMNS} FROM attachments
+         WHERE message_id IN (SELECT id FROM messages WHERE chat_id = $1)
+         ORDER BY id`,
+        [chatId]
+      ),
+
+    addDocument: async (document, chunks) => {
+      // One statement, so a document never exists without its chunks
+      const rows = await client.query<ChatDocument>(
+        `WITH doc AS (
+           INSERT INTO documents (chat_id, filename, media_type, size, embedder, chunk_count)
+           VALUES ($1, $2, $3, $4, $5, $6)
+           RETURNING *
+         ), chunks AS (
+           INSERT INTO document_chunks (document_id, chat_id, chunk_index, content, embedding)
+           SELECT doc.id, doc.chat_id, chunk.ordinality - 1, chunk.value->>'content',
+                  ARRAY(SELECT jsonb_array_elements_text(chunk.value->'embedding')::real)
+           FROM doc, jsonb_array_elements($7::jsonb) WITH ORDINALITY AS chunk(value, ordinality)
+         )
+         SELECT * FROM doc`,
+        [
+          document.chat_id,
+          document.filename,
+          document.media_type,
+          document.size,
+          document.embedder,
+          chunks.length,
+          JSON.stringify(chunks),
+        ]
+      );
+      return rows[0];
+    },
+
+    listDocuments: (chatId) =>
+      client.query<ChatDocument>(
+        "SELECT * FROM documents WHERE chat_id = $1 ORDER BY id",
+        [chatId]
+      ),
+
+    deleteDocument: async (chatId, id) => {
+      const rows = await client.query<{ id: number }>(
+        "DELETE FROM documents WHERE chat_id = $1 AND id = $2 RETURNING id",
+        [chatId, id]
+      );
+      return rows.length > 0;
+    },
+
+    // Embeddings are unit length, so the dot product is the cosine similarity
+    searchChunks: (chatId, embedder, embedding, limit) =>
+      client.query<ScoredChunk>(
+        `SELECT c.id, c.document_id, c.chunk_index, c.content, d.filename, d.media_type,
+                (SELECT SUM(a * b) FROM unnest(c.embedding, $3::real[]) AS v(a, b))::float8 AS score
+         FROM document_chunks c
+         JOIN documents d ON d.id = c.document_id
+         WHERE c.chat_id = $1 AND d.embedder = $2
+         ORDER BY score DESC NULLS LAST
+         LIMIT $4`,
+        [chatId, embedder, embedding, limit]
+      ),
+
+    search: async (query, limit, ownerId) => {
+      // Highlights come back as marked-up text and are split into offsets here
+      const [messageRows, chatRows] = await Promise.all([
+        client.query<Omit<MessageSearchHit, "snippet"> & { snippet: string }>(
+          `WITH q AS (SELECT websearch_to_tsquery('english', $1) AS query)
+           SELECT m.id AS message_id, m.chat_id, c.title AS chat_title, m.role, m.created_at,
+                  ts_headline('english', m.content, q.query, $3) AS snippet,
+                  ts_rank(to_tsvector('english', m.content), q.query)::float8 AS rank
+           FROM messages m
+           JOIN chats c ON c.id = m.chat_id
+           CROSS JOIN q
+           WHERE to_tsvector('english', m.content) @@ q.query AND ${ownedBy("c.owner_id", ownerId, 4)}
+           ORDER BY rank DESC, m.created_at DESC
+           LIMIT $2`,
+          [query, limit, SNIPPET_OPTIONS, ownerId]
+        ),
+        client.query<Omit<ChatSearchHit, "title"> & { title: string }>(
+          `WITH q AS (SELECT websearch_to_tsquery('english', $1) AS query),
+           hits AS (
+             SELECT m.chat_id, COUNT(*) AS matches,
+                    MAX(ts_rank(to_tsvector('english', m.content), q.query)) AS best
+             FROM messages m
+             JOIN chats owner ON owner.id = m.chat_id
+             CROSS JOIN q
+             WHERE to_tsvector('english', m.content) @@ q.query AND ${ownedBy("owner.owner_id", ownerId, 4)}
+             GROUP BY m.chat_id
+           )
+           SELECT c.id, c.updated_at,
+                  ts_headline('english', c.title, q.query, $3) AS title,
+                  COALESCE(hits.matches, 0)::integer AS message_matches,
+                  (CASE WHEN to_tsvector('english', c.title) @@ q.query
+                        THEN ts_rank(to_tsvector('english', c.title), q.query) ELSE 0 END
+                   + COALESCE(hits.best, 0))::float8 AS rank
+           FROM chats c
+           CROSS JOIN q
+           LEFT JOIN hits ON hits.chat_id = c.id
+           WHERE (to_tsvector('english', c.title) @@ q.query OR hits.chat_id IS NOT NULL)
+             AND ${ownedBy("c.owner_id", ownerId, 4)}
+           ORDER BY rank DESC, c.updated_at DESC
+           LIMIT $2`,
+          [query, limit, TITLE_OPTIONS, ownerId]
+        ),
+      ]);
+
+      return {
+        chats: chatRows.map(row => ({ ...row, title: splitHighlights(row.title) })),
+        messages: messageRows.map(row => ({ ...row, snippet: splitHighlights(row.snippet) })),
+      };
+    },
+
+    saveMessageEmbeddings: async (embedder, embeddings) => {
+      if (embeddings.length === 0) return;
+      await client.query(
+        `INSERT INTO message_embeddings (message_id, chat_id, embedder, embedding)
+         SELECT m.id, m.chat_id, $1,
+                ARRAY(SELECT jsonb_array_elements_text(e.value->'embedding')::real)
+         FROM jsonb_array_elements($2::jsonb) AS e(value)
+         JOIN messages m ON m.id = (e.value->>'message_id')::integer
+         ON CONFLICT (message_id, embedder) DO UPDATE SET embedding = EXCLUDED.embedding`,
+        [embedder, JSON.stringify(embeddings)]
+      );
+    },
+
+    listUnembeddedMessages: (embedder, limit) =>
+      client.query<DBMessages>(
+        // Same test as embedMessages' trim(): btrim only strips spaces
+        `SELECT m.* FROM messages m
+         WHERE m.content ~ '\\S'
+           AND NOT EXISTS (
+             SELECT 1 FROM message_embeddings e WHERE e.message_id = m.id AND e.embedder = $1
+           )
+         ORDER BY m.id
+         LIMIT $2`,
+        [embedder, limit]
+      ),
+
+    // Exact scan over the embedder's vectors; see searchChunks for the scoring
+    semanticSearch: async (embedder, embedding, minScore, limit, ownerId) => {
+      const scored = `scored AS (
+         SELECT e.message_id, e.chat_id,
+                (SELECT SUM(a * b) FROM unnest(e.embedding, $2::real[]) AS v(a, b))::float8 AS score
+         FROM message_embeddings e
+         JOIN chats owner ON owner.id = e.chat_id
+         WHERE e.embedder = $1 AND ${ownedBy("owner.owner_id", ownerId, 5)}
+       ), hits AS (SELECT * FROM scored WHERE score >= $3)`;
+
+      const [messageRows, chatRows] = await Promise.all([
+        client.query<SemanticMessageHit>(
+          `WITH ${scored}
+           SELECT m.id AS message_id, m.chat_id, c.title AS chat_title, m.role, m.content,
+                  m.created_at, hits.score
+           FROM hits
+           JOIN messages m ON m.id = hits.message_id
+           JOIN chats c ON c.id = hits.chat_id
+           ORDER BY hits.score DESC
+           LIMIT $4`,
+          [embedder, embedding, minScore, limit, ownerId]
+        ),
+        client.query<SemanticChatHit>(
+          `WITH ${scored}
+           SELECT c.id, c.title, c.updated_at,
+                  COUNT(*)::integer AS message_matches, MAX(hits.score) AS score
+           FROM hits
+           JOIN chats c ON c.id = hits.chat_id
+           GROUP BY c.id
+           ORDER BY score DESC, c.updated_at DESC
+           LIMIT $4`,
+          [embedder, embedding, minScore, limit, ownerId]
+        ),
+      ]);
+
+      return { chats: chatRows, messages: messageRows };
+    },
+  };
+}
@@ -0,0 +1,403 @@
+// Unset fields fall back to the model's defaults
+export interface ChatSettings {
+  systemPrompt?: string;
+  temperature?: number;
+  maxTokens?: number;
+  topP?: number;
+  stop?: string[];
+  // Context window management (see src/chat/context.ts)
+  contextStrategy?: string;
+  contextTokens?: number;
+  contextKeepFirst?: number;
+  contextWindowSize?: number;
+  // Names of the tools the model may call (see src/tools/registry.ts)
+  tools?: string[];
+}
+
+export interface User {
+  id: number;
+  email: string;
+  created_at: string;
+}
+
+export interface UserWithPassword extends User {
+  password_hash: string;
+}
+
+// Only a hash of the key is stored; prefix identifies it in listings
+export interface ApiKey {
+  id: number;
+  user_id: number;
+  name: string | null;
+  prefix: string;
+  created_at: string;
+  last_used_at: string | null;
+}
+
+export interface Chat {
+  id: number;
+  // Null for chats created before accounts existed
+  owner_id: number | null;
+  title: string;
+  // Model registry id; null means the entry point's default
+  model: string | null;
+  settings: ChatSettings;
+  summary: string | null;
+  summary_message_id: number | null;
+  summary_updated_at: string | null;
+  // Leaf of the active branch of the message tree
+  active_message_id: number | null;
+  forked_from_chat_id: number | null;
+  forked_from_message_id: number | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// "stopped" replies were cut short by the user or a dropped connection.
+// Tool calls that need approval are "pending" until a person approves
+// (then "complete") or refuses them ("denied").
+export type MessageStatus = "complete" | "stopped" | "pending" | "denied";
+
+export interface DBMessages {
+  id: number;
+  chat_id: number;
+  // Previous turn; siblings sharing a parent are alternative versions
+  parent_id: number | null;
+  role: string;
+  content: string;
+  status: MessageStatus;
+  created_at: string;
+  // Set on generated replies (see MessageUsage), null on everything else
+  model: string | null;
+  prompt_tokens: number | null;
+  completion_tokens: number | null;
+  latency_ms: number | null;
+  usage_estimated: boolean | null;
+  // Set on "tool" messages, whose content is the result as sent to the model
+  tool_call: ToolCall | null;
+  // Set on replies asked for as JSON (see src/chat/structured.ts) once the answer matched
+  structured_output: unknown;
+}
+
+// A tool invocation requested by the model
+export interface ToolCall {
+  // Id the model gave the call
+  id: string;
+  name: string;
+  input: unknown;
+  output?: unknown;
+  // Why the call failed, when it did
+  error?: string;
+  // Id of the first call of the step that made it, so the calls of one
+  // model turn can be told from those of the next
+  step?: string;
+  // How the reply that made the call was asked for, so that it resumes the
+  // same way once the call is decided; kept only while the call is pending
+  reply?: { model: string; settings: ChatSettings; responseFormat?: object };
+}
+
+// Optional columns of a new message
+export interface MessageDetails {
+  usage?: MessageUsage;
+  tool_call?: ToolCall;
+  structured_output?: unknown;
+}
+
+// What a generated reply cost
+export interface MessageUsage {
+  // Registry id of the model that wrote it
+  model: string;
+  prompt_tokens: number;
+  completion_tokens: number;
+  // From sending the prompt to the end of the stream
+  latency_ms: number;
+  // Counted locally because the stream reported no usage
+  usage_estimated: boolean;
+}
+
+export interface Attachment {
+  id: number;
+  // The uploader
+  owner_id: number | null;
+  // Null until the upload is sent with a message
+  message_id: number | null;
+  media_type: string;
+  filename: string | null;
+  size: number;
+  created_at: string;
+}
+
+export interface AttachmentWithData extends Attachment {
+  data: Buffer;
+}
+
+export type NewAttachment = Pick<Attachment, "owner_id" | "media_type" | "filename"> & { data: Buffer };
+
+// A file uploaded to a chat for retrieval (RAG)
+export interface ChatDocument {
+  id: number;
+  chat_id: number;
+  filename: string | null;
+  media_type: string;
+  size: number;
+  // Embedder the chunks were embedded with (see src/models/embeddings.ts)
+  embedder: string;
+  chunk_count: number;
+  created_at: string;
+}
+
+export type NewDocument = Pick<ChatDocument, "chat_id" | "filename" | "media_type" | "size" | "embedder">;
+
+export interface NewChunk {
+  content: string;
+  embedding: number[];
+}
+
+export interface ScoredChunk {
+  id: number;
+  document_id: number;
+  chunk_index: number;
+  content: string;
+  filename: string | null;
+  media_type: string;
+  // Cosine similarity to the query
+  score: number;
+}
+
+// Text with the [start, end) offsets of the words that matched a search
+export interface Highlighted {
+  text: string;
+  highlights: Array<[number, number]>;
+}
+
+export interface ChatSearchHit {
+  id: number;
+  title: Highlighted;
+  updated_at: string;
+  // Messages of the chat that match, on any branch
+  message_matches: number;
+  rank: number;
+}
+
+export interface MessageSearchHit {
+  message_id: number;
+  chat_id: number;
+  chat_title: string;
+  role: string;
+  snippet: Highlighted;
+  created_at: string;
+  rank: number;
+}
+
+export interface SearchResults {
+  // Chats whose title or messages match
+  chats: ChatSearchHit[];
+  messages: MessageSearchHit[];
+}
+
+export interface MessageEmbedding {
+  message_id: number;
+  embedding: number[];
+}
+
+export interface SemanticMessageHit {
+  message_id: number;
+  chat_id: number;
+  chat_title: string;
+  role: string;
+  content: string;
+  created_at: string;
+  // Cosine similarity to the query
+  score: number;
+}
+
+export interface SemanticChatHit {
+  id: number;
+  title: string;
+  updated_at: string;
+  // Messages of the chat at least as similar as the minimum score
+  message_matches: number;
+  // Score of its most similar message
+  score: number;
+}
+
+export interface SemanticSearchResults {
+  chats: SemanticChatHit[];
+  messages: SemanticMessageHit[];
+}
+
+// Rate-limit window, UTC day or calendar month
+export type UsagePeriod = "window" | "day" | "month";
+
+export interface UsageCounter {
+  // "user:<id>" or "api_key:<id>"
+  subject: string;
+  period: UsagePeriod;
+  period_start: string;
+  requests: number;
+  tokens: number;
+}
+
+// Generated replies grouped by UTC day and model
+export interface UsageTotals {
+  // YYYY-MM-DD
+  day: string;
+  model: string;
+  messages: number;
+  prompt_tokens: number;
+  completion_tokens: number;
+  avg_latency_ms: number;
+  // Replies whose counts are estimates
+  estimated: number;
+}
+
+// created_at from (inclusive) and to (exclusive); either may be left open
+export interface UsageFilter {
+  chatId?: number;
+  from?: string;
+  to?: string;
+}
+
+// Sort key of a chat in the list, most recently updated first
+export interface ChatCursor {
+  // ISO 8601 time, as chatCursor writes it in UTC
+  updated_at: string;
+  id: number;
+}
+
+// Up to limit chats updated before `before` or after `after` (the ones
+// nearest the cursor), in list order
+export interface ChatPage {
+  limit: number;
+  before?: ChatCursor;
+  after?: ChatCursor;
+}
+
+export interface NewChat {
+  owner_id: number | null;
+  title: string;
+  model?: string | null;
+  settings?: ChatSettings;
+  forked_from_chat_id?: number | null;
+  forked_from_message_id?: number | null;
+  // Kept from the source on imports; now otherwise
+  created_at?: string;
+  updated_at?: string;
+}
+
+// A linear history to copy into a new chat; each message's parent is the one before it
+// (id, when given, is the source message whose attachments are copied along;
+// attachments are new files stored with the message, e.g. from an import)
+export type HistoryMessage = Pick<DBMessages, "role" | "content" | "status" | "created_at"> & {
+  id?: number;
+  tool_call?: ToolCall | null;
+  structured_output?: unknown;
+  usage?: MessageUsage | null;
+  attachments?: (NewAttachment & { created_at?: string })[];
+};
+
+// Methods taking an ownerId only see that user's chats and uploads; null
+// means the unowned ones that predate accounts. Methods taking a chat id
+// trust that the caller has looked the chat up with its owner first.
+export interface ChatRepository {
+  // Prepare the backend (e.g. apply migrations); returns applied migration names
+  initialize(): Promise<string[]>;
+
+  // Returns null when the email is taken
+  createUser(email: string, passwordHash: string): Promise<User | null>;
+  getUser(id: number): Promise<User | null>;
+  getUserByEmail(email: string): Promise<UserWithPassword | null>;
+  countUsers(): Promise<number>;
+  // Give every unowned chat and upload to the user; returns the number of chats
+  adoptUnowned(ownerId: number): Promise<number>;
+
+  createApiKey(userId: number, name: string | null, prefix: string, keyHash: string): Promise<ApiKey>;
+  listApiKeys(userId: number): Promise<ApiKey[]>;
+  deleteApiKey(userId: number, id: number): Promise<boolean>;
+  // Whether the user's key still exists; tokens issued for a deleted key stop working
+  hasApiKey(userId: number, id: number): Promise<boolean>;
+  // The key's user and id, recording that the key was used
+  getUserByApiKey(keyHash: string): Promise<{ user: User; apiKeyId: number } | null>;
+
+  // Add to the subject's counter for each period (identified by its start).
+  // A counter still on an earlier period starts over from these amounts; one
+  // already on a later period is left alone. Returns the counters.
+  recordUsage(
+    subject: string,
+    periods: Array<{ period: UsagePeriod; start: string }>,
+    requests: number,
+    tokens: number
+  ): Promise<UsageCounter[]>;
+
+  // Token totals of the owner's generated replies by day and model, oldest day first
+  usageReport(ownerId: number | null, filter?: UsageFilter): Promise<UsageTotals[]>;
+
+  // Every chat, or one page of them
+  listChats(ownerId: number | null, page?: ChatPage): Promise<Chat[]>;
+  getChat(id: number, ownerId: number | null): Promise<Chat | null>;
+  createChat(title: string, model: string | null, ownerId: number | null): Promise<Chat>;
+  // Create a chat and its history atomically; the last message becomes the active leaf
+  createChatWithHistory(chat: NewChat, history: HistoryMessage[]): Promise<Chat>;
+  updateChatTitle(id: number, title: string): Promise<Chat | null>;
+  updateChatModel(id: number, model: string): Promise<Chat | null>;
+  updateChatSettings(id: number, settings: ChatSettings): Promise<Chat | null>;
+  updateChatSummary(id: number, summary: string, throughMessageId: number): Promise<Chat | null>;
+  deleteChat(id: number): Promise<void>;
+  // Bump updated_at so the chat sorts first in the list
+  touchChat(id: number): Promise<void>;
+
+  // Every message of the chat, across all branches
+  listMessages(chatId: number): Promise<DBMessages[]>;
+  getMessage(chatId: number, messageId: number): Promise<DBMessages | null>;
+  // Adds a message under parentId (default: the active leaf) and makes it the active leaf
+  addMessage(
+    chatId: number,
+    role: string,
+    content: string,
+    parentId?: number | null,
+    status?: MessageStatus,
+    details?: MessageDetails
+  ): Promise<DBMessages>;
+  setActiveMessage(chatId: number, messageId: number | null): Promise<void>;
+  // Record the outcome of a pending tool call; null unless it was still pending
+  resolveToolCall(
+    chatId: number,
+    messageId: number,
+    status: MessageStatus,
+    content: string,
+    toolCall: ToolCall
+  ): Promise<DBMessages | null>;
+
+  addAttachment(attachment: NewAttachment): Promise<Attachment>;
+  getAttachments(ids: number[], ownerId: number | null): Promise<AttachmentWithData[]>;
+  // Attach unsent uploads to a message; returns the ones that were linked
+  linkAttachments(messageId: number, ids: number[]): Promise<Attachment[]>;
+  // Give a message copies of another message's attachments (e.g. an edited version)
+  copyAttachments(fromMessageId: number, toMessageId: number): Promise<Attachment[]>;
+  // Attachments of every message in the chat, without their data
+  listAttachments(chatId: number): Promise<Attachment[]>;
+
+  // Store a document and its chunks together
+  addDocument(document: NewDocument, chunks: NewChunk[]): Promise<ChatDocument>;
+  listDocuments(chatId: number): Promise<ChatDocument[]>;
+  deleteDocument(chatId: number, id: number): Promise<boolean>;
+  // Most similar chunks of the chat's documents embedded by the given embedder
+  searchChunks(chatId: number, embedder: string, embedding: number[], limit: number): Promise<ScoredChunk[]>;
+
+  // Full-text search over chat titles and message contents, best matches first
+  search(query: string, limit: number, ownerId: number | null): Promise<SearchResults>;
+
+  // Store (or replace) message embeddings made by the given embedder
+  saveMessageEmbeddings(embedder: string, embeddings: MessageEmbedding[]): Promise<void>;
+  // Oldest messages with text but no embedding from the given embedder
+  listUnembeddedMessages(embedder: string, limit: number): Promise<DBMessages[]>;
+  // Messages at least minScore similar to the query embedding, and the chats
+  // they belong to ranked by their best message; most similar first
+  semanticSearch(
+    embedder: string,
+    embedding: number[],
+    minScore: number,
+    limit: number,
+    ownerId: number | null
+  ): Promise<SemanticSearchResults>;
+}
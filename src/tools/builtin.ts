@@ -0,0 +1,147 @@
+import { mkdir, writeFile } from "fs/promises";
+import path from "path";
+import type { ToolDefinition } from "./registry";
+import { evaluate } from "./calculator";
+
+// Characters of an HTTP response body handed back to the model
+const MAX_HTTP_BODY_CHARS = 10_000;
+
+const calculator: ToolDefinition = {
+  name: "calculator",
+  description:
+    "Evaluate an arithmetic expression exactly. Supports + - * / % ^, parentheses, " +
+    "pi, e and the functions sqrt, cbrt, abs, round, floor, ceil, sin, cos, tan, asin, " +
+    "acos, atan, ln, log (base 10), log2, exp, min, max and pow.",
+  parameters: {
+    type: "object",
+    properties: {
+      expression: { type: "string", description: "For example: (2 + 3) * sqrt(16) / 4", minLength: 1 },
+    },
+    required: ["expression"],
+    additionalProperties: false,
+  },
+  handler: async ({ expression }: { expression: string }) => ({ expression, result: evaluate(expression) }),
+};
+
+const currentTime: ToolDefinition = {
+  name: "current_time",
+  description: "The current date and time, in UTC and optionally in an IANA time zone such as Europe/Paris.",
+  parameters: {
+    type: "object",
+    properties: {
+      timeZone: { type: "string", description: "IANA time zone name; UTC when left out" },
+    },
+    additionalProperties: false,
+  },
+  handler: async ({ timeZone = "UTC" }: { timeZone?: string }) => {
+    const now = new Date();
+    // Throws a RangeError for unknown zones, which the model sees
+    const local = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      dateStyle: "full",
+      timeStyle: "long",
+    }).format(now);
+    return { utc: now.toISOString(), timeZone, local };
+  },
+};
+
+const searchChats: ToolDefinition = {
+  name: "search_chats",
+  description:
+    "Full-text search over the user's earlier conversations. Returns matching messages " +
+    "with the title of their chat; use it when the user refers to something discussed before.",
+  parameters: {
+    type: "object",
+    properties: {
+      query: { type: "string", description: "Words to look for", minLength: 1 },
+      limit: { type: "integer", description: "Most messages to return (default 5)", minimum: 1, maximum: 20 },
+    },
+    required: ["query"],
+    additionalProperties: false,
+  },
+  handler: async ({ query, limit = 5 }: { query: string; limit?: number }, { repo, ownerId }) => {
+    const { messages } = await repo.search(query, limit, ownerId);
+    return messages.map(m => ({
+      chatId: m.chat_id,
+      chatTitle: m.chat_title,
+      role: m.role,
+      text: m.snippet.text,
+      createdAt: m.created_at,
+    }));
+  },
+};
+
+// Available when TOOL_FILES_DIR is set; files cannot be written outside it
+function writeFileTool(root: string): ToolDefinition {
+  return {
+    name: "write_file",
+    description: "Write a UTF-8 text file in the shared workspace, replacing it if it exists.",
+    parameters: {
+      type: "object",
+      properties: {
+        path: { type: "string", description: "Path relative to the workspace, e.g. notes/todo.md", minLength: 1 },
+        content: { type: "string" },
+      },
+      required: ["path", "content"],
+      additionalProperties: false,
+    },
+    requiresApproval: true,
+    handler: async ({ path: relative, content }: { path: string; content: string }) => {
+      const base = path.resolve(root);
+      const target = path.resolve(base, relative);
+      if (!target.startsWith(base + path.sep)) {
+        throw new Error("path must stay inside the workspace");
+      }
+      await mkdir(path.dirname(target), { recursive: true });
+      await writeFile(target, content, "utf8");
+      return { path: path.relative(base, target), bytes: Buffer.byteLength(content) };
+    },
+  };
+}
+
+// Available when TOOL_HTTP_BASE_URL is set; requests cannot leave that URL
+function httpRequestTool(baseUrl: string): ToolDefinition {
+  const base = new URL(baseUrl.endsWith("/") ? baseUrl : `${baseUrl}/`);
+
+  return {
+    name: "http_request",
+    description: `Call an internal HTTP endpoint under ${base.href}. Returns the status and the response body.`,
+    parameters: {
+      type: "object",
+      properties: {
+        method: { type: "string", enum: ["GET", "POST", "PUT", "PATCH", "DELETE"] },
+        path: { type: "string", description: "Path under the base URL, e.g. status or tickets/42" },
+        body: { type: "string", description: "JSON request body" },
+      },
+      required: ["method", "path"],
+      additionalProperties: false,
+    },
+    requiresApproval: true,
+    handler: async ({ method, path: relative, body }: { method: string; path: string; body?: string }, { signal }) => {
+      const url = new URL(relative.replace(/^\/+/, ""), base);
+      if (url.origin !== base.origin || !url.pathname.startsWith(base.pathname)) {
+        throw new Error("path must stay under the base URL");
+      }
+
+      const response = await fetch(url, {
+        method,
+        body,
+        headers: body === undefined ? undefined : { "content-type": "application/json" },
+        signal,
+      });
+      const text = await response.text();
+      return {
+        status: response.status,
+        body: text.length > MAX_HTTP_BODY_CHARS ? `${text.slice(0, MAX_HTTP_BODY_CHARS)}…` : text,
+      };
+    },
+  };
+}
+
+export const builtinTools: ToolDefinition[] = [
+  calculator,
+  currentTime,
+  searchChats,
+  ...(process.env.TOOL_FILES_DIR ? [writeFileTool(process.env.TOOL_FILES_DIR)] : []),
+  ...(process.env.TOOL_HTTP_BASE_URL ? [httpRequestTool(process.env.TOOL_HTTP_BASE_URL)] : []),
+];
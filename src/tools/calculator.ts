@@ -0,0 +1,123 @@
+// Arithmetic for the calculator tool. Expressions are parsed here rather
+// than handed to eval: numbers, + - * / % ^, parentheses, the constants
+// pi and e, and a few Math functions.
+
+const CONSTANTS: Record<string, number> = { pi: Math.PI, e: Math.E };
+
+const FUNCTIONS: Record<string, (...args: number[]) => number> = {
+  abs: Math.abs,
+  sqrt: Math.sqrt,
+  cbrt: Math.cbrt,
+  round: Math.round,
+  floor: Math.floor,
+  ceil: Math.ceil,
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+  asin: Math.asin,
+  acos: Math.acos,
+  atan: Math.atan,
+  ln: Math.log,
+  log: Math.log10,
+  log2: Math.log2,
+  exp: Math.exp,
+  min: Math.min,
+  max: Math.max,
+  pow: Math.pow,
+};
+
+const TOKEN = /\s*(?:(\d+(?:\.\d*)?(?:e[+-]?\d+)?|\.\d+(?:e[+-]?\d+)?)|([a-z_][a-z0-9_]*)|(\S))/giy;
+
+function tokenize(expression: string): string[] {
+  const tokens: string[] = [];
+  TOKEN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while (TOKEN.lastIndex < expression.length && (match = TOKEN.exec(expression))) {
+    const token = match[1] ?? match[2] ?? match[3];
+    if (token === undefined) break;
+    tokens.push(token);
+  }
+  return tokens;
+}
+
+// Names come from the model: "constructor" or "__proto__" must not reach Object.prototype
+function isOwn(table: object, name: string): boolean {
+  return Object.prototype.hasOwnProperty.call(table, name);
+}
+
+// Throws an Error describing the first problem in the expression
+export function evaluate(expression: string): number {
+  const tokens = tokenize(expression);
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const next = () => tokens[position++];
+  const expect = (token: string) => {
+    if (next() !== token) throw new Error(`Expected "${token}"`);
+  };
+
+  // sum := product (("+" | "-") product)*
+  const sum = (): number => {
+    let value = product();
+    while (peek() === "+" || peek() === "-") {
+      value = next() === "+" ? value + product() : value - product();
+    }
+    return value;
+  };
+
+  // product := unary (("*" | "/" | "%") unary)*
+  const product = (): number => {
+    let value = unary();
+    while (peek() === "*" || peek() === "/" || peek() === "%") {
+      const operator = next();
+      const right = unary();
+      value = operator === "*" ? value * right : operator === "/" ? value / right : value % right;
+    }
+    return value;
+  };
+
+  // unary := ("+" | "-") unary | power
+  const unary = (): number => {
+    if (peek() === "-") { next(); return -unary(); }
+    if (peek() === "+") { next(); return unary(); }
+    return power();
+  };
+
+  // power := atom ("^" unary)?, right-associative
+  const power = (): number => {
+    const base = atom();
+    if (peek() !== "^") return base;
+    next();
+    return Math.pow(base, unary());
+  };
+
+  const atom = (): number => {
+    const token = next();
+    if (token === undefined) throw new Error("Unexpected end of expression");
+    if (token === "(") {
+      const value = sum();
+      expect(")");
+      return value;
+    }
+    if (/^[\d.]/.test(token)) return Number(token);
+
+    const name = token.toLowerCase();
+    if (isOwn(CONSTANTS, name)) return CONSTANTS[name];
+    if (isOwn(FUNCTIONS, name)) {
+      expect("(");
+      const args = [sum()];
+      while (peek() === ",") {
+        next();
+        args.push(sum());
+      }
+      expect(")");
+      return FUNCTIONS[name](...args);
+    }
+    throw new Error(`Unexpected "${token}"`);
+  };
+
+  const value = sum();
+  if (position < tokens.length) throw new Error(`Unexpected "${peek()}"`);
+  if (!Number.isFinite(value)) throw new Error("Result is not a finite number");
+  return value;
+}
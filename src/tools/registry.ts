@@ -0,0 +1,94 @@
+import { ChatRepository } from "../storage";
+import { builtinTools } from "./builtin";
+import { JsonSchema, validateJson } from "./schema";
+
+// What a tool may use while it runs
+export interface ToolContext {
+  repo: ChatRepository;
+  chatId: number;
+  // Owner of the chat; tools only see this owner's data
+  ownerId: number | null;
+  signal?: AbortSignal;
+}
+
+export interface ToolDefinition {
+  // Shown to the model; letters, digits, "_" and "-"
+  name: string;
+  description: string;
+  // Arguments object; calls that do not match are refused before the handler runs
+  parameters: JsonSchema & { type: "object" };
+  // Calls wait for a person to approve them (POST /chat/:chatId/tool-calls/:callId/approve)
+  requiresApproval?: boolean;
+  // Returns the result the model sees (strings as-is, anything else as JSON);
+  // a thrown error is reported to the model as a failed call
+  handler: (input: any, context: ToolContext) => Promise<unknown>;
+}
+
+export interface ToolResult {
+  output: unknown;
+  // Set when the call failed; output is then undefined
+  error?: string;
+}
+
+export const toolOptions = {
+  // Model calls per reply; calls made in the last one are answered with an
+  // error instead of being run, and the reply ends there
+  maxSteps: Number(process.env.TOOL_MAX_STEPS) || 5,
+};
+
+const tools = new Map<string, ToolDefinition>(builtinTools.map(tool => [tool.name, tool]));
+
+export function registerTool(tool: ToolDefinition) {
+  if (!/^[a-zA-Z0-9_-]{1,64}$/.test(tool.name)) {
+    throw new Error(`Invalid tool name "${tool.name}"`);
+  }
+  tools.set(tool.name, tool);
+}
+
+export function getTool(name: string): ToolDefinition | undefined {
+  return tools.get(name);
+}
+
+export function listTools(): ToolDefinition[] {
+  return [...tools.values()];
+}
+
+// CHAT_TOOLS lists the tools chats get unless their settings say otherwise
+// (comma-separated; empty for none); every registered tool by default
+export function defaultToolNames(): string[] {
+  const configured = process.env.CHAT_TOOLS;
+  if (configured === undefined) return listTools().map(t => t.name);
+  return configured.split(",").map(name => name.trim()).filter(name => tools.has(name));
+}
+
+// Definitions in the OpenAI function format, which LangChain's bindTools accepts
+export function toolSchemas(definitions: ToolDefinition[]) {
+  return definitions.map(tool => ({
+    type: "function" as const,
+    function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+  }));
+}
+
+// Model output as sent back in the tool message
+export function formatToolOutput(result: ToolResult): string {
+  if (result.error !== undefined) return `Error: ${result.error}`;
+  return typeof result.output === "string" ? result.output : JSON.stringify(result.output);
+}
+
+// Run one call from the model; unknown tools, invalid arguments and
+// handler errors all become an error result rather than an exception
+export async function runTool(name: string, input: unknown, context: ToolContext): Promise<ToolResult> {
+  const tool = tools.get(name);
+  if (!tool) return { output: undefined, error: `Unknown tool "${name}"` };
+
+  const problems = validateJson(tool.parameters, input);
+  if (problems.length > 0) {
+    return { output: undefined, error: `Invalid arguments: ${problems.join("; ")}` };
+  }
+
+  try {
+    return { output: await tool.handler(input, context) };
+  } catch (err: any) {
+    return { output: undefined, error: err?.message ?? String(err) };
+  }
+}
@@ -0,0 +1,137 @@
+// The subset of JSON Schema that tool parameters and response formats use:
+// type, properties, required, additionalProperties, items, enum and
+// numeric/length bounds
+export interface JsonSchema {
+  type?: "object" | "array" | "string" | "number" | "integer" | "boolean" | "null";
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  enum?: unknown[];
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  minItems?: number;
+  maxItems?: number;
+}
+
+const TYPES = ["object", "array", "string", "number", "integer", "boolean", "null"];
+
+// Keywords that only describe a schema; they are allowed and ignored
+const ANNOTATIONS = ["title", "description", "default", "examples", "$schema", "$comment"];
+
+const COUNTS = ["minLength", "maxLength", "minItems", "maxItems"];
+
+// Why a schema cannot be used by validateJson, or null when it can. Any
+// keyword outside the subset above is refused, since it would be skipped
+// rather than checked.
+export function schemaError(schema: unknown, path = "schema"): string | null {
+  if (typeof schema !== "object" || schema === null || Array.isArray(schema)) {
+    return `${path} must be an object`;
+  }
+
+  for (const [keyword, value] of Object.entries(schema)) {
+    const at = `${path}.${keyword}`;
+    switch (keyword) {
+      case "type":
+        if (!TYPES.includes(value as string)) return `${at} must be one of ${TYPES.join(", ")}`;
+        break;
+      case "properties": {
+        if (typeof value !== "object" || value === null || Array.isArray(value)) return `${at} must be an object`;
+        for (const [name, property] of Object.entries(value)) {
+          const error = schemaError(property, `${at}.${name}`);
+          if (error) return error;
+        }
+        break;
+      }
+      case "required":
+        if (!Array.isArray(value) || value.some(name => typeof name !== "string")) {
+          return `${at} must be an array of strings`;
+        }
+        break;
+      case "additionalProperties":
+        if (typeof value !== "boolean") return `${at} must be a boolean`;
+        break;
+      case "items": {
+        const error = schemaError(value, at);
+        if (error) return error;
+        break;
+      }
+      case "enum":
+        if (!Array.isArray(value)) return `${at} must be an array`;
+        break;
+      case "minimum":
+      case "maximum":
+        if (typeof value !== "number" || !Number.isFinite(value)) return `${at} must be a number`;
+        break;
+      default:
+        if (COUNTS.includes(keyword)) {
+          if (!Number.isInteger(value) || (value as number) < 0) return `${at} must be a non-negative integer`;
+        } else if (!ANNOTATIONS.includes(keyword)) {
+          return `${path}: unsupported keyword "${keyword}"`;
+        }
+    }
+  }
+
+  return null;
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number" && Number.isInteger(value)) return "integer";
+  return typeof value;
+}
+
+// Problems with the value, as "path: message"; empty when it matches
+export function validateJson(schema: JsonSchema, value: unknown, path = "$"): string[] {
+  const actual = typeOf(value);
+  if (schema.type && actual !== schema.type && !(schema.type === "number" && actual === "integer")) {
+    return [`${path}: expected ${schema.type}, got ${actual}`];
+  }
+  if (schema.enum && !schema.enum.some(option => JSON.stringify(option) === JSON.stringify(value))) {
+    return [`${path}: must be one of ${schema.enum.map(option => JSON.stringify(option)).join(", ")}`];
+  }
+
+  const errors: string[] = [];
+
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) errors.push(`${path}: must be at least ${schema.minimum}`);
+    if (schema.maximum !== undefined && value > schema.maximum) errors.push(`${path}: must be at most ${schema.maximum}`);
+  }
+  if (typeof value === "string") {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push(`${path}: must be at least ${schema.minLength} characters`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      errors.push(`${path}: must be at most ${schema.maxLength} characters`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) errors.push(`${path}: must have at least ${schema.minItems} items`);
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) errors.push(`${path}: must have at most ${schema.maxItems} items`);
+    if (schema.items) {
+      value.forEach((item, i) => errors.push(...validateJson(schema.items!, item, `${path}[${i}]`)));
+    }
+  }
+
+  if (actual === "object") {
+    const object = value as Record<string, unknown>;
+    for (const name of schema.required ?? []) {
+      if (object[name] === undefined) errors.push(`${path}.${name}: is required`);
+    }
+    for (const [name, item] of Object.entries(object)) {
+      const property = schema.properties?.[name];
+      if (property) {
+        errors.push(...validateJson(property, item, `${path}.${name}`));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}.${name}: is not allowed`);
+      }
+    }
+  }
+
+  return errors;
+}
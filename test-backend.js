@@ -9,6 +9,21 @@ const logger = {
 
 const delay = (ms) => new Promise(resolve => setTimeout(resolve, ms));
 
+// The chat routes need a token: register the test account, or log in if it exists
+async function signIn() {
+  const credentials = {
+    email: process.env.TEST_EMAIL || 'test@example.com',
+    password: process.env.TEST_PASSWORD || 'test-password',
+  };
+  const response = await axios
+    .post(`${BASE_URL}/auth/register`, credentials)
+    .catch(error => {
+      if (error.response?.status !== 409) throw error;
+      return axios.post(`${BASE_URL}/auth/login`, credentials);
+    });
+  axios.defaults.headers.common.Authorization = `Bearer ${response.data.token}`;
+}
+
 // Create a new chat and add 3 messages
 async function createChatWithMessages(chatName, messages) {
   let chatId = null;
@@ -21,12 +36,14 @@ async function createChatWithMessages(chatName, messages) {
       messages: [{ role: 'user', parts: [{ type: 'text', text: messages[0] }] }]
     }, { responseType: 'stream' });
 
-    // Get chat ID from headers
+    // Get chat ID from the message metadata of the start part
     return new Promise((resolve, reject) => {
       response.data.on('data', (chunk) => {
-        const chunkStr = chunk.toString();
-        if (!chatId && response.headers['x-chat-id']) {
-          chatId = response.headers['x-chat-id'];
+        for (const line of chunk.toString().split('\n')) {
+          if (!chatId && line.startsWith('data: {')) {
+            const parsed = JSON.parse(line.slice(6));
+            if (parsed.type === 'start') chatId = parsed.messageMetadata.chatId;
+          }
         }
       });
 
@@ -73,8 +90,8 @@ async function sendMessage(chatId, message) {
             if (data !== '[DONE]') {
               try {
                 const parsed = JSON.parse(data);
-                if (parsed.textDelta) {
-                  fullResponse += parsed.textDelta;
+                if (parsed.type === 'text-delta') {
+                  fullResponse += parsed.delta;
                 }
               } catch (e) {}
             }
@@ -122,9 +139,9 @@ async function testChatContext(chatId, expectedContext) {
             if (data !== '[DONE]') {
               try {
                 const parsed = JSON.parse(data);
-                if (parsed.textDelta) {
-                  answer += parsed.textDelta;
-                  process.stdout.write(parsed.textDelta);
+                if (parsed.type === 'text-delta') {
+                  answer += parsed.delta;
+                  process.stdout.write(parsed.delta);
                 }
               } catch (e) {}
             }
@@ -166,6 +183,8 @@ async function main() {
   console.log('🚀 Creating Test Chats with Context\n');
   
   try {
+    await signIn();
+
     // Chat 1: Personal Context
     const chat1Messages = [
       "My name is John and I'm 30 years old",
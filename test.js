@@ -14,9 +14,26 @@ const logChatFlow = (chatId, action, message = null, isAI = false) => {
 
 const API_BASE_URL = 'http://localhost:3000';
 
+// The chat routes need a token: register the test account, or log in if it exists
+async function signIn() {
+  const credentials = {
+    email: process.env.TEST_EMAIL || 'test@example.com',
+    password: process.env.TEST_PASSWORD || 'test-password',
+  };
+  const response = await axios
+    .post(`${API_BASE_URL}/auth/register`, credentials)
+    .catch(error => {
+      if (error.response?.status !== 409) throw error;
+      return axios.post(`${API_BASE_URL}/auth/login`, credentials);
+    });
+  axios.defaults.headers.common.Authorization = `Bearer ${response.data.token}`;
+}
+
 async function runChatFlowTest() {
   let chatId1, chatId2, chatId3;
 
+  await signIn();
+
   // Step 1: Create 3 chats
   logChatFlow('N/A', '=== Starting Chat Flow Test ===');
   const res1 = await axios.post(`${API_BASE_URL}/chats`, { title: 'Project Discussion' });